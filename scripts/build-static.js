@@ -0,0 +1,71 @@
+/**
+ * Writes the RSS and Atom feeds, sitemap.xml, robots.txt and prerendered
+ * post and category pages into dist/ after `vite build`.
+ *
+ * Posts are read through the app's own services, using the Supabase project
+ * in VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY (from .env or the
+ * environment). Point those at a local Supabase (`supabase start`) to build
+ * without touching production, or set STATIC_FIXTURES to a module whose
+ * default export is fixture data (e.g. src/build/fixtures/site.ts) to build
+ * without any database. Set SITE_URL to override the site address used in
+ * feed links and canonical URLs; it defaults to `homepage` in package.json.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer, loadEnv } from 'vite';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const distDir = join(root, 'dist');
+
+const fixturesPath = process.env.STATIC_FIXTURES;
+const env = loadEnv('production', root, 'VITE_');
+if (fixturesPath) {
+  // The app creates its Supabase client on import; with fixtures it's never queried
+  process.env.VITE_SUPABASE_URL ||= 'http://localhost:54321';
+  process.env.VITE_SUPABASE_ANON_KEY ||= 'fixtures';
+} else if (!env.VITE_SUPABASE_URL || !env.VITE_SUPABASE_ANON_KEY) {
+  console.warn('Skipping feeds, sitemap and prerendering: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are not set');
+  process.exit(0);
+}
+
+const packageJson = JSON.parse(await readFile(join(root, 'package.json'), 'utf8'));
+const siteUrl = process.env.SITE_URL || packageJson.homepage;
+
+// Vite compiles the TypeScript sources and supplies import.meta.env
+const server = await createServer({
+  root,
+  mode: 'production',
+  logLevel: 'warn',
+  server: { middlewareMode: true },
+  appType: 'custom'
+});
+
+async function loadFixtureSource(path) {
+  const { createFixtureSource } = await server.ssrLoadModule('/src/build/fixtureSource.ts');
+  const fixtures = await server.ssrLoadModule(`/${relative(root, resolve(root, path))}`);
+  return createFixtureSource(fixtures.default);
+}
+
+try {
+  const { generateStaticFiles } = await server.ssrLoadModule('/src/build/index.ts');
+  const source = fixturesPath
+    ? await loadFixtureSource(fixturesPath)
+    : (await server.ssrLoadModule('/src/build/supabaseSource.ts')).supabaseSource;
+  const template = await readFile(join(distDir, 'index.html'), 'utf8');
+  const files = await generateStaticFiles({ siteUrl, template, source });
+
+  for (const file of files) {
+    const outputPath = join(distDir, file.path);
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, file.contents);
+  }
+
+  console.log(`Wrote ${files.length} static files to dist/`);
+} catch (error) {
+  console.error('Failed to build static files:', error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
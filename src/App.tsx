@@ -1,55 +1,79 @@
-import React from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { useState } from 'react';
+import { createBrowserRouter, RouterProvider, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import Gallery from './components/Gallery';
 import BlogPost from './components/BlogPost';
+import SearchResults from './components/SearchResults';
+import TagPosts from './components/TagPosts';
 import LoginForm from './components/auth/LoginForm';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import AdminLayout from './components/admin/AdminLayout';
 import PostList from './components/admin/PostList';
 import PostForm from './components/admin/PostForm';
 import ImageManager from './components/admin/ImageManager';
+import CategoryManager from './components/admin/CategoryManager';
 
-function App() {
+/**
+ * The app's routes, without a router, so the build can prerender them with a
+ * static one
+ */
+export function AppRoutes() {
   return (
     <AuthProvider>
-      <Router>
-        <Routes>
-          <Route path="/" element={<Gallery />} />
-          <Route path="/post/:id" element={<BlogPost />} />
-          <Route path="/login" element={<LoginForm />} />
-          <Route path="/admin" element={
-            <ProtectedRoute>
-              <AdminLayout>
-                <PostList />
-              </AdminLayout>
-            </ProtectedRoute>
-          } />
-          <Route path="/admin/new" element={
-            <ProtectedRoute>
-              <AdminLayout>
-                <PostForm />
-              </AdminLayout>
-            </ProtectedRoute>
-          } />
-          <Route path="/admin/edit/:id" element={
-            <ProtectedRoute>
-              <AdminLayout>
-                <PostForm />
-              </AdminLayout>
-            </ProtectedRoute>
-          } />
-          <Route path="/admin/images" element={
-            <ProtectedRoute>
-              <AdminLayout>
-                <ImageManager />
-              </AdminLayout>
-            </ProtectedRoute>
-          } />
-        </Routes>
-      </Router>
+      <Routes>
+        <Route path="/" element={<Gallery />} />
+        <Route path="/category/:category" element={<Gallery />} />
+        <Route path="/post/:slug" element={<BlogPost />} />
+        <Route path="/search" element={<SearchResults />} />
+        <Route path="/tag/:tag" element={<TagPosts />} />
+        <Route path="/login" element={<LoginForm />} />
+        <Route path="/admin" element={
+          <ProtectedRoute>
+            <AdminLayout>
+              <PostList />
+            </AdminLayout>
+          </ProtectedRoute>
+        } />
+        <Route path="/admin/new" element={
+          <ProtectedRoute>
+            <AdminLayout>
+              <PostForm />
+            </AdminLayout>
+          </ProtectedRoute>
+        } />
+        <Route path="/admin/edit/:id" element={
+          <ProtectedRoute>
+            <AdminLayout>
+              <PostForm />
+            </AdminLayout>
+          </ProtectedRoute>
+        } />
+        <Route path="/admin/images" element={
+          <ProtectedRoute>
+            <AdminLayout>
+              <ImageManager />
+            </AdminLayout>
+          </ProtectedRoute>
+        } />
+        <Route path="/admin/categories" element={
+          <ProtectedRoute>
+            <AdminLayout>
+              <CategoryManager />
+            </AdminLayout>
+          </ProtectedRoute>
+        } />
+      </Routes>
     </AuthProvider>
   );
 }
 
+/**
+ * The app in the browser. A data router is needed for blocking navigation
+ * away from unsaved edits; it's created on mount since it reads `window`.
+ */
+function App() {
+  const [router] = useState(() => createBrowserRouter([{ path: '*', element: <AppRoutes /> }]));
+  return <RouterProvider router={router} />;
+}
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { FeedData, buildAtomFeed, buildRssFeed, escapeXml } from './feedXml';
+
+const feed: FeedData = {
+  title: 'Trail & Travel',
+  description: 'Notes from the road',
+  siteUrl: 'https://example.com/',
+  feedUrl: 'https://example.com/rss.xml',
+  language: 'en',
+  updated: new Date('2024-06-03T09:00:00Z'),
+  items: [{
+    id: 'urn:uuid:1',
+    title: 'Up & Over',
+    url: 'https://example.com/post/up',
+    summary: 'A <long> day',
+    contentHtml: '<p>Ends with ]]> here</p>',
+    category: { term: 'hiking', label: 'Hiking' },
+    tags: ['Sierra'],
+    published: new Date('2024-06-02T18:00:00Z'),
+    updated: new Date('2024-06-03T09:00:00Z'),
+    author: 'Kate',
+    enclosure: { url: 'https://example.com/a.jpg?w=1&h=2', type: 'image/jpeg', length: 0 }
+  }]
+};
+
+describe('escapeXml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`))
+      .toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+  });
+
+  it('drops control characters XML does not allow', () => {
+    expect(escapeXml('a\u0000b\u0008c\u000bd\u001fe')).toBe('abcde');
+  });
+
+  it('keeps tabs, line breaks and characters outside the Basic Multilingual Plane', () => {
+    expect(escapeXml('a\tb\nc\rd 🏔️ é')).toBe('a\tb\nc\rd 🏔️ é');
+  });
+});
+
+describe('buildRssFeed', () => {
+  const xml = buildRssFeed(feed);
+
+  it('escapes text and splits CDATA terminators in content', () => {
+    expect(xml).toContain('<title>Up &amp; Over</title>');
+    expect(xml).toContain('<description>A &lt;long&gt; day</description>');
+    expect(xml).toContain('<content:encoded><![CDATA[<p>Ends with ]]]]><![CDATA[> here</p>]]></content:encoded>');
+  });
+
+  it('includes the enclosure with an escaped URL', () => {
+    expect(xml).toContain('<enclosure url="https://example.com/a.jpg?w=1&amp;h=2" length="0" type="image/jpeg" />');
+  });
+});
+
+describe('buildAtomFeed', () => {
+  const xml = buildAtomFeed(feed);
+
+  it('uses ISO dates and escaped HTML content', () => {
+    expect(xml).toContain('<updated>2024-06-03T09:00:00.000Z</updated>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;Ends with ]]&gt; here&lt;/p&gt;</content>');
+  });
+
+  it('leaves out an unknown enclosure length', () => {
+    expect(xml).toContain('<link rel="enclosure" href="https://example.com/a.jpg?w=1&amp;h=2" type="image/jpeg" />');
+  });
+});
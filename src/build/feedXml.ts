@@ -0,0 +1,129 @@
+/**
+ * RSS 2.0 and Atom 1.0 serializers for the blog's feeds
+ */
+
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+  length: number; // Bytes; 0 when unknown
+}
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  contentHtml: string;
+  category: { term: string; label: string };
+  tags: string[];
+  published: Date;
+  updated: Date;
+  author: string;
+  enclosure?: FeedEnclosure;
+}
+
+export interface FeedData {
+  title: string;
+  description: string;
+  siteUrl: string; // Page the feed describes
+  feedUrl: string; // This feed's own URL
+  language: string;
+  updated: Date;
+  items: FeedItem[];
+}
+
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // XML 1.0 allows no control characters besides tab, newline and carriage return
+    .replace(/[^\t\n\r\u0020-\uffff]/g, '');
+}
+
+/**
+ * Wrap HTML in CDATA, splitting any "]]>" so it can't end the section early
+ */
+function cdata(html: string): string {
+  return `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Build an RSS 2.0 feed
+ */
+export function buildRssFeed(feed: FeedData): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+    `      <category domain="category">${escapeXml(item.category.label)}</category>`,
+    ...item.tags.map(tag => `      <category domain="tag">${escapeXml(tag)}</category>`),
+    `      <description>${escapeXml(item.summary)}</description>`,
+    `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+    ...(item.enclosure
+      ? [`      <enclosure url="${escapeXml(item.enclosure.url)}" length="${item.enclosure.length}" type="${escapeXml(item.enclosure.type)}" />`]
+      : []),
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.siteUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${escapeXml(feed.language)}</language>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Build an Atom 1.0 feed
+ */
+export function buildAtomFeed(feed: FeedData): string {
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${item.updated.toISOString()}</updated>`,
+    `    <author><name>${escapeXml(item.author)}</name></author>`,
+    `    <category term="${escapeXml(item.category.term)}" label="${escapeXml(item.category.label)}" />`,
+    ...item.tags.map(tag => `    <category term="${escapeXml(tag)}" />`),
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+    ...(item.enclosure
+      ? [`    <link rel="enclosure" href="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}"${item.enclosure.length ? ` length="${item.enclosure.length}"` : ''} />`]
+      : []),
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(feed.language)}" xml:base="${escapeXml(feed.siteUrl)}">`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}" />`,
+    `  <id>${escapeXml(feed.feedUrl)}</id>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
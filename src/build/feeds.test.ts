@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { SiteFixtures, createFixtureSource } from './fixtureSource';
+import siteFixtures from './fixtures/site';
+import { generateFeeds } from './feeds';
+import { loadSiteImages } from './images';
+
+const siteUrl = 'https://example.com/';
+const now = new Date('2025-01-01T00:00:00Z');
+
+async function generate(fixtures: SiteFixtures = siteFixtures) {
+  const source = createFixtureSource(fixtures, now);
+  const [posts, categories] = await Promise.all([source.getPublishedPosts(), source.getCategories()]);
+  const images = await loadSiteImages(posts, source);
+  const files = generateFeeds({ posts, categories, images, siteUrl });
+  return new Map(files.map(file => [file.path, file.contents]));
+}
+
+describe('createFixtureSource', () => {
+  it('serves only posts published by now, newest first', async () => {
+    const posts = await createFixtureSource(siteFixtures, now).getPublishedPosts();
+    expect(posts.map(post => post.slug)).toEqual(['mount-whitney', 'lisbon']);
+  });
+
+  it('serves categories in display order', async () => {
+    const categories = await createFixtureSource(siteFixtures, now).getCategories();
+    expect(categories.map(category => category.slug)).toEqual(['hiking', 'travel']);
+  });
+});
+
+describe('generateFeeds', () => {
+  it('writes site-wide and per-category RSS and Atom feeds', async () => {
+    const files = await generate();
+    expect([...files.keys()].sort()).toEqual([
+      'atom.xml',
+      'feeds/hiking/atom.xml',
+      'feeds/hiking/rss.xml',
+      'feeds/travel/atom.xml',
+      'feeds/travel/rss.xml',
+      'rss.xml'
+    ]);
+  });
+
+  it('lists published posts newest first', async () => {
+    const rss = (await generate()).get('rss.xml')!;
+    expect(rss).toContain('<title>Mount Whitney &amp; Back</title>');
+    expect(rss.indexOf('mount-whitney')).toBeLessThan(rss.indexOf('lisbon'));
+    expect(rss).not.toContain('Unfinished Draft');
+    expect(rss).not.toContain('Coming Soon');
+  });
+
+  it('only puts a category\'s posts in its feed', async () => {
+    const travel = (await generate()).get('feeds/travel/rss.xml')!;
+    expect(travel).toContain('Three Days in Lisbon');
+    expect(travel).not.toContain('Mount Whitney');
+  });
+
+  it('describes the hero image with its stored type and size', async () => {
+    const rss = (await generate()).get('rss.xml')!;
+    expect(rss).toContain('<enclosure url="https://images.example.com/summit.jpg" length="245760" type="image/jpeg" />');
+  });
+
+  it('shows an edited hero image as edited', async () => {
+    const images = siteFixtures.images!.map(image => ({ ...image, rotation: 90 as const }));
+    const rss = (await generate({ ...siteFixtures, images })).get('rss.xml')!;
+    expect(rss).toContain('<enclosure url="https://images.example.com/summit-800w.jpg" length="0" type="image/jpeg" />');
+  });
+
+  it('renders content images from their library metadata', async () => {
+    const atom = (await generate()).get('atom.xml')!;
+    expect(atom).toContain('Sunrise from the summit — Photo by Kate Goldenring');
+    expect(atom).toContain('<updated>2024-06-03T09:00:00.000Z</updated>');
+  });
+});
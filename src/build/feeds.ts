@@ -0,0 +1,129 @@
+/**
+ * Build-time generation of the blog's RSS and Atom feeds
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import { BlogPost } from '../types/BlogPost';
+import { Category } from '../types/Category';
+import { getCategoryDescription, getCategoryLabel, getCategoryPath } from '../utils/categoryUtils';
+import { SITE_AUTHOR, SITE_DESCRIPTION, SITE_TITLE } from '../utils/headUtils';
+import { getEditedImageVariant } from '../utils/imageUtils';
+import { getPostPath } from '../utils/postUtils';
+import { FeedData, FeedEnclosure, FeedItem, buildAtomFeed, buildRssFeed } from './feedXml';
+import { renderPostHtml } from './renderPostHtml';
+import { GeneratedFile, SiteImages } from './types';
+
+const FEED_ITEM_LIMIT = 50;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+/**
+ * Guess an image's MIME type from its URL's file extension
+ */
+function guessImageType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  return IMAGE_MIME_TYPES[extension] || 'image/jpeg';
+}
+
+function toEnclosure(url: string, metadata?: ImageMetadata): FeedEnclosure {
+  // An edited image is only shown as edited by its variants, whose size isn't stored
+  const edited = metadata && getEditedImageVariant(metadata);
+  if (edited) {
+    return { url: edited.publicUrl, type: edited.mimeType, length: 0 };
+  }
+
+  return {
+    url,
+    type: metadata?.mimeType || guessImageType(url),
+    length: metadata?.fileSize || 0
+  };
+}
+
+function toFeedItem(
+  post: BlogPost,
+  siteUrl: string,
+  categories: Category[],
+  images: SiteImages
+): FeedItem {
+  const published = new Date(post.publishedAt || post.date);
+
+  return {
+    id: `urn:uuid:${post.id}`,
+    title: post.title,
+    url: new URL(getPostPath(post), siteUrl).href,
+    summary: post.excerpt,
+    contentHtml: renderPostHtml(post, images.byId, images.byUrl),
+    category: { term: post.category, label: getCategoryLabel(categories, post.category) },
+    tags: post.tags.map(tag => tag.name),
+    published,
+    updated: post.updatedAt ? new Date(post.updatedAt) : published,
+    author: SITE_AUTHOR,
+    enclosure: post.imageUrl ? toEnclosure(post.imageUrl, images.byUrl.get(post.imageUrl)) : undefined
+  };
+}
+
+function buildFeedFiles(
+  directory: string,
+  items: FeedItem[],
+  siteUrl: string,
+  options: { title: string; description: string; pageUrl: string }
+): GeneratedFile[] {
+  const updated = items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  );
+
+  const feed = (file: string): FeedData => ({
+    title: options.title,
+    description: options.description,
+    siteUrl: options.pageUrl,
+    feedUrl: new URL(`${directory}${file}`, siteUrl).href,
+    language: 'en',
+    updated: items.length > 0 ? updated : new Date(),
+    items
+  });
+
+  return [
+    { path: `${directory}rss.xml`, contents: buildRssFeed(feed('rss.xml')) },
+    { path: `${directory}atom.xml`, contents: buildAtomFeed(feed('atom.xml')) }
+  ];
+}
+
+/**
+ * Generate the site-wide feeds at /rss.xml and /atom.xml, plus one pair per
+ * category at /feeds/<category>/
+ */
+export function generateFeeds(options: {
+  posts: BlogPost[]; // Published posts, newest first
+  categories: Category[];
+  images: SiteImages;
+  siteUrl: string;
+}): GeneratedFile[] {
+  const { posts, categories, images, siteUrl } = options;
+
+  const items = posts.map(post => toFeedItem(post, siteUrl, categories, images));
+
+  const files = buildFeedFiles('', items.slice(0, FEED_ITEM_LIMIT), siteUrl, {
+    title: SITE_TITLE,
+    description: SITE_DESCRIPTION,
+    pageUrl: siteUrl
+  });
+
+  categories.forEach(category => {
+    const categoryItems = items.filter(item => item.category.term === category.slug);
+    files.push(...buildFeedFiles(`feeds/${category.slug}/`, categoryItems.slice(0, FEED_ITEM_LIMIT), siteUrl, {
+      title: `${SITE_TITLE} — ${category.label}`,
+      description: getCategoryDescription(category),
+      pageUrl: new URL(getCategoryPath(category.slug), siteUrl).href
+    }));
+  });
+
+  return files;
+}
@@ -0,0 +1,40 @@
+/**
+ * A stand-in for Supabase that serves the build's data from fixtures, so the
+ * static files can be generated locally and in tests without a database
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import type { BlogPost } from '../types/BlogPost';
+import type { Category } from '../types/Category';
+import { StaticSiteSource } from './types';
+
+export interface SiteFixtures {
+  posts: BlogPost[];
+  categories: Category[];
+  images?: ImageMetadata[];
+}
+
+/**
+ * Serve fixtures the way the Supabase queries would: only posts that are
+ * published by `now`, newest first, and categories in display order
+ */
+export function createFixtureSource(fixtures: SiteFixtures, now = new Date()): StaticSiteSource {
+  const images = fixtures.images || [];
+  const publishedTime = (post: BlogPost) => new Date(post.publishedAt || post.date).getTime();
+
+  return {
+    getPublishedPosts: async () => fixtures.posts
+      .filter(post =>
+        (post.status === 'published' || post.status === 'scheduled') &&
+        publishedTime(post) <= now.getTime()
+      )
+      .sort((a, b) => publishedTime(b) - publishedTime(a)),
+    getCategories: async () => [...fixtures.categories].sort((a, b) => a.sortOrder - b.sortOrder),
+    getImageMetadataByIds: async ids => new Map(
+      images.filter(image => ids.includes(image.id)).map(image => [image.id, image])
+    ),
+    getImageMetadataByUrls: async urls => new Map(
+      images.filter(image => urls.includes(image.publicUrl)).map(image => [image.publicUrl, image])
+    )
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * A small blog for building the static files without Supabase:
+ * `STATIC_FIXTURES=src/build/fixtures/site.ts npm run build`
+ */
+
+import { SiteFixtures } from '../fixtureSource';
+
+const siteFixtures: SiteFixtures = {
+  categories: [
+    { id: 'c2', slug: 'travel', label: 'Travel', color: '#2563eb', sortOrder: 2 },
+    { id: 'c1', slug: 'hiking', label: 'Hiking', color: '#16a34a', sortOrder: 1 }
+  ],
+  images: [
+    {
+      id: '0b6c8a52-3f1e-4c7a-9d2b-5e4f6a7b8c9d',
+      filename: 'summit.jpg',
+      originalName: 'IMG_0042.jpg',
+      publicUrl: 'https://images.example.com/summit.jpg',
+      fileSize: 245760,
+      mimeType: 'image/jpeg',
+      width: 2400,
+      height: 1600,
+      altText: 'The summit at sunrise',
+      caption: 'Sunrise from the summit',
+      photographer: 'Kate Goldenring',
+      copyright: '',
+      variants: [
+        {
+          width: 800,
+          height: 533,
+          mimeType: 'image/jpeg',
+          storagePath: 'summit-800w.jpg',
+          publicUrl: 'https://images.example.com/summit-800w.jpg'
+        },
+        {
+          width: 800,
+          height: 533,
+          mimeType: 'image/webp',
+          storagePath: 'summit-800w.webp',
+          publicUrl: 'https://images.example.com/summit-800w.webp'
+        }
+      ],
+      exif: {},
+      rotation: 0,
+      createdAt: '2024-06-01T08:00:00Z'
+    }
+  ],
+  posts: [
+    {
+      id: '11111111-1111-4111-8111-111111111111',
+      slug: 'mount-whitney',
+      title: 'Mount Whitney & Back',
+      category: 'hiking',
+      imageUrl: 'https://images.example.com/summit.jpg',
+      images: [],
+      excerpt: 'Twenty-two miles <in> a day.',
+      content: 'An early start.\n\n{{image id="0b6c8a52-3f1e-4c7a-9d2b-5e4f6a7b8c9d"}}\n\nThen the long walk down.',
+      date: '2024-06-02',
+      readTime: '4 min read',
+      status: 'published',
+      publishedAt: '2024-06-02T18:00:00Z',
+      updatedAt: '2024-06-03T09:00:00Z',
+      tags: [{ id: 't1', slug: 'sierra', name: 'Sierra' }]
+    },
+    {
+      id: '22222222-2222-4222-8222-222222222222',
+      slug: 'lisbon',
+      title: 'Three Days in Lisbon',
+      category: 'travel',
+      imageUrl: '',
+      images: [],
+      excerpt: 'Trams and tiles.',
+      content: 'Hills everywhere.',
+      date: '2024-05-10',
+      readTime: '3 min read',
+      status: 'published',
+      publishedAt: '2024-05-10T12:00:00Z',
+      tags: []
+    },
+    {
+      id: '33333333-3333-4333-8333-333333333333',
+      slug: 'unfinished',
+      title: 'Unfinished Draft',
+      category: 'travel',
+      imageUrl: '',
+      images: [],
+      excerpt: '',
+      content: 'Not yet.',
+      date: '2024-07-01',
+      readTime: '1 min read',
+      status: 'draft',
+      tags: []
+    },
+    {
+      id: '44444444-4444-4444-8444-444444444444',
+      slug: 'coming-soon',
+      title: 'Coming Soon',
+      category: 'hiking',
+      imageUrl: '',
+      images: [],
+      excerpt: '',
+      content: 'Scheduled for later.',
+      date: '2999-01-01',
+      readTime: '1 min read',
+      status: 'scheduled',
+      publishedAt: '2999-01-01T00:00:00Z',
+      tags: []
+    }
+  ]
+};
+
+export default siteFixtures;
@@ -0,0 +1,55 @@
+/**
+ * Build-time lookup of the library images the published posts show, shared
+ * by the feeds, sitemap and prerendered pages
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import { BlogPost } from '../types/BlogPost';
+import { getContentImageRefs, getMarkdownImageUrls, parseContentBlocks } from '../utils/contentUtils';
+import { SiteImages, StaticSiteSource } from './types';
+
+/**
+ * Look up every image the posts reference in one round trip per kind
+ */
+export async function loadSiteImages(posts: BlogPost[], source: StaticSiteSource): Promise<SiteImages> {
+  const imageIds = new Set<string>();
+  const imageUrls = new Set<string>();
+  posts.forEach(post => {
+    [post.imageUrl, ...post.images].forEach(url => {
+      if (url) imageUrls.add(url);
+    });
+    const blocks = parseContentBlocks(post.content);
+    getContentImageRefs(blocks).forEach(ref => {
+      if (ref.id) imageIds.add(ref.id);
+      if (ref.src) imageUrls.add(ref.src);
+    });
+    getMarkdownImageUrls(blocks).forEach(url => imageUrls.add(url));
+  });
+
+  const [byId, byUrl] = await Promise.all([
+    imageIds.size > 0 ? source.getImageMetadataByIds([...imageIds]) : new Map<string, ImageMetadata>(),
+    imageUrls.size > 0 ? source.getImageMetadataByUrls([...imageUrls]) : new Map<string, ImageMetadata>()
+  ]);
+
+  return { byId, byUrl };
+}
+
+/**
+ * Get the library images a post's page shows: its hero, gallery, shortcode
+ * and Markdown images, each once
+ */
+export function getPostImages(post: BlogPost, images: SiteImages): ImageMetadata[] {
+  const found = new Map<string, ImageMetadata>();
+  const add = (metadata: ImageMetadata | undefined) => {
+    if (metadata) found.set(metadata.id, metadata);
+  };
+
+  const blocks = parseContentBlocks(post.content);
+  [post.imageUrl, ...post.images, ...getMarkdownImageUrls(blocks)].forEach(url => add(images.byUrl.get(url)));
+  getContentImageRefs(blocks).forEach(ref => {
+    if (ref.id) add(images.byId.get(ref.id));
+    if (ref.src) add(images.byUrl.get(ref.src));
+  });
+
+  return [...found.values()];
+}
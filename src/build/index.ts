@@ -0,0 +1,36 @@
+/**
+ * Build-time generation of the static files that go alongside the app in
+ * dist/. Run by scripts/build-static.js after `vite build`.
+ */
+
+import { generateFeeds } from './feeds';
+import { loadSiteImages } from './images';
+import { prerenderCategoryPages, prerenderPosts } from './prerender';
+import { generateSitemap } from './sitemap';
+import { GeneratedFile, StaticSiteSource } from './types';
+
+/**
+ * Generate the feeds, sitemap and prerendered pages from the published posts
+ */
+export async function generateStaticFiles(options: {
+  siteUrl: string;
+  template: string; // The built index.html
+  source: StaticSiteSource;
+}): Promise<GeneratedFile[]> {
+  const { source } = options;
+  const siteUrl = options.siteUrl.endsWith('/') ? options.siteUrl : `${options.siteUrl}/`;
+
+  const [posts, categories] = await Promise.all([
+    source.getPublishedPosts(),
+    source.getCategories()
+  ]);
+
+  const images = await loadSiteImages(posts, source);
+
+  const feeds = generateFeeds({ posts, categories, images, siteUrl });
+  const sitemap = generateSitemap({ posts, categories, images, siteUrl });
+  const postPages = prerenderPosts({ posts, categories, images, template: options.template, siteUrl });
+  const categoryPages = prerenderCategoryPages({ categories, template: options.template, siteUrl });
+
+  return [...feeds, ...sitemap, ...postPages, ...categoryPages];
+}
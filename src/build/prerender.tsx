@@ -0,0 +1,135 @@
+/**
+ * Build-time prerendering of post and category pages, so crawlers and link
+ * previews see the page's content and metadata instead of an empty app shell
+ */
+
+import { StrictMode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import { AppRoutes } from '../App';
+import { primeCategories } from '../hooks/useCategories';
+import { postCache } from '../services/postCache';
+import { imageMetadataCache } from '../services/imageMetadataCache';
+import type { ImageMetadata } from '../services/imageService';
+import { BlogPost } from '../types/BlogPost';
+import { Category } from '../types/Category';
+import { getCategoryDescription, getCategoryPath } from '../utils/categoryUtils';
+import { getPostPath } from '../utils/postUtils';
+import {
+  DocumentHead,
+  HEAD_TAG_ATTRIBUTE,
+  HeadTag,
+  formatDocumentTitle,
+  getHeadTags,
+  getPostHead
+} from '../utils/headUtils';
+import { PRELOADED_STATE_ID, serializePreloadedState } from '../utils/preloadUtils';
+import { escapeXml } from './feedXml';
+import { getPostImages } from './images';
+import { GeneratedFile, SiteImages } from './types';
+
+/**
+ * Serialize a head tag, marked so the app replaces it when the page changes
+ */
+function renderHeadTag(tag: HeadTag): string {
+  const attributes = Object.entries(tag.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+
+  if (tag.name === 'script') {
+    // Keep "</script>" in post text from ending the element early
+    return `<script${attributes} ${HEAD_TAG_ATTRIBUTE}>${tag.content.replace(/</g, '\\u003c')}</script>`;
+  }
+  return `<${tag.name}${attributes} ${HEAD_TAG_ATTRIBUTE} />`;
+}
+
+/**
+ * Swap the template's site-wide title and description for a page's own tags
+ */
+function replaceHead(template: string, head: DocumentHead, siteUrl: string): string {
+  const tags = [
+    `<title>${escapeXml(formatDocumentTitle(head.title))}</title>`,
+    ...getHeadTags(head, siteUrl).map(renderHeadTag)
+  ];
+
+  return template
+    .replace(/\s*<title>[\s\S]*?<\/title>/, '')
+    .replace(/\s*<meta name="description"[^>]*>/, '')
+    .replace('\n  </head>', `\n${tags.map(tag => `    ${tag}`).join('\n')}\n  </head>`);
+}
+
+/**
+ * Render a post's page into the built index.html
+ */
+function renderPostPage(
+  post: BlogPost,
+  categories: Category[],
+  images: ImageMetadata[],
+  template: string,
+  siteUrl: string
+): string {
+  // The app reads posts, categories and images from its caches, so a cached
+  // post renders straight away rather than as a loading spinner, and its
+  // images with their variants rather than as the originals
+  postCache.set(post);
+  primeCategories(categories);
+  imageMetadataCache.set(images);
+
+  const appHtml = renderToString(
+    <StrictMode>
+      <StaticRouter location={getPostPath(post)}>
+        <AppRoutes />
+      </StaticRouter>
+    </StrictMode>
+  );
+
+  const state = serializePreloadedState({ post, categories, images });
+
+  const heroImage = images.find(image => image.publicUrl === post.imageUrl);
+
+  return replaceHead(template, getPostHead(post, heroImage), siteUrl)
+    .replace(
+      '<div id="root"></div>',
+      `<div id="root">${appHtml}</div>\n    <script type="application/json" id="${PRELOADED_STATE_ID}">${state}</script>`
+    );
+}
+
+/**
+ * Prerender a page for every post. Each is written as post/<slug>.html,
+ * which GitHub Pages serves for /post/<slug>.
+ */
+export function prerenderPosts(options: {
+  posts: BlogPost[];
+  categories: Category[];
+  images: SiteImages;
+  template: string; // The built index.html
+  siteUrl: string;
+}): GeneratedFile[] {
+  const { posts, categories, images, template, siteUrl } = options;
+
+  return posts.map(post => ({
+    path: `post/${post.slug}.html`,
+    contents: renderPostPage(post, categories, getPostImages(post, images), template, siteUrl)
+  }));
+}
+
+/**
+ * Write a page for every category so each has its own title and a real file
+ * to serve. The gallery loads the category's posts once the app starts.
+ */
+export function prerenderCategoryPages(options: {
+  categories: Category[];
+  template: string; // The built index.html
+  siteUrl: string;
+}): GeneratedFile[] {
+  const { categories, template, siteUrl } = options;
+
+  return categories.map(category => ({
+    path: `${getCategoryPath(category.slug).slice(1)}.html`,
+    contents: replaceHead(template, {
+      title: category.label,
+      description: getCategoryDescription(category),
+      path: getCategoryPath(category.slug)
+    }, siteUrl)
+  }));
+}
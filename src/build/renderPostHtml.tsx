@@ -0,0 +1,70 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+import { BlogPost } from '../types/BlogPost';
+import { ImageMetadata } from '../services/imageService';
+import {
+  ContentImageRef,
+  ResolvedContentImage,
+  parseContentBlocks,
+  resolveContentImage
+} from '../utils/contentUtils';
+import { getImageDisplayUrl } from '../utils/imageUtils';
+import {
+  MARKDOWN_REHYPE_PLUGINS,
+  MARKDOWN_REMARK_PLUGINS,
+  getMarkdownImageSrc
+} from '../utils/markdownUtils';
+
+function renderFigure(image: ResolvedContentImage, key?: string) {
+  return (
+    <figure key={key}>
+      <img src={getImageDisplayUrl(image.url, image.metadata)} alt={image.alt} />
+      <figcaption>
+        {image.caption ? `${image.caption} — ` : ''}Photo by {image.photographer}
+      </figcaption>
+    </figure>
+  );
+}
+
+/**
+ * Render a post's body to static HTML for feed readers. They ignore the
+ * site's stylesheet, so this is plain, unstyled HTML with the hero image first.
+ */
+export function renderPostHtml(
+  post: BlogPost,
+  imageIdMap: Map<string, ImageMetadata>,
+  metadataMap: Map<string, ImageMetadata>
+): string {
+  const resolveImage = (ref: ContentImageRef) =>
+    resolveContentImage(ref, imageIdMap, metadataMap, post.imageMetadata);
+
+  const hero = post.imageUrl ? resolveImage({ src: post.imageUrl, alt: post.title }) : null;
+
+  return renderToStaticMarkup(
+    <>
+      {hero && renderFigure(hero)}
+      {parseContentBlocks(post.content).map((block, index) => {
+        if (block.type === 'markdown') {
+          return (
+            <Markdown
+              key={index}
+              remarkPlugins={MARKDOWN_REMARK_PLUGINS}
+              rehypePlugins={MARKDOWN_REHYPE_PLUGINS}
+              components={{
+                img: ({ src, alt }) => <img src={getMarkdownImageSrc(src, metadataMap)} alt={alt || ''} />
+              }}
+            >
+              {block.text}
+            </Markdown>
+          );
+        }
+
+        const images = (block.type === 'image' ? [block.image] : block.images)
+          .map(resolveImage)
+          .filter((image): image is ResolvedContentImage => image !== null);
+
+        return images.map((image, imageIndex) => renderFigure(image, `${index}-${imageIndex}`));
+      })}
+    </>
+  );
+}
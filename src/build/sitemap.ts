@@ -0,0 +1,99 @@
+/**
+ * Build-time generation of sitemap.xml and robots.txt
+ */
+
+import { BlogPost } from '../types/BlogPost';
+import { Category } from '../types/Category';
+import { getCategoryPath } from '../utils/categoryUtils';
+import { getImageDisplayUrl } from '../utils/imageUtils';
+import { getPostPath } from '../utils/postUtils';
+import { escapeXml } from './feedXml';
+import { GeneratedFile, SiteImages } from './types';
+
+interface SitemapEntry {
+  path: string;
+  lastModified?: Date;
+  images: string[];
+}
+
+// Pages that only make sense to a signed-in admin
+const DISALLOWED_PATHS = ['/admin', '/login'];
+
+function getLastModified(post: BlogPost): Date {
+  return new Date(post.updatedAt || post.publishedAt || post.date);
+}
+
+/**
+ * Find the most recently modified post, for the pages that list them
+ */
+function getLatestModified(posts: BlogPost[]): Date | undefined {
+  return posts.reduce<Date | undefined>((latest, post) => {
+    const modified = getLastModified(post);
+    return !latest || modified > latest ? modified : latest;
+  }, undefined);
+}
+
+function renderEntry(entry: SitemapEntry, siteUrl: string): string {
+  return [
+    '  <url>',
+    `    <loc>${escapeXml(new URL(entry.path, siteUrl).href)}</loc>`,
+    ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`] : []),
+    ...entry.images.map(image =>
+      `    <image:image><image:loc>${escapeXml(new URL(image, siteUrl).href)}</image:loc></image:image>`
+    ),
+    '  </url>'
+  ].join('\n');
+}
+
+/**
+ * Generate sitemap.xml listing the gallery, every category page and every
+ * published post with its images, and a robots.txt pointing at it
+ */
+export function generateSitemap(options: {
+  posts: BlogPost[]; // Published posts
+  categories: Category[];
+  images: SiteImages;
+  siteUrl: string;
+}): GeneratedFile[] {
+  const { posts, categories, images, siteUrl } = options;
+
+  const entries: SitemapEntry[] = [
+    { path: '/', lastModified: getLatestModified(posts), images: [] },
+    ...categories.map(category => ({
+      path: getCategoryPath(category.slug),
+      lastModified: getLatestModified(posts.filter(post => post.category === category.slug)),
+      images: []
+    })),
+    ...posts.map(post => ({
+      path: getPostPath(post),
+      lastModified: getLastModified(post),
+      // The hero image is shown in the post's gallery as well
+      images: Array.from(new Set(
+        [post.imageUrl, ...post.images]
+          .filter(Boolean)
+          .map(url => getImageDisplayUrl(url, images.byUrl.get(url)))
+      ))
+    }))
+  ];
+
+  const sitemap = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...entries.map(entry => renderEntry(entry, siteUrl)),
+    '</urlset>',
+    ''
+  ].join('\n');
+
+  const robots = [
+    'User-agent: *',
+    ...DISALLOWED_PATHS.map(path => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${new URL('sitemap.xml', siteUrl).href}`,
+    ''
+  ].join('\n');
+
+  return [
+    { path: 'sitemap.xml', contents: sitemap },
+    { path: 'robots.txt', contents: robots }
+  ];
+}
@@ -0,0 +1,15 @@
+/**
+ * Reads the build's data from Supabase through the app's own services
+ */
+
+import { blogService } from '../services/blogService';
+import { categoryService } from '../services/categoryService';
+import { imageService } from '../services/imageService';
+import { StaticSiteSource } from './types';
+
+export const supabaseSource: StaticSiteSource = {
+  getPublishedPosts: () => blogService.getPublishedPosts(),
+  getCategories: () => categoryService.getCategories(),
+  getImageMetadataByIds: ids => imageService.getImageMetadataByIds(ids),
+  getImageMetadataByUrls: urls => imageService.getImageMetadataByUrls(urls)
+};
@@ -0,0 +1,29 @@
+/**
+ * Types shared by the build-time feed, sitemap and page generators
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import type { BlogPost } from '../types/BlogPost';
+import type { Category } from '../types/Category';
+
+// The library images the published posts show, looked up once per build
+export interface SiteImages {
+  byId: Map<string, ImageMetadata>;
+  byUrl: Map<string, ImageMetadata>; // Keyed by public URL
+}
+
+export interface GeneratedFile {
+  path: string; // Relative to dist/
+  contents: string;
+}
+
+/**
+ * Where the generators read the blog's data from: Supabase for a real build,
+ * or fixtures for a local build and tests
+ */
+export interface StaticSiteSource {
+  getPublishedPosts(): Promise<BlogPost[]>; // Newest first
+  getCategories(): Promise<Category[]>;
+  getImageMetadataByIds(ids: string[]): Promise<Map<string, ImageMetadata>>;
+  getImageMetadataByUrls(urls: string[]): Promise<Map<string, ImageMetadata>>; // Keyed by public URL
+}
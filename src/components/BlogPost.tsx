@@ -1,21 +1,37 @@
 import React, { useState } from 'react';
 import { useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Calendar, Clock, ChevronLeft, ChevronRight, X, Camera } from 'lucide-react';
-import { useBlogPosts } from '../hooks/useBlogPosts';
+import { useParams, useNavigate, useLocation, Navigate } from 'react-router-dom';
+import { ArrowLeft, Calendar, Clock, ChevronLeft, ChevronRight, X, Camera, EyeOff, Info } from 'lucide-react';
+import { usePost } from '../hooks/usePost';
 import { useImageMetadata, useImageMetadataMap } from '../hooks/useImageMetadata';
+import { usePostContent } from '../hooks/usePostContent';
+import { useDocumentHead } from '../hooks/useDocumentHead';
 import { isFlickrImageUrl } from '../utils/flickrUtils';
+import { POST_STATUS_LABELS, isPostLive, getPostPath, formatPostDate, formatPostDateTime } from '../utils/postUtils';
+import { getPostHead } from '../utils/headUtils';
+import { IMAGE_SIZES } from '../utils/imageUtils';
+import { hasCameraDetails } from '../utils/exifUtils';
+import PostContent from './PostContent';
+import CategoryBadge from './CategoryBadge';
+import TagChips from './TagChips';
+import ResponsiveImage from './ResponsiveImage';
+import PhotoDetails from './PhotoDetails';
 
 export default function BlogPost() {
-  const { id } = useParams<{ id: string }>();
+  const { slug = '' } = useParams<{ slug: string }>();
   const navigate = useNavigate();
-  const { getBlogPost, loading } = useBlogPosts();
+  const location = useLocation();
+  // Accepts the slug, a previous slug or an old id link; unpublished posts only load for signed-in admins
+  const { post, loading } = usePost(slug);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
-  
-  const post = getBlogPost(id || '');
+  // Stays open while paging through the lightbox
+  const [showPhotoDetails, setShowPhotoDetails] = useState(false);
 
   // Get metadata for the main image
-  const { metadata: mainImageMetadata } = useImageMetadata(post?.imageUrl || null);
+  const { metadata: mainImageMetadata, loading: mainImageLoading } = useImageMetadata(post?.imageUrl || null);
+
+  // Previews of unpublished posts are kept out of search engines
+  useDocumentHead(post ? { ...getPostHead(post, mainImageMetadata), noIndex: !isPostLive(post) } : {});
   
   // Create a stable images array that includes the main image
   const images = useMemo(() => {
@@ -32,17 +48,35 @@ export default function BlogPost() {
     return allImages;
   }, [post?.imageUrl, post?.images]);
 
-  // Get metadata for all gallery images
-  const { metadataMap: galleryMetadataMap } = useImageMetadataMap(images);
+  // Parse inline image and gallery shortcodes out of the content
+  const {
+    blocks: contentBlocks,
+    imageIdMap: contentImageIdMap,
+    contentImageUrls,
+    markdownImageUrls
+  } = usePostContent(post?.content || '');
+
+  // Lightbox cycles through the gallery images followed by any inline content images
+  const lightboxImages = useMemo(() => {
+    return Array.from(new Set([...images, ...contentImageUrls]));
+  }, [images, contentImageUrls]);
+
+  // Get metadata for all gallery and inline images
+  const metadataUrls = useMemo(
+    () => Array.from(new Set([...lightboxImages, ...markdownImageUrls])),
+    [lightboxImages, markdownImageUrls]
+  );
+  const { metadataMap: galleryMetadataMap, loading: galleryLoading } = useImageMetadataMap(metadataUrls);
   
-  // Add main image metadata to the map if available
+  // Add main image and id-referenced image metadata to the map if available
   const finalMetadataMap = useMemo(() => {
     const map = new Map(galleryMetadataMap);
+    contentImageIdMap.forEach(metadata => map.set(metadata.publicUrl, metadata));
     if (post?.imageUrl && mainImageMetadata) {
       map.set(post.imageUrl, mainImageMetadata);
     }
     return map;
-  }, [galleryMetadataMap, post?.imageUrl, mainImageMetadata]);
+  }, [galleryMetadataMap, contentImageIdMap, post?.imageUrl, mainImageMetadata]);
 
   // Show loading state while posts are being fetched
   if (loading) {
@@ -74,33 +108,38 @@ export default function BlogPost() {
     );
   }
 
-  const renderContent = (content: string) => {
-    const lines = content.split('\n');
-    return lines.map((line, index) => {
-      if (line.startsWith('# ')) {
-        return <h1 key={index} className="text-4xl font-bold text-gray-900 mb-6 mt-8">{line.slice(2)}</h1>;
-      } else if (line.startsWith('## ')) {
-        return <h2 key={index} className="text-2xl font-semibold text-gray-800 mb-4 mt-8">{line.slice(3)}</h2>;
-      } else if (line.trim() === '') {
-        return <div key={index} className="mb-4"></div>;
-      } else {
-        return <p key={index} className="text-lg text-gray-700 leading-relaxed mb-4">{line}</p>;
-      }
-    });
-  };
+  // Send id links and stale slugs to the post's current URL
+  if (post.slug !== slug) {
+    return <Navigate to={getPostPath(post)} replace />;
+  }
 
   const openLightbox = (index: number) => {
     setSelectedImageIndex(index);
   };
 
+  const openLightboxAt = (imageUrl: string) => {
+    const index = lightboxImages.indexOf(imageUrl);
+    if (index !== -1) openLightbox(index);
+  };
+
   const closeLightbox = () => {
     setSelectedImageIndex(null);
   };
 
+  // Go back in history when the reader came from within the site, so the
+  // gallery or search results reopen where they left off
+  const handleBack = () => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
   const navigateImage = (direction: 'prev' | 'next') => {
-    if (selectedImageIndex === null || !images) return;
+    if (selectedImageIndex === null || !lightboxImages) return;
     
-    const totalImages = images.length;
+    const totalImages = lightboxImages.length;
     if (direction === 'prev') {
       setSelectedImageIndex(selectedImageIndex === 0 ? totalImages - 1 : selectedImageIndex - 1);
     } else {
@@ -132,7 +171,7 @@ export default function BlogPost() {
       <nav className="bg-white shadow-sm border-b border-gray-100">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <button
-            onClick={() => navigate('/')}
+            onClick={handleBack}
             className="flex items-center text-gray-600 hover:text-gray-900 transition-colors duration-200"
           >
             <ArrowLeft className="w-5 h-5 mr-2" />
@@ -141,10 +180,35 @@ export default function BlogPost() {
         </div>
       </nav>
 
+      {/* Unpublished Notice */}
+      {!isPostLive(post) && (
+        <div className="bg-amber-50 border-b border-amber-200">
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between text-sm text-amber-800">
+            <div className="flex items-center">
+              <EyeOff className="w-4 h-4 mr-2" />
+              <span>
+                {POST_STATUS_LABELS[post.status]}
+                {post.status === 'scheduled' && post.publishedAt && ` for ${formatPostDateTime(post.publishedAt)}`}
+                {' '}— this post isn't visible to readers.
+              </span>
+            </div>
+            <button
+              onClick={() => navigate(`/admin/edit/${post.id}`)}
+              className="font-medium hover:text-amber-900"
+            >
+              Edit post
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Hero Section */}
       <div className="relative h-96 overflow-hidden">
-        <img
+        <ResponsiveImage
           src={post.imageUrl}
+          metadata={mainImageMetadata}
+          pending={mainImageLoading}
+          sizes={IMAGE_SIZES.hero}
           alt={mainImageMetadata?.altText || post.title}
           className="w-full h-full object-cover"
         />
@@ -164,9 +228,7 @@ export default function BlogPost() {
         {/* Article Header */}
         <header className="mb-12">
           <div className="flex items-center mb-4">
-            <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 text-sm font-semibold rounded-full uppercase tracking-wide">
-              {post.category}
-            </span>
+            <CategoryBadge slug={post.category} className="px-3 py-1 text-sm" />
           </div>
           
           <h1 className="text-5xl font-bold text-gray-900 mb-6 leading-tight">
@@ -179,20 +241,24 @@ export default function BlogPost() {
           
           <div className="flex items-center text-gray-500 text-sm">
             <Calendar className="w-4 h-4 mr-2" />
-            <span className="mr-6">{new Date(post.date).toLocaleDateString('en-US', { 
-              year: 'numeric', 
-              month: 'long', 
-              day: 'numeric' 
-            })}</span>
+            <span className="mr-6">{formatPostDate(post.date)}</span>
             <Clock className="w-4 h-4 mr-2" />
             <span>{post.readTime}</span>
           </div>
+
+          <TagChips tags={post.tags} className="mt-6" />
         </header>
 
         {/* Article Body */}
-        <div className="prose prose-lg max-w-none mb-12">
-          {renderContent(post.content)}
-        </div>
+        <PostContent
+          blocks={contentBlocks}
+          imageIdMap={contentImageIdMap}
+          metadataMap={finalMetadataMap}
+          imageMetadata={post.imageMetadata}
+          metadataLoading={galleryLoading}
+          onImageClick={openLightboxAt}
+          className="max-w-none mb-12"
+        />
 
         {/* Photo Gallery */}
         {images && images.length > 0 && (
@@ -217,8 +283,11 @@ export default function BlogPost() {
                     className="group cursor-pointer overflow-hidden rounded-lg shadow-md hover:shadow-xl transition-all duration-300 relative"
                     onClick={() => openLightbox(index)}
                   >
-                    <img
+                    <ResponsiveImage
                       src={image}
+                      metadata={imageMetadata}
+                      pending={galleryLoading}
+                      sizes={IMAGE_SIZES.postGallery}
                       alt={imageMetadata?.altText || `Gallery image ${index + 1}`}
                       className="w-full h-64 object-cover group-hover:scale-105 transition-transform duration-300"
                     />
@@ -252,7 +321,7 @@ export default function BlogPost() {
       </article>
 
       {/* Lightbox Modal */}
-      {selectedImageIndex !== null && images && (
+      {selectedImageIndex !== null && lightboxImages && (
         <div
           className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50"
           onClick={closeLightbox}
@@ -260,9 +329,12 @@ export default function BlogPost() {
           tabIndex={0}
         >
           <div className="relative max-w-7xl max-h-full p-4">
-            <img
-              src={images[selectedImageIndex]}
-              alt={finalMetadataMap.get(images[selectedImageIndex])?.altText || `Gallery image ${selectedImageIndex + 1}`}
+            <ResponsiveImage
+              src={lightboxImages[selectedImageIndex]}
+              metadata={finalMetadataMap.get(lightboxImages[selectedImageIndex])}
+              pending={galleryLoading}
+              sizes={IMAGE_SIZES.lightbox}
+              alt={finalMetadataMap.get(lightboxImages[selectedImageIndex])?.altText || `Gallery image ${selectedImageIndex + 1}`}
               className="max-w-full max-h-full object-contain"
               onClick={(e) => e.stopPropagation()}
             />
@@ -274,9 +346,41 @@ export default function BlogPost() {
             >
               <X className="w-8 h-8" />
             </button>
+
+            {/* Photo Details */}
+            {(() => {
+              const exif = finalMetadataMap.get(lightboxImages[selectedImageIndex])?.exif;
+              if (!exif || !hasCameraDetails(exif)) return null;
+
+              return (
+                <>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowPhotoDetails(!showPhotoDetails);
+                    }}
+                    className={`absolute top-4 right-16 transition-colors duration-200 ${
+                      showPhotoDetails ? 'text-blue-300' : 'text-white hover:text-gray-300'
+                    }`}
+                    aria-label="Photo details"
+                    aria-pressed={showPhotoDetails}
+                  >
+                    <Info className="w-8 h-8" />
+                  </button>
+                  {showPhotoDetails && (
+                    <div
+                      className="absolute top-16 right-4 bg-black/70 backdrop-blur-sm rounded-lg px-4 py-3 text-white max-w-xs"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <PhotoDetails exif={exif} />
+                    </div>
+                  )}
+                </>
+              );
+            })()}
             
             {/* Navigation Arrows */}
-            {images.length > 1 && (
+            {lightboxImages.length > 1 && (
               <>
                 <button
                   onClick={(e) => {
@@ -302,14 +406,14 @@ export default function BlogPost() {
             {/* Image Counter and Attribution */}
             <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-center">
               <div className="text-white text-sm mb-2">
-                {selectedImageIndex + 1} of {images.length}
+                {selectedImageIndex + 1} of {lightboxImages.length}
               </div>
               <div className="bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2">
                 <div className="flex items-center text-white text-sm">
                   <Camera className="w-4 h-4 mr-2" />
                   <span>
                     {(() => {
-                      const currentImage = images[selectedImageIndex];
+                      const currentImage = lightboxImages[selectedImageIndex];
                       const isFlickr = isFlickrImageUrl(currentImage);
                       
                       if (isFlickr) {
@@ -0,0 +1,21 @@
+import { useCategories } from '../hooks/useCategories';
+import { DEFAULT_CATEGORY_COLOR, findCategory, getCategoryLabel, getContrastTextColor } from '../utils/categoryUtils';
+
+interface CategoryBadgeProps {
+  slug: string;
+  className?: string; // Size and spacing; colors come from the category
+}
+
+export default function CategoryBadge({ slug, className = 'px-3 py-1 text-xs' }: CategoryBadgeProps) {
+  const { categories } = useCategories();
+  const color = findCategory(categories, slug)?.color || DEFAULT_CATEGORY_COLOR;
+
+  return (
+    <span
+      className={`inline-block font-semibold rounded-full uppercase tracking-wide ${className}`}
+      style={{ backgroundColor: color, color: getContrastTextColor(color) }}
+    >
+      {getCategoryLabel(categories, slug)}
+    </span>
+  );
+}
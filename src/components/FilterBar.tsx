@@ -1,34 +1,81 @@
-import { Category } from '../types/BlogPost';
+import { CategoryFilter } from '../types/Category';
+import { useCategories } from '../hooks/useCategories';
+import { useTags } from '../hooks/useTags';
 
 interface FilterBarProps {
-  activeCategory: Category;
-  onCategoryChange: (category: Category) => void;
+  activeCategory: CategoryFilter;
+  onCategoryChange: (category: CategoryFilter) => void;
+  selectedTags: string[]; // Tag slugs; posts must have all of them
+  onTagsChange: (tags: string[]) => void;
 }
 
-const categories: { key: Category; label: string }[] = [
-  { key: 'all', label: 'All' },
-  { key: 'hiking', label: 'Hiking' },
-  { key: 'travel', label: 'Travel' },
-  { key: 'food', label: 'Food' },
-  { key: 'mountaineering', label: 'Mountaineering' }
-];
+// Keep the tag row to the most used tags so it doesn't swamp the gallery
+const MAX_VISIBLE_TAGS = 20;
+
+export default function FilterBar({ activeCategory, onCategoryChange, selectedTags, onTagsChange }: FilterBarProps) {
+  const { categories } = useCategories();
+  const { tags } = useTags();
+
+  const visibleTags = tags.filter((tag, index) =>
+    selectedTags.includes(tag.slug) || (tag.postCount > 0 && index < MAX_VISIBLE_TAGS)
+  );
+
+  const toggleTag = (slug: string) => {
+    onTagsChange(selectedTags.includes(slug)
+      ? selectedTags.filter(selected => selected !== slug)
+      : [...selectedTags, slug]);
+  };
+
+  const filters: { key: CategoryFilter; label: string }[] = [
+    { key: 'all', label: 'All' },
+    ...categories.map(category => ({ key: category.slug, label: category.label }))
+  ];
 
-export default function FilterBar({ activeCategory, onCategoryChange }: FilterBarProps) {
   return (
-    <div className="flex flex-wrap justify-center gap-3 mb-12">
-      {categories.map(({ key, label }) => (
-        <button
-          key={key}
-          onClick={() => onCategoryChange(key)}
-          className={`px-6 py-3 rounded-full font-medium transition-all duration-300 transform hover:scale-105 ${
-            activeCategory === key
-              ? 'bg-blue-600 text-white shadow-lg'
-              : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
-          }`}
-        >
-          {label}
-        </button>
-      ))}
+    <div className="mb-12">
+      <div className="flex flex-wrap justify-center gap-3">
+        {filters.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onCategoryChange(key)}
+            className={`px-6 py-3 rounded-full font-medium transition-all duration-300 transform hover:scale-105 ${
+              activeCategory === key
+                ? 'bg-blue-600 text-white shadow-lg'
+                : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Tag Filter */}
+      {visibleTags.length > 0 && (
+        <div className="flex flex-wrap justify-center items-center gap-2 mt-6">
+          {visibleTags.map(tag => (
+            <button
+              key={tag.id}
+              onClick={() => toggleTag(tag.slug)}
+              aria-pressed={selectedTags.includes(tag.slug)}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors duration-200 ${
+                selectedTags.includes(tag.slug)
+                  ? 'bg-blue-50 border-blue-300 text-blue-700'
+                  : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              #{tag.name}
+            </button>
+          ))}
+          {selectedTags.length > 0 && (
+            <button
+              onClick={() => onTagsChange([])}
+              className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700"
+            >
+              Clear tags
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,22 +1,82 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useNavigationType, useParams } from 'react-router-dom';
 import { Settings, AlertCircle, RefreshCw, Database } from 'lucide-react';
-import { useBlogPosts } from '../hooks/useBlogPosts';
-import { Category } from '../types/BlogPost';
+import { usePostFeed } from '../hooks/usePostFeed';
+import { useCategories } from '../hooks/useCategories';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { PostSummary } from '../types/BlogPost';
+import { CategoryFilter } from '../types/Category';
+import { getPostPath } from '../utils/postUtils';
+import { findCategory, getCategoryDescription, getCategoryPath } from '../utils/categoryUtils';
 import FilterBar from './FilterBar';
 import PhotoCard from './PhotoCard';
+import SearchBox from './SearchBox';
+import LoadMoreTrigger from './LoadMoreTrigger';
+
+// Where the reader was when they opened a post, restored when they come back.
+// The category is part of the URL, so history restores that by itself.
+const savedGalleryState: { tags: string[]; scrollY: number } = {
+  tags: [],
+  scrollY: 0
+};
 
 export default function Gallery() {
-  const [activeCategory, setActiveCategory] = useState<Category>('all');
+  const { category: activeCategory = 'all' } = useParams<{ category: CategoryFilter }>();
+  const navigationType = useNavigationType();
+  const isReturning = navigationType === 'POP';
+  const [selectedTags, setSelectedTags] = useState<string[]>(() =>
+    isReturning ? savedGalleryState.tags : []
+  );
   const navigate = useNavigate();
-  const { blogPosts, loading, error, refreshPosts } = useBlogPosts();
+  const { posts, loading, loadingMore, error, hasMore, loadMore, refreshPosts } = usePostFeed({
+    category: activeCategory,
+    tags: selectedTags
+  });
+  const { categories } = useCategories();
+  const category = findCategory(categories, activeCategory);
+  useDocumentHead({
+    title: category?.label,
+    description: category ? getCategoryDescription(category) : undefined,
+    path: getCategoryPath(activeCategory)
+  });
+  const restoreScrollRef = useRef(isReturning && savedGalleryState.scrollY > 0);
+
+  // Restore the scroll position once the cached cards have rendered. Images
+  // may still be loading, so keep trying briefly until the page is tall enough.
+  useEffect(() => {
+    if (!restoreScrollRef.current || loading) return;
+    restoreScrollRef.current = false;
+
+    const targetY = savedGalleryState.scrollY;
+    const startedAt = Date.now();
+    let frame = 0;
+
+    const restore = () => {
+      window.scrollTo(0, targetY);
+      const reachable = document.documentElement.scrollHeight - window.innerHeight >= targetY;
+      if (!reachable && Date.now() - startedAt < 1000) {
+        frame = requestAnimationFrame(restore);
+      }
+    };
+    restore();
+
+    return () => cancelAnimationFrame(frame);
+  }, [loading]);
 
-  const filteredPosts = activeCategory === 'all' 
-    ? blogPosts 
-    : blogPosts.filter(post => post.category === activeCategory);
+  const handleCategoryChange = (category: CategoryFilter) => {
+    navigate(getCategoryPath(category));
+    window.scrollTo(0, 0);
+  };
+
+  const handleTagsChange = (tags: string[]) => {
+    setSelectedTags(tags);
+    window.scrollTo(0, 0);
+  };
 
-  const handlePostClick = (postId: string) => {
-    navigate(`/post/${postId}`);
+  const handlePostClick = (post: PostSummary) => {
+    savedGalleryState.tags = selectedTags;
+    savedGalleryState.scrollY = window.scrollY;
+    navigate(getPostPath(post));
   };
 
   const isSupabaseError = error?.includes('relation "public.blog_posts" does not exist');
@@ -42,6 +102,7 @@ export default function Gallery() {
             <p className="text-xl text-gray-600 max-w-2xl mx-auto">
               A collection of learnings through experiences.
             </p>
+            <SearchBox className="mt-6 max-w-md mx-auto" />
           </div>
         </div>
       </header>
@@ -123,27 +184,36 @@ export default function Gallery() {
         {!loading && !isSupabaseError && (
           <FilterBar 
             activeCategory={activeCategory}
-            onCategoryChange={setActiveCategory}
+            onCategoryChange={handleCategoryChange}
+            selectedTags={selectedTags}
+            onTagsChange={handleTagsChange}
           />
         )}
 
         {/* Photo Gallery */}
         {!loading && !isSupabaseError && (
           <div className="columns-1 sm:columns-2 lg:columns-3 xl:columns-4 gap-6">
-            {filteredPosts.map((post) => (
+            {posts.map((post) => (
               <PhotoCard
                 key={post.id}
                 post={post}
-                onClick={() => handlePostClick(post.id)}
+                onClick={() => handlePostClick(post)}
               />
             ))}
           </div>
         )}
 
+        {/* Infinite Scroll */}
+        {!loading && !isSupabaseError && hasMore && (
+          <LoadMoreTrigger loadingMore={loadingMore} onLoadMore={loadMore} />
+        )}
+
         {/* Empty State */}
-        {!loading && filteredPosts.length === 0 && !error && (
+        {!loading && posts.length === 0 && !error && (
           <div className="text-center py-16">
-            <p className="text-xl text-gray-500">No posts found in this category.</p>
+            <p className="text-xl text-gray-500">
+              {selectedTags.length > 0 ? 'No posts match these filters.' : 'No posts found in this category.'}
+            </p>
           </div>
         )}
       </main>
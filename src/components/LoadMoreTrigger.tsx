@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+
+interface LoadMoreTriggerProps {
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Placed after a paginated list: loads the next page as the reader scrolls
+ * near it, with a button as a fallback
+ */
+export default function LoadMoreTrigger({ loadingMore, onLoadMore }: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '600px 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex items-center justify-center py-8">
+      {loadingMore ? (
+        <>
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-3"></div>
+          <span className="text-gray-600 text-sm">Loading more posts...</span>
+        </>
+      ) : (
+        <button
+          onClick={onLoadMore}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors duration-200"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
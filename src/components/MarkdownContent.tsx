@@ -0,0 +1,112 @@
+import Markdown, { Components } from 'react-markdown';
+import { ImageMetadata } from '../services/imageService';
+import {
+  MARKDOWN_REHYPE_PLUGINS,
+  MARKDOWN_REMARK_PLUGINS,
+  getMarkdownImageSrc
+} from '../utils/markdownUtils';
+
+interface MarkdownContentProps {
+  content: string;
+  metadataMap?: Map<string, ImageMetadata>; // Library images by URL, so edited ones show as edited
+  className?: string;
+}
+
+/**
+ * Check if a link points away from the blog
+ */
+function isExternalLink(href?: string): boolean {
+  return Boolean(href && /^https?:\/\//i.test(href));
+}
+
+// Element styles shared by the public post page and the admin preview
+const components: Components = {
+  h1: ({ children }) => (
+    <h1 className="text-4xl font-bold text-gray-900 mb-6 mt-8">{children}</h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className="text-2xl font-semibold text-gray-800 mb-4 mt-8">{children}</h2>
+  ),
+  h3: ({ children }) => (
+    <h3 className="text-xl font-semibold text-gray-800 mb-3 mt-6">{children}</h3>
+  ),
+  h4: ({ children }) => (
+    <h4 className="text-lg font-semibold text-gray-800 mb-2 mt-6">{children}</h4>
+  ),
+  p: ({ children }) => (
+    <p className="text-lg text-gray-700 leading-relaxed mb-4">{children}</p>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      className="text-blue-600 hover:text-blue-800 underline underline-offset-2"
+      {...(isExternalLink(href) ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => (
+    <ul className="list-disc pl-6 mb-4 space-y-2 text-lg text-gray-700">{children}</ul>
+  ),
+  ol: ({ children }) => (
+    <ol className="list-decimal pl-6 mb-4 space-y-2 text-lg text-gray-700">{children}</ol>
+  ),
+  li: ({ children }) => <li className="leading-relaxed [&>p]:mb-2">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-blue-200 pl-4 my-6 italic text-gray-600 [&>p]:text-gray-600">
+      {children}
+    </blockquote>
+  ),
+  code: ({ children }) => (
+    <code className="px-1.5 py-0.5 bg-gray-100 text-gray-800 rounded text-base font-mono">{children}</code>
+  ),
+  pre: ({ children }) => (
+    <pre className="mb-4 p-4 bg-gray-900 text-gray-100 rounded-lg overflow-x-auto text-sm [&>code]:p-0 [&>code]:bg-transparent [&>code]:text-inherit [&>code]:text-sm">
+      {children}
+    </pre>
+  ),
+  hr: () => <hr className="my-8 border-gray-200" />,
+  table: ({ children }) => (
+    <div className="mb-4 overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 border border-gray-200 text-left">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-gray-50">{children}</thead>,
+  th: ({ children }) => (
+    <th className="px-4 py-2 text-sm font-semibold text-gray-900">{children}</th>
+  ),
+  td: ({ children }) => (
+    <td className="px-4 py-2 text-gray-700 border-t border-gray-200">{children}</td>
+  )
+};
+
+/**
+ * Render post content written in Markdown (CommonMark plus GFM tables and
+ * strikethrough). Raw HTML in the source is sanitized away, so a post can't
+ * inject script into the page.
+ */
+export default function MarkdownContent({ content, metadataMap, className = '' }: MarkdownContentProps) {
+  const imageComponents: Components = {
+    ...components,
+    img: ({ src, alt }) => (
+      <img
+        src={getMarkdownImageSrc(src, metadataMap)}
+        alt={alt || ''}
+        className="w-full rounded-lg my-6"
+        loading="lazy"
+      />
+    )
+  };
+
+  return (
+    <div className={className}>
+      <Markdown
+        remarkPlugins={MARKDOWN_REMARK_PLUGINS}
+        rehypePlugins={MARKDOWN_REHYPE_PLUGINS}
+        components={imageComponents}
+      >
+        {content}
+      </Markdown>
+    </div>
+  );
+}
@@ -1,15 +1,21 @@
 import { Camera } from 'lucide-react';
-import { BlogPost } from '../types/BlogPost';
+import { PostSummary } from '../types/BlogPost';
 import { useImageMetadata } from '../hooks/useImageMetadata';
 import { isFlickrImageUrl } from '../utils/flickrUtils';
+import { splitSnippet } from '../utils/searchUtils';
+import { IMAGE_SIZES } from '../utils/imageUtils';
+import CategoryBadge from './CategoryBadge';
+import TagChips from './TagChips';
+import ResponsiveImage from './ResponsiveImage';
 
 interface PhotoCardProps {
-  post: BlogPost;
+  post: PostSummary;
   onClick: () => void;
+  snippet?: string; // Search snippet shown under the photo, with matches highlighted
 }
 
-export default function PhotoCard({ post, onClick }: PhotoCardProps) {
-  const { metadata } = useImageMetadata(post.imageUrl);
+export default function PhotoCard({ post, onClick, snippet }: PhotoCardProps) {
+  const { metadata, loading } = useImageMetadata(post.imageUrl);
   
   // Determine photographer based on image source
   const isFlickr = isFlickrImageUrl(post.imageUrl);
@@ -29,20 +35,26 @@ export default function PhotoCard({ post, onClick }: PhotoCardProps) {
       onClick={onClick}
     >
       <div className="relative overflow-hidden rounded-2xl shadow-lg group-hover:shadow-2xl transition-shadow duration-300">
-        <img
+        <ResponsiveImage
           src={post.imageUrl}
+          metadata={metadata}
+          pending={loading}
+          sizes={IMAGE_SIZES.card}
           alt={metadata?.altText || post.title}
           className="w-full h-auto object-cover transition-transform duration-700 group-hover:scale-110"
           loading="lazy"
         />
         <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
           <div className="absolute bottom-0 left-0 right-0 p-6 text-white transform translate-y-4 group-hover:translate-y-0 transition-transform duration-300">
-            <span className="inline-block px-3 py-1 bg-blue-600 text-xs font-semibold rounded-full mb-3 uppercase tracking-wide">
-              {post.category}
-            </span>
+            <CategoryBadge slug={post.category} className="px-3 py-1 text-xs mb-3" />
             <h3 className="text-xl font-bold mb-2 leading-tight">
               {post.title}
             </h3>
+            <TagChips
+              tags={post.tags}
+              className="mb-3"
+              chipClassName="px-2 py-0.5 text-xs bg-white/20 text-white hover:bg-white/30"
+            />
             {/* <p className="text-sm text-gray-200 mb-3 leading-relaxed line-clamp-3">
               {post.excerpt}
             </p> */}
@@ -60,6 +72,22 @@ export default function PhotoCard({ post, onClick }: PhotoCardProps) {
           </div>
         </div>
       </div>
+      {snippet && (
+        <div className="mt-3 px-1">
+          <h3 className="text-base font-semibold text-gray-900 mb-1 group-hover:text-blue-600 transition-colors duration-200">
+            {post.title}
+          </h3>
+          <p className="text-sm text-gray-600 leading-relaxed">
+            {splitSnippet(snippet).map((part, index) =>
+              part.highlighted ? (
+                <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part.text}</mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
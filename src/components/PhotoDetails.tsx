@@ -0,0 +1,37 @@
+import { ExifData, formatAperture, formatCamera, formatExposureTime, formatFocalLength, formatTakenAt } from '../utils/exifUtils';
+
+interface PhotoDetailsProps {
+  exif: ExifData;
+  className?: string;
+}
+
+/**
+ * When and how a photo was taken, from its camera data
+ */
+export default function PhotoDetails({ exif, className = '' }: PhotoDetailsProps) {
+  const camera = formatCamera(exif);
+  const settings = [
+    exif.focalLength && formatFocalLength(exif.focalLength),
+    exif.aperture && formatAperture(exif.aperture),
+    exif.exposureTime && formatExposureTime(exif.exposureTime),
+    exif.iso && `ISO ${exif.iso}`
+  ].filter(Boolean).join(' · ');
+
+  const rows = [
+    { label: 'Taken', value: exif.takenAt && formatTakenAt(exif.takenAt) },
+    { label: 'Camera', value: camera },
+    { label: 'Lens', value: exif.lensModel },
+    { label: 'Settings', value: settings }
+  ].filter(row => row.value);
+
+  return (
+    <dl className={`grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm ${className}`}>
+      {rows.map(row => (
+        <div key={row.label} className="contents">
+          <dt className="text-gray-400">{row.label}</dt>
+          <dd>{row.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,113 @@
+import { Camera } from 'lucide-react';
+import { BlogPost } from '../types/BlogPost';
+import { ImageMetadata } from '../services/imageService';
+import { ContentBlock, ContentImageRef, ResolvedContentImage, resolveContentImage } from '../utils/contentUtils';
+import { IMAGE_SIZES } from '../utils/imageUtils';
+import MarkdownContent from './MarkdownContent';
+import ResponsiveImage from './ResponsiveImage';
+
+interface PostContentProps {
+  blocks: ContentBlock[];
+  imageIdMap: Map<string, ImageMetadata>;
+  metadataMap: Map<string, ImageMetadata>;
+  imageMetadata?: BlogPost['imageMetadata'];
+  metadataLoading?: boolean;
+  onImageClick?: (imageUrl: string) => void;
+  className?: string;
+}
+
+export default function PostContent({
+  blocks,
+  imageIdMap,
+  metadataMap,
+  imageMetadata,
+  metadataLoading = false,
+  onImageClick,
+  className = ''
+}: PostContentProps) {
+  const resolveImage = (ref: ContentImageRef) =>
+    resolveContentImage(ref, imageIdMap, metadataMap, imageMetadata);
+
+  const renderFigure = (ref: ContentImageRef, key: number) => {
+    const image = resolveImage(ref);
+    if (!image) return null;
+
+    return (
+      <figure key={key} className="my-10">
+        <ResponsiveImage
+          src={image.url}
+          metadata={image.metadata}
+          pending={metadataLoading}
+          sizes={IMAGE_SIZES.contentFigure}
+          alt={image.alt}
+          className={`w-full rounded-lg shadow-md ${onImageClick ? 'cursor-zoom-in' : ''}`}
+          onClick={onImageClick ? () => onImageClick(image.url) : undefined}
+          loading="lazy"
+        />
+        <figcaption className="mt-3 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 text-sm text-gray-500">
+          <span className="italic">{image.caption}</span>
+          <span className="flex items-center flex-shrink-0">
+            <Camera className="w-3 h-3 mr-1" />
+            Photo by {image.photographer}
+          </span>
+        </figcaption>
+      </figure>
+    );
+  };
+
+  const renderGallery = (refs: ContentImageRef[], key: number) => {
+    const images = refs
+      .map(resolveImage)
+      .filter((image): image is ResolvedContentImage => image !== null);
+
+    if (images.length === 0) return null;
+
+    return (
+      <div key={key} className="my-10 grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {images.map((image, index) => (
+          <figure key={index}>
+            <div
+              className={`group overflow-hidden rounded-lg shadow-md hover:shadow-xl transition-all duration-300 relative ${
+                onImageClick ? 'cursor-pointer' : ''
+              }`}
+              onClick={onImageClick ? () => onImageClick(image.url) : undefined}
+            >
+              <ResponsiveImage
+                src={image.url}
+                metadata={image.metadata}
+                pending={metadataLoading}
+                sizes={IMAGE_SIZES.contentGallery}
+                alt={image.alt}
+                className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
+                loading="lazy"
+              />
+
+              {/* Image Attribution Overlay */}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                <div className="absolute bottom-3 left-3 right-3">
+                  <div className="flex items-center text-white text-xs">
+                    <Camera className="w-3 h-3 mr-1" />
+                    <span>{image.photographer}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+            {image.caption && (
+              <figcaption className="mt-2 text-sm text-gray-500 italic">{image.caption}</figcaption>
+            )}
+          </figure>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={className}>
+      {blocks.map((block, index) => {
+        if (block.type === 'image') return renderFigure(block.image, index);
+        if (block.type === 'gallery') return renderGallery(block.images, index);
+        return <MarkdownContent key={index} content={block.text} metadataMap={metadataMap} />;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { ImgHTMLAttributes } from 'react';
+import { ImageMetadata } from '../services/imageService';
+import { getImageDisplayUrl, getResponsiveImageSources } from '../utils/imageUtils';
+import { getObjectPosition } from '../utils/imageEditUtils';
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'srcSet' | 'sizes'> {
+  src: string;
+  metadata?: ImageMetadata | null;
+  sizes: string; // One of IMAGE_SIZES
+  pending?: boolean; // Metadata is still loading
+}
+
+/**
+ * An image that lets the browser pick a suitably sized variant, preferring
+ * WebP. Without variants it's a plain <img>. Where the classes crop it
+ * (`object-cover`) or zoom it on hover, the image's focal point stays in view.
+ * While its metadata is pending the image has no `src`, so the browser
+ * doesn't start on the full-size original before the variants are known.
+ */
+export default function ResponsiveImage({ src, metadata, sizes, pending, style, ...imgProps }: ResponsiveImageProps) {
+  const { srcSet, webpSrcSet } = getResponsiveImageSources(metadata);
+  const displaySrc = getImageDisplayUrl(src, metadata);
+  const objectPosition = getObjectPosition(metadata?.focalPoint);
+  const imgStyle = objectPosition ? { objectPosition, transformOrigin: objectPosition, ...style } : style;
+
+  if (pending && !metadata) {
+    return <img style={imgStyle} {...imgProps} />;
+  }
+
+  if (!srcSet && !webpSrcSet) {
+    return <img src={displaySrc} style={imgStyle} {...imgProps} />;
+  }
+
+  // `contents` keeps <picture> out of the layout, so the <img> classes apply as before
+  return (
+    <picture className="contents">
+      {webpSrcSet && <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />}
+      <img src={displaySrc} srcSet={srcSet} sizes={srcSet ? sizes : undefined} style={imgStyle} {...imgProps} />
+    </picture>
+  );
+}
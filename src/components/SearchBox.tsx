@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { getSearchPath } from '../utils/searchUtils';
+
+interface SearchBoxProps {
+  initialQuery?: string;
+  className?: string;
+}
+
+export default function SearchBox({ initialQuery = '', className = '' }: SearchBoxProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const navigate = useNavigate();
+
+  // Keep the box in sync when the query changes via navigation
+  useEffect(() => {
+    setQuery(initialQuery);
+  }, [initialQuery]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    navigate(getSearchPath(query));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className={`relative ${className}`}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search posts..."
+        aria-label="Search posts"
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </form>
+  );
+}
@@ -0,0 +1,92 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, AlertCircle } from 'lucide-react';
+import { usePostSearch } from '../hooks/usePostSearch';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { PostSummary } from '../types/BlogPost';
+import { getPostPath } from '../utils/postUtils';
+import PhotoCard from './PhotoCard';
+import SearchBox from './SearchBox';
+
+export default function SearchResults() {
+  const [searchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const navigate = useNavigate();
+  const { results, loading, error } = usePostSearch(query);
+  useDocumentHead({ title: query.trim() ? `Search: ${query.trim()}` : 'Search', noIndex: true });
+
+  const handlePostClick = (post: PostSummary) => {
+    navigate(getPostPath(post));
+  };
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <button
+              onClick={() => navigate('/')}
+              className="flex items-center text-gray-600 hover:text-gray-900 transition-colors duration-200"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Gallery
+            </button>
+            <SearchBox initialQuery={query} className="flex-1 max-w-xl sm:ml-auto" />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {hasQuery && (
+          <h1 className="text-2xl font-bold text-gray-900 mb-8">
+            {loading
+              ? `Searching for "${query}"...`
+              : `${results.length} ${results.length === 1 ? 'result' : 'results'} for "${query}"`}
+          </h1>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5 flex-shrink-0" />
+            <p className="text-red-700 text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mr-3"></div>
+            <span className="text-gray-600">Searching posts...</span>
+          </div>
+        )}
+
+        {/* Results */}
+        {!loading && results.length > 0 && (
+          <div className="columns-1 sm:columns-2 lg:columns-3 xl:columns-4 gap-6">
+            {results.map((result) => (
+              <PhotoCard
+                key={result.id}
+                post={result}
+                snippet={result.snippet}
+                onClick={() => handlePostClick(result)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Empty State */}
+        {!loading && !error && results.length === 0 && (
+          <div className="text-center py-16">
+            <p className="text-xl text-gray-500">
+              {hasQuery ? 'No posts matched your search.' : 'Type something to search the blog.'}
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
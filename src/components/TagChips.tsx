@@ -0,0 +1,35 @@
+import { Link } from 'react-router-dom';
+import { Tag } from '../types/Tag';
+import { getTagPath } from '../utils/tagUtils';
+
+interface TagChipsProps {
+  tags: Tag[];
+  className?: string;
+  chipClassName?: string;
+}
+
+export default function TagChips({
+  tags,
+  className = '',
+  chipClassName = 'px-3 py-1 text-sm bg-gray-100 text-gray-700 hover:bg-gray-200'
+}: TagChipsProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map(tag => (
+        <Link
+          key={tag.id}
+          to={getTagPath(tag)}
+          // Chips sit inside clickable cards; don't open the post as well
+          onClick={(e) => e.stopPropagation()}
+          className={`rounded-full transition-colors duration-200 ${chipClassName}`}
+        >
+          #{tag.name}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, AlertCircle } from 'lucide-react';
+import { usePostFeed } from '../hooks/usePostFeed';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { tagService } from '../services/tagService';
+import { PostSummary } from '../types/BlogPost';
+import { Tag } from '../types/Tag';
+import { getPostPath } from '../utils/postUtils';
+import { getTagPath } from '../utils/tagUtils';
+import { SITE_TITLE } from '../utils/headUtils';
+import PhotoCard from './PhotoCard';
+import LoadMoreTrigger from './LoadMoreTrigger';
+
+export default function TagPosts() {
+  const { tag: tagSlug = '' } = useParams<{ tag: string }>();
+  const navigate = useNavigate();
+  const [tag, setTag] = useState<Tag | null>(null);
+  const { posts, loading, loadingMore, error, hasMore, loadMore } = usePostFeed({ tags: [tagSlug] });
+  const tagName = tag?.name || tagSlug;
+  useDocumentHead({
+    title: `#${tagName}`,
+    description: `Posts tagged #${tagName} on ${SITE_TITLE}`,
+    path: getTagPath({ slug: tagSlug })
+  });
+
+  useEffect(() => {
+    let isCancelled = false;
+    setTag(null);
+
+    tagService.getTagBySlug(tagSlug)
+      .then(loadedTag => {
+        if (!isCancelled) setTag(loadedTag);
+      })
+      .catch(err => console.error('Failed to load tag:', err));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [tagSlug]);
+
+  const handlePostClick = (post: PostSummary) => {
+    navigate(getPostPath(post));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center text-gray-600 hover:text-gray-900 transition-colors duration-200 mb-4"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back to Gallery
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">#{tagName}</h1>
+          {!loading && !hasMore && posts.length > 0 && (
+            <p className="text-gray-600 mt-2">
+              {posts.length} {posts.length === 1 ? 'post' : 'posts'}
+            </p>
+          )}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5 flex-shrink-0" />
+            <p className="text-red-700 text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mr-3"></div>
+            <span className="text-gray-600">Loading blog posts...</span>
+          </div>
+        )}
+
+        {/* Photo Gallery */}
+        {!loading && (
+          <div className="columns-1 sm:columns-2 lg:columns-3 xl:columns-4 gap-6">
+            {posts.map((post) => (
+              <PhotoCard
+                key={post.id}
+                post={post}
+                onClick={() => handlePostClick(post)}
+              />
+            ))}
+          </div>
+        )}
+
+        {!loading && hasMore && (
+          <LoadMoreTrigger loadingMore={loadingMore} onLoadMore={loadMore} />
+        )}
+
+        {/* Empty State */}
+        {!loading && posts.length === 0 && !error && (
+          <div className="text-center py-16">
+            <p className="text-xl text-gray-500">No posts have this tag yet.</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
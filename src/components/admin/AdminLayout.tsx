@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Plus, List, ArrowLeft, LogOut, User, Image as ImageIcon } from 'lucide-react';
+import { Plus, List, ArrowLeft, LogOut, User, Image as ImageIcon, Tags } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 
 interface AdminLayoutProps {
@@ -110,6 +110,19 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
                     Image Gallery
                   </Link>
                 </li>
+                <li>
+                  <Link
+                    to="/admin/categories"
+                    className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                      isActive('/admin/categories')
+                        ? 'bg-blue-100 text-blue-700'
+                        : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Tags className="w-4 h-4 mr-3" />
+                    Categories
+                  </Link>
+                </li>
               </ul>
             </div>
           </nav>
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Plus, Edit, Trash2, Check, X, AlertCircle, FolderOpen } from 'lucide-react';
+import { useImageAlbums } from '../../hooks/useImageAlbums';
+import { ImageAlbum, ImageAlbumFormData } from '../../types/ImageAlbum';
+
+const emptyForm: ImageAlbumFormData = { name: '', description: '' };
+
+/**
+ * Create, rename and delete image albums
+ */
+export default function AlbumManager() {
+  const { albums, loading, error, addAlbum, updateAlbum, deleteAlbum } = useImageAlbums();
+  const [newAlbum, setNewAlbum] = useState<ImageAlbumFormData>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<ImageAlbumFormData>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<ImageAlbum | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newAlbum.name.trim()) return;
+
+    try {
+      setSaving(true);
+      await addAlbum(newAlbum);
+      setNewAlbum(emptyForm);
+    } catch {
+      // The hook reports the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (album: ImageAlbum) => {
+    setEditingId(album.id);
+    setEditForm({ name: album.name, description: album.description || '' });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editForm.name.trim()) return;
+
+    try {
+      setSaving(true);
+      await updateAlbum(editingId, editForm);
+      setEditingId(null);
+    } catch {
+      // The hook reports the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAlbum(id);
+    } catch {
+      // The hook reports the error
+    } finally {
+      setDeleteConfirm(null);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md flex items-start">
+          <AlertCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5 flex-shrink-0" />
+          <p className="text-red-700 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={newAlbum.name}
+          onChange={(e) => setNewAlbum(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Album name, e.g. Mount Whitney 2024"
+          aria-label="Album name"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          value={newAlbum.description}
+          onChange={(e) => setNewAlbum(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="Description (optional)"
+          aria-label="Album description"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newAlbum.name.trim()}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Create Album
+        </button>
+      </form>
+
+      {loading && albums.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading albums...</p>
+      ) : albums.length === 0 ? (
+        <p className="text-sm text-gray-500">No albums yet. Create one per trip to keep its photos together.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          {albums.map(album => (
+            <li key={album.id} className="px-4 py-3">
+              {editingId === album.id ? (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                  <input
+                    type="text"
+                    value={editForm.name}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                    aria-label="Album name"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    value={editForm.description}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="Description (optional)"
+                    aria-label="Album description"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={handleSaveEdit}
+                      disabled={saving || !editForm.name.trim()}
+                      className="p-2 text-green-600 hover:text-green-800 disabled:opacity-50 transition-colors duration-200"
+                      title="Save"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="p-2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+                      title="Cancel"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    <FolderOpen className="w-4 h-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{album.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {album.imageCount} {album.imageCount === 1 ? 'image' : 'images'}
+                        {album.description && ` • ${album.description}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => startEditing(album)}
+                      className="p-2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+                      title="Rename album"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirm(album)}
+                      className="p-2 text-red-600 hover:text-red-800 transition-colors duration-200"
+                      title="Delete album"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Delete Album</h3>
+            <p className="text-gray-600 mb-6">
+              Delete "{deleteConfirm.name}"? Its {deleteConfirm.imageCount === 1 ? 'image stays' : `${deleteConfirm.imageCount} images stay`} in
+              the library without an album.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setDeleteConfirm(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleDelete(deleteConfirm.id)}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
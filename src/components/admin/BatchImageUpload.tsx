@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { Upload, Image as ImageIcon, Loader, CheckCircle, AlertCircle, RotateCcw, X, Copy } from 'lucide-react';
+import { imageService, ImageUploadResult, ImageUploadStage } from '../../services/imageService';
+import { useUploadQueue, UploadQueueItem, UploadQueueDefaults } from '../../hooks/useUploadQueue';
+
+interface BatchImageUploadProps {
+  files: File[];
+  folder?: string;
+  albumId?: string;
+  onComplete: (results: ImageUploadResult[]) => void;
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: Record<ImageUploadStage, string> = {
+  converting: 'Converting HEIC...',
+  uploading: 'Uploading...',
+  variants: 'Creating sizes...',
+  saving: 'Saving details...'
+};
+
+function getResults(items: UploadQueueItem[]): ImageUploadResult[] {
+  return items
+    .filter(item => item.status === 'done' && item.result)
+    .map(item => item.result as ImageUploadResult);
+}
+
+/**
+ * Small preview of a queued file. Browsers can't draw HEIC, so those get an icon.
+ */
+function QueueThumbnail({ file }: { file: File }) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (imageService.isHeicFile(file)) return;
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-100 flex items-center justify-center">
+      {previewUrl ? (
+        <img src={previewUrl} alt="" loading="lazy" className="w-full h-full object-cover" />
+      ) : (
+        <ImageIcon className="w-6 h-6 text-gray-400" />
+      )}
+    </div>
+  );
+}
+
+export default function BatchImageUpload({ files, folder, albumId, onComplete, onCancel }: BatchImageUploadProps) {
+  const {
+    items,
+    results,
+    isUploading,
+    isChecking,
+    updateItem,
+    removeItem,
+    startUpload,
+    retryFailed,
+    retryItem
+  } = useUploadQueue(folder, files);
+  const [defaults, setDefaults] = useState<UploadQueueDefaults>({
+    photographer: '',
+    copyright: '',
+    stripGps: true
+  });
+
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const totalProgress = items.length > 0
+    ? items.reduce((sum, item) => sum + (item.status === 'done' ? 1 : item.progress?.fraction ?? 0), 0) / items.length
+    : 0;
+
+  const finishIfDone = (finished: UploadQueueItem[]) => {
+    if (finished.length > 0 && finished.every(item => item.status === 'done')) {
+      onComplete(getResults(finished));
+    }
+  };
+
+  const handleUpload = async () => {
+    finishIfDone(await startUpload({ ...defaults, albumId }));
+  };
+
+  const handleRetryFailed = async () => {
+    finishIfDone(await retryFailed({ ...defaults, albumId }));
+  };
+
+  const handleRetryItem = async (id: string) => {
+    finishIfDone(await retryItem(id, { ...defaults, albumId }));
+  };
+
+  const handleRemoveItem = (id: string) => {
+    removeItem(id);
+    const remaining = items.filter(item => item.id !== id);
+    if (remaining.length === 0) {
+      onCancel();
+    } else {
+      finishIfDone(remaining);
+    }
+  };
+
+  const renderStatus = (item: UploadQueueItem) => {
+    switch (item.status) {
+      case 'uploading':
+        return (
+          <div>
+            <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+              <span>{item.progress ? STAGE_LABELS[item.progress.stage] : 'Uploading...'}</span>
+              <span>{Math.round((item.progress?.fraction ?? 0) * 100)}%</span>
+            </div>
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-300"
+                style={{ width: `${(item.progress?.fraction ?? 0) * 100}%` }}
+              />
+            </div>
+          </div>
+        );
+      case 'done':
+        return (
+          <p className="flex items-center text-xs text-green-700">
+            <CheckCircle className="w-4 h-4 mr-1" />
+            {item.reuseDuplicate ? 'Using the image already in the library' : 'Uploaded'}
+          </p>
+        );
+      case 'failed':
+        return (
+          <p className="flex items-start text-xs text-red-700">
+            <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+            {item.error}
+          </p>
+        );
+      default:
+        if (item.checking) {
+          return <p className="text-xs text-gray-500">Checking the library...</p>;
+        }
+        return isUploading ? <p className="text-xs text-gray-500">Waiting...</p> : null;
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-lg p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Upload {items.length} Images</h3>
+        {(isUploading || results.length > 0) && (
+          <div>
+            <div className="flex items-center justify-between text-sm text-gray-600 mb-1">
+              <span>{results.length} of {items.length} uploaded{failedCount > 0 && `, ${failedCount} failed`}</span>
+              <span>{Math.round(totalProgress * 100)}%</span>
+            </div>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-300"
+                style={{ width: `${totalProgress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Shared details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Photographer
+          </label>
+          <input
+            type="text"
+            value={defaults.photographer}
+            onChange={(e) => setDefaults(prev => ({ ...prev, photographer: e.target.value }))}
+            disabled={isUploading}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+            placeholder="Kate Goldenring"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Copyright Notice
+          </label>
+          <input
+            type="text"
+            value={defaults.copyright}
+            onChange={(e) => setDefaults(prev => ({ ...prev, copyright: e.target.value }))}
+            disabled={isUploading}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+            placeholder="© 2024 Continued Education Blog. All rights reserved."
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={defaults.stripGps}
+              onChange={(e) => setDefaults(prev => ({ ...prev, stripGps: e.target.checked }))}
+              disabled={isUploading}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Remove location (GPS) data
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            Photographer and copyright apply to every image. Leave blank for the defaults.
+          </p>
+        </div>
+      </div>
+
+      {/* Files */}
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-[28rem] overflow-y-auto">
+        {items.map(item => {
+          const editable = !isUploading && item.status !== 'done' && !item.reuseDuplicate;
+          return (
+            <li key={item.id} className="flex items-start space-x-3 p-3">
+              <QueueThumbnail file={item.file} />
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-900 truncate">
+                    {item.file.name}
+                    <span className="text-gray-500">
+                      {' '}• {(item.file.size / 1024 / 1024).toFixed(1)} MB
+                      {imageService.isHeicFile(item.file) && ' • will be converted to JPEG'}
+                    </span>
+                  </p>
+                  <div className="flex items-center space-x-1 ml-2">
+                    {item.status === 'failed' && (
+                      <button
+                        type="button"
+                        onClick={() => handleRetryItem(item.id)}
+                        disabled={isUploading}
+                        className="p-1 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Retry upload"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(item.status === 'pending' || item.status === 'failed') && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveItem(item.id)}
+                        disabled={isUploading}
+                        className="p-1 text-gray-400 hover:text-gray-600 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Remove from batch"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={item.altText}
+                    onChange={(e) => updateItem(item.id, { altText: e.target.value })}
+                    disabled={!editable}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                    placeholder="Alt text"
+                  />
+                  <input
+                    type="text"
+                    value={item.caption}
+                    onChange={(e) => updateItem(item.id, { caption: e.target.value })}
+                    disabled={!editable}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                    placeholder="Caption (optional)"
+                  />
+                </div>
+                {item.duplicate && item.status !== 'done' && (
+                  <label className="flex items-center text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={item.reuseDuplicate}
+                      onChange={(e) => updateItem(item.id, { reuseDuplicate: e.target.checked })}
+                      disabled={isUploading}
+                      className="mr-2 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+                    />
+                    <Copy className="w-3 h-3 mr-1 flex-shrink-0" />
+                    <span className="truncate">
+                      {item.duplicate.exact ? 'Already in the library' : 'Looks like a photo in the library'}
+                      {' '}as {item.duplicate.image.originalName}. Use that instead of uploading
+                    </span>
+                  </label>
+                )}
+                {renderStatus(item)}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        {!isUploading && failedCount > 0 ? (
+          <>
+            {results.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onComplete(results)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+              >
+                Continue Without Failed
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleRetryFailed}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 flex items-center"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry Failed ({failedCount})
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isUploading || results.length > 0}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleUpload}
+              disabled={isUploading || isChecking || pendingCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 flex items-center"
+            >
+              {isUploading ? (
+                <>
+                  <Loader className="w-4 h-4 mr-2 animate-spin" />
+                  Uploading...
+                </>
+              ) : isChecking ? (
+                <>
+                  <Loader className="w-4 h-4 mr-2 animate-spin" />
+                  Checking the library...
+                </>
+              ) : (
+                <>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload {pendingCount} Images
+                </>
+              )}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
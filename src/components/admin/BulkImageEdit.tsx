@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Loader, AlertCircle } from 'lucide-react';
+import { ImageBulkUpdate } from '../../services/imageService';
+import { ImageAlbum } from '../../types/ImageAlbum';
+
+interface BulkImageEditProps {
+  count: number;
+  albums: ImageAlbum[];
+  saving: boolean;
+  error?: string | null; // Why the last save failed
+  onSave: (changes: ImageBulkUpdate) => void;
+  onCancel: () => void;
+}
+
+// Album select values besides album ids
+const KEEP_ALBUM = 'keep';
+const NO_ALBUM = 'none';
+
+/**
+ * Set the same details on every selected image. Blank fields are left as they are.
+ */
+export default function BulkImageEdit({ count, albums, saving, error, onSave, onCancel }: BulkImageEditProps) {
+  const [formData, setFormData] = useState({
+    photographer: '',
+    copyright: '',
+    captionPrefix: '',
+    altText: '',
+    album: KEEP_ALBUM
+  });
+
+  const changes: ImageBulkUpdate = {};
+  if (formData.photographer.trim()) changes.photographer = formData.photographer.trim();
+  if (formData.copyright.trim()) changes.copyright = formData.copyright.trim();
+  if (formData.captionPrefix.trim()) changes.captionPrefix = formData.captionPrefix.trim();
+  if (formData.altText.trim()) changes.altText = formData.altText.trim();
+  if (formData.album !== KEEP_ALBUM) changes.albumId = formData.album === NO_ALBUM ? null : formData.album;
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasChanges) onSave(changes);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full">
+        <form onSubmit={handleSubmit}>
+          <div className="p-6">
+            <h3 className="text-lg font-semibold mb-1">
+              Edit {count} {count === 1 ? 'Image' : 'Images'}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Filled-in fields are applied to every selected image. Blank fields keep each image's current value.
+            </p>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md flex items-start">
+                <AlertCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="text-red-700 text-sm font-medium">No images were changed</p>
+                  <p className="text-red-700 text-sm">{error}</p>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Photographer
+                </label>
+                <input
+                  type="text"
+                  value={formData.photographer}
+                  onChange={(e) => setFormData(prev => ({ ...prev, photographer: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Copyright
+                </label>
+                <input
+                  type="text"
+                  value={formData.copyright}
+                  onChange={(e) => setFormData(prev => ({ ...prev, copyright: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Caption Prefix
+                </label>
+                <input
+                  type="text"
+                  value={formData.captionPrefix}
+                  onChange={(e) => setFormData(prev => ({ ...prev, captionPrefix: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g. Day 3:"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Added to the start of each caption. Captions that already start with it are left alone.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Alt Text
+                </label>
+                <input
+                  type="text"
+                  value={formData.altText}
+                  onChange={(e) => setFormData(prev => ({ ...prev, altText: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Replaces the alt text on every selected image.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Album
+                </label>
+                <select
+                  value={formData.album}
+                  onChange={(e) => setFormData(prev => ({ ...prev, album: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={KEEP_ALBUM}>Keep current album</option>
+                  <option value={NO_ALBUM}>No album</option>
+                  {albums.map(album => (
+                    <option key={album.id} value={album.id}>{album.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="px-6 py-4 bg-gray-50 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={saving}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !hasChanges}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+              {saving ? 'Saving...' : `Update ${count} ${count === 1 ? 'Image' : 'Images'}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, Check, X, AlertCircle, RefreshCw } from 'lucide-react';
+import { useCategories } from '../../hooks/useCategories';
+import { useDocumentHead } from '../../hooks/useDocumentHead';
+import { categoryService } from '../../services/categoryService';
+import { Category, CategoryFormData } from '../../types/Category';
+import { DEFAULT_CATEGORY_COLOR } from '../../utils/categoryUtils';
+import { slugify, isValidSlug } from '../../utils/postUtils';
+import CategoryBadge from '../CategoryBadge';
+
+const emptyForm: CategoryFormData = { label: '', slug: '', color: DEFAULT_CATEGORY_COLOR };
+
+interface CategoryFieldsProps {
+  value: CategoryFormData;
+  onChange: (value: CategoryFormData) => void;
+  slugEdited: boolean;
+  onSlugEdited: () => void;
+}
+
+function CategoryFields({ value, onChange, slugEdited, onSlugEdited }: CategoryFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3">
+      <input
+        type="text"
+        value={value.label}
+        onChange={(e) => onChange({
+          ...value,
+          label: e.target.value,
+          // Follow the label until the slug is edited by hand
+          slug: slugEdited ? value.slug : slugify(e.target.value)
+        })}
+        placeholder="Label, e.g. Hiking"
+        aria-label="Category label"
+        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <input
+        type="text"
+        value={value.slug}
+        onChange={(e) => {
+          onSlugEdited();
+          onChange({ ...value, slug: e.target.value.toLowerCase() });
+        }}
+        onBlur={() => onChange({ ...value, slug: value.slug ? slugify(value.slug) : '' })}
+        placeholder="slug"
+        aria-label="Category slug"
+        className="px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <input
+        type="color"
+        value={value.color}
+        onChange={(e) => onChange({ ...value, color: e.target.value })}
+        aria-label="Category color"
+        className="h-10 w-16 p-1 border border-gray-300 rounded-md cursor-pointer"
+      />
+    </div>
+  );
+}
+
+/**
+ * Check a category form, returning an error message if it can't be saved
+ */
+function validateCategory(value: CategoryFormData): string | null {
+  if (!value.label.trim()) {
+    return 'Label is required';
+  }
+  if (!isValidSlug(value.slug)) {
+    return 'Slug can only contain lowercase letters, numbers and hyphens';
+  }
+  return null;
+}
+
+export default function CategoryManager() {
+  const {
+    categories,
+    loading,
+    error,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    reorderCategories,
+    refreshCategories
+  } = useCategories();
+  useDocumentHead({ title: 'Admin: Categories', noIndex: true });
+  const [postCounts, setPostCounts] = useState<Map<string, number>>(new Map());
+  const [newCategory, setNewCategory] = useState<CategoryFormData>(emptyForm);
+  const [newSlugEdited, setNewSlugEdited] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState<CategoryFormData>(emptyForm);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    categoryService.getPostCounts()
+      .then(setPostCounts)
+      .catch(err => console.error('Failed to load post counts:', err));
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateCategory(newCategory);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      await addCategory(newCategory);
+      setNewCategory(emptyForm);
+      setNewSlugEdited(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to create category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setEditValue({ label: category.label, slug: category.slug, color: category.color });
+    setFormError(null);
+  };
+
+  const handleUpdate = async (category: Category) => {
+    const validationError = validateCategory(editValue);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      await updateCategory(category.id, editValue);
+      if (editValue.slug !== category.slug) {
+        setPostCounts(prev => {
+          const next = new Map(prev);
+          next.set(editValue.slug, prev.get(category.slug) || 0);
+          next.delete(category.slug);
+          return next;
+        });
+      }
+      setEditingId(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to update category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      setSaving(true);
+      setFormError(null);
+      await deleteCategory(id);
+      setShowDeleteConfirm(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to delete category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= categories.length) return;
+
+    const orderedIds = categories.map(category => category.id);
+    [orderedIds[index], orderedIds[target]] = [orderedIds[target], orderedIds[index]];
+
+    try {
+      setFormError(null);
+      await reorderCategories(orderedIds);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to reorder categories');
+    }
+  };
+
+  if (loading && categories.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+        <div className="flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mr-3"></div>
+          <span className="text-gray-600">Loading categories...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Categories</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Categories appear in this order in the gallery filters and the post editor.
+            </p>
+          </div>
+          <button
+            onClick={refreshCategories}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </button>
+        </div>
+
+        {/* Error Message */}
+        {(formError || error) && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5 flex-shrink-0" />
+            <p className="text-red-700 text-sm font-medium">{formError || error}</p>
+          </div>
+        )}
+
+        {/* New Category */}
+        <form onSubmit={handleAdd} className="mt-4 flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="flex-1">
+            <CategoryFields
+              value={newCategory}
+              onChange={setNewCategory}
+              slugEdited={newSlugEdited}
+              onSlugEdited={() => setNewSlugEdited(true)}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Category
+          </button>
+        </form>
+      </div>
+
+      {/* Category List */}
+      {categories.length === 0 ? (
+        <div className="px-6 py-12 text-center text-gray-500">
+          No categories yet. Add one above before writing posts.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {categories.map((category, index) => {
+            const postCount = postCounts.get(category.slug) || 0;
+
+            return (
+              <li key={category.id} className="px-6 py-4">
+                {editingId === category.id ? (
+                  <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+                    <div className="flex-1">
+                      <CategoryFields
+                        value={editValue}
+                        onChange={setEditValue}
+                        slugEdited={true}
+                        onSlugEdited={() => undefined}
+                      />
+                      {editValue.slug !== category.slug && postCount > 0 && (
+                        <p className="mt-2 text-sm text-amber-700">
+                          {postCount} {postCount === 1 ? 'post' : 'posts'} will move to the new slug.
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleUpdate(category)}
+                        disabled={saving}
+                        className="p-2 text-green-600 hover:text-green-800 disabled:opacity-50 transition-colors duration-200"
+                        title="Save"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="p-2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-4">
+                      <CategoryBadge slug={category.slug} className="px-3 py-1 text-xs" />
+                      <code className="text-sm text-gray-500">{category.slug}</code>
+                      <span className="text-sm text-gray-400">
+                        {postCount} {postCount === 1 ? 'post' : 'posts'}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30 transition-colors duration-200"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === categories.length - 1}
+                        className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30 transition-colors duration-200"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(category)}
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
+                        title="Edit category"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setShowDeleteConfirm(category.id)}
+                        disabled={postCount > 0}
+                        className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors duration-200"
+                        title={postCount > 0 ? 'Move this category\'s posts elsewhere before deleting it' : 'Delete category'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Delete Category</h3>
+            <p className="text-gray-600 mb-6">
+              Are you sure you want to delete this category? This action cannot be undone.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setShowDeleteConfirm(null)}
+                disabled={saving}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleDelete(showDeleteConfirm)}
+                disabled={saving}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors duration-200 flex items-center"
+              >
+                {saving ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Deleting...
+                  </>
+                ) : (
+                  'Delete'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState, useMemo } from 'react';
+import { X, GitMerge, AlertCircle } from 'lucide-react';
+import { useCategories } from '../../hooks/useCategories';
+import { BlogFormData } from '../../types/BlogPost';
+import { DiffPart, diffWords } from '../../utils/diffUtils';
+import { getCategoryLabel } from '../../utils/categoryUtils';
+import { POST_STATUS_LABELS } from '../../utils/postUtils';
+
+type ConflictField = keyof Omit<BlogFormData, 'imageMetadata'>;
+type Side = 'yours' | 'saved';
+
+interface ConflictResolverProps {
+  base: BlogFormData; // The post as it was when this editor loaded it
+  yours: BlogFormData; // The form as edited here
+  saved: BlogFormData; // The post as someone else saved it
+  savedAt?: string;
+  onResolve: (merged: BlogFormData) => void;
+  onCancel: () => void;
+}
+
+// Fields that can differ, in form order. Text fields are compared word by word.
+const CONFLICT_FIELDS: { key: ConflictField; label: string; isText?: boolean }[] = [
+  { key: 'title', label: 'Title', isText: true },
+  { key: 'slug', label: 'URL slug', isText: true },
+  { key: 'category', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'imageUrl', label: 'Main image' },
+  { key: 'images', label: 'Gallery images' },
+  { key: 'excerpt', label: 'Excerpt', isText: true },
+  { key: 'content', label: 'Content', isText: true },
+  { key: 'status', label: 'Status' },
+  { key: 'publishedAt', label: 'Publish date' }
+];
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Show one side of a text conflict, highlighting the words only that side has
+ */
+function renderTextSide(parts: DiffPart[], side: Side) {
+  const ownType = side === 'yours' ? 'added' : 'removed';
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+      {parts.filter(part => part.type === 'equal' || part.type === ownType).map((part, index) =>
+        part.type === 'equal'
+          ? <span key={index}>{part.text}</span>
+          : <mark key={index} className="bg-yellow-200 text-gray-900">{part.text}</mark>
+      )}
+    </p>
+  );
+}
+
+export default function ConflictResolver({ base, yours, saved, savedAt, onResolve, onCancel }: ConflictResolverProps) {
+  const { categories } = useCategories();
+
+  // Fields only the other editor changed are taken as saved; only fields
+  // changed differently on both sides need a choice
+  const { conflicts, savedOnly } = useMemo(() => {
+    const changedThere = CONFLICT_FIELDS.filter(({ key }) =>
+      !isSameValue(saved[key], base[key]) && !isSameValue(saved[key], yours[key])
+    );
+    return {
+      conflicts: changedThere.filter(({ key }) => !isSameValue(yours[key], base[key])),
+      savedOnly: changedThere.filter(({ key }) => isSameValue(yours[key], base[key]))
+    };
+  }, [base, yours, saved]);
+
+  // Keep this editor's changes unless told otherwise
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, Side>>>({});
+  const getChoice = (key: ConflictField): Side => choices[key] || 'yours';
+
+  const formatValue = (key: ConflictField, formData: BlogFormData): string => {
+    switch (key) {
+      case 'category':
+        return getCategoryLabel(categories, formData.category);
+      case 'tags':
+        return formData.tags.join(', ') || 'No tags';
+      case 'images':
+        return formData.images.length > 0 ? formData.images.join('\n') : 'No gallery images';
+      case 'status':
+        return POST_STATUS_LABELS[formData.status];
+      case 'publishedAt':
+        return formData.publishedAt ? new Date(formData.publishedAt).toLocaleString() : 'Not set';
+      default:
+        return String(formData[key] || '');
+    }
+  };
+
+  const handleResolve = () => {
+    const merged: BlogFormData = {
+      ...yours,
+      // Keep metadata for images from either version
+      imageMetadata: { ...saved.imageMetadata, ...yours.imageMetadata }
+    };
+    savedOnly.forEach(({ key }) => {
+      Object.assign(merged, { [key]: saved[key] });
+    });
+    conflicts.forEach(({ key }) => {
+      if (getChoice(key) === 'saved') {
+        Object.assign(merged, { [key]: saved[key] });
+      }
+    });
+    onResolve(merged);
+  };
+
+  const renderSide = (key: ConflictField, isText: boolean | undefined, side: Side) => {
+    const formData = side === 'yours' ? yours : saved;
+    const isChosen = getChoice(key) === side;
+
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices(prev => ({ ...prev, [key]: side }))}
+        className={`text-left p-3 rounded-md border-2 transition-colors duration-200 ${
+          isChosen ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+        }`}
+      >
+        <span className="flex items-center mb-2">
+          <span className={`w-3 h-3 rounded-full border mr-2 ${isChosen ? 'bg-blue-600 border-blue-600' : 'border-gray-400'}`} />
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            {side === 'yours' ? 'Your version' : 'Saved version'}
+          </span>
+        </span>
+        {isText
+          ? renderTextSide(diffWords(saved[key] as string, yours[key] as string), side)
+          : <p className="text-sm text-gray-700 whitespace-pre-wrap break-all">{formatValue(key, formData)}</p>}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <GitMerge className="w-5 h-5 mr-2" />
+            Resolve Editing Conflict
+          </h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+            aria-label="Close conflict resolver"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-amber-600 mr-2 flex-shrink-0" />
+            <p className="text-amber-800 text-sm">
+              This post was saved somewhere else{savedAt ? ` at ${new Date(savedAt).toLocaleString()}` : ''} while
+              you were editing it. Pick the version to keep for each field you both changed; words that differ are
+              highlighted.
+            </p>
+          </div>
+
+          {savedOnly.length > 0 && (
+            <p className="mb-6 text-sm text-gray-600">
+              Only the other editor changed {savedOnly.map(({ label }) => label.toLowerCase()).join(', ')}, so
+              the saved version is kept.
+            </p>
+          )}
+
+          {conflicts.length === 0 && (
+            <p className="text-sm text-gray-500">
+              None of the fields you changed were changed there, so there's nothing to choose between.
+            </p>
+          )}
+
+          {conflicts.map(({ key, label, isText }) => (
+            <section key={key} className="mb-6">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">{label}</h4>
+              <div className="grid grid-cols-2 gap-4">
+                {renderSide(key, isText, 'yours')}
+                {renderSide(key, isText, 'saved')}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            The merged version goes back into the editor for you to review and save.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleResolve}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200"
+            >
+              Use Selected Changes
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
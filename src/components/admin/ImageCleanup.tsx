@@ -0,0 +1,281 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Trash2, Loader, AlertCircle, CheckCircle, FileX, RefreshCw } from 'lucide-react';
+import { imageService, ImageMetadata, OrphanedFile, ImageInUseError } from '../../services/imageService';
+
+interface ImageCleanupProps {
+  onCleanedUp: () => void;
+}
+
+function formatSize(bytes?: number): string {
+  return bytes === undefined ? '' : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Finds images no post uses and bucket files with no image row, and deletes
+ * the ones you pick
+ */
+export default function ImageCleanup({ onCleanedUp }: ImageCleanupProps) {
+  const [unusedImages, setUnusedImages] = useState<ImageMetadata[]>([]);
+  const [orphanedFiles, setOrphanedFiles] = useState<OrphanedFile[]>([]);
+  const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(new Set());
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [scanning, setScanning] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const scan = useCallback(async () => {
+    try {
+      setScanning(true);
+      setError(null);
+      const [images, files] = await Promise.all([
+        imageService.getUnusedImages(),
+        imageService.findOrphanedFiles()
+      ]);
+      setUnusedImages(images);
+      setOrphanedFiles(files);
+      setSelectedImageIds(new Set());
+      setSelectedPaths(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan for unused images');
+    } finally {
+      setScanning(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  const toggle = (set: Set<string>, value: string) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    return next;
+  };
+
+  const handleDelete = async () => {
+    setConfirmDelete(false);
+    setDeleting(true);
+    setError(null);
+    setMessage(null);
+
+    let deletedImages = 0;
+    let skippedImages = 0;
+    const failures: string[] = [];
+
+    // One at a time: each delete re-checks that no post has started using the image
+    for (const id of selectedImageIds) {
+      try {
+        await imageService.deleteImage(id);
+        deletedImages += 1;
+      } catch (err) {
+        if (err instanceof ImageInUseError) {
+          skippedImages += 1;
+        } else {
+          failures.push(err instanceof Error ? err.message : 'Failed to delete image');
+        }
+      }
+    }
+
+    let deletedFiles = 0;
+    if (selectedPaths.size > 0) {
+      try {
+        await imageService.deleteOrphanedFiles(Array.from(selectedPaths));
+        deletedFiles = selectedPaths.size;
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : 'Failed to delete files');
+      }
+    }
+
+    const summary = [
+      deletedImages > 0 && `Deleted ${deletedImages} unused ${deletedImages === 1 ? 'image' : 'images'}`,
+      deletedFiles > 0 && `removed ${deletedFiles} orphaned ${deletedFiles === 1 ? 'file' : 'files'}`,
+      skippedImages > 0 && `kept ${skippedImages} that a post now uses`
+    ].filter(Boolean).join(', ');
+    onCleanedUp();
+    await scan();
+    setMessage(summary ? `${summary}.` : null);
+    if (failures.length > 0) setError(failures.join('. '));
+    setDeleting(false);
+  };
+
+  const selectedCount = selectedImageIds.size + selectedPaths.size;
+  const allImagesSelected = unusedImages.length > 0 && selectedImageIds.size === unusedImages.length;
+  const allFilesSelected = orphanedFiles.length > 0 && selectedPaths.size === orphanedFiles.length;
+
+  if (scanning && !deleting) {
+    return (
+      <div className="flex items-center justify-center p-8 text-gray-600">
+        <Loader className="w-5 h-5 mr-2 animate-spin" />
+        Looking for unused images...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-start">
+          <AlertCircle className="w-4 h-4 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md flex items-start">
+          <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {/* Unused images */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium text-gray-900">
+            Unused Images ({unusedImages.length})
+          </h4>
+          {unusedImages.length > 0 && (
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={allImagesSelected}
+                onChange={() => setSelectedImageIds(allImagesSelected ? new Set() : new Set(unusedImages.map(image => image.id)))}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Select all
+            </label>
+          )}
+        </div>
+        {unusedImages.length === 0 ? (
+          <p className="text-sm text-gray-500">Every uploaded image is used by a post.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+            {unusedImages.map(image => (
+              <label
+                key={image.id}
+                className={`relative block rounded-lg overflow-hidden border-2 cursor-pointer ${
+                  selectedImageIds.has(image.id) ? 'border-red-500' : 'border-transparent'
+                }`}
+              >
+                <img
+                  src={imageService.getOptimizedImageUrl(image, { width: 400 })}
+                  alt={image.altText || image.originalName}
+                  className="w-full aspect-square object-cover"
+                />
+                <input
+                  type="checkbox"
+                  checked={selectedImageIds.has(image.id)}
+                  onChange={() => setSelectedImageIds(prev => toggle(prev, image.id))}
+                  className="absolute top-2 left-2 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                <p className="text-xs text-gray-600 truncate p-1 bg-white" title={image.originalName}>
+                  {image.originalName}
+                </p>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Orphaned files */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium text-gray-900">
+            Orphaned Files ({orphanedFiles.length})
+          </h4>
+          {orphanedFiles.length > 0 && (
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={allFilesSelected}
+                onChange={() => setSelectedPaths(allFilesSelected ? new Set() : new Set(orphanedFiles.map(file => file.path)))}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Select all
+            </label>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mb-2">
+          Files in storage with no image record, left by interrupted uploads or deletions. Files from the last hour are skipped.
+        </p>
+        {orphanedFiles.length === 0 ? (
+          <p className="text-sm text-gray-500">Storage matches the image records.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-64 overflow-y-auto">
+            {orphanedFiles.map(file => (
+              <li key={file.path}>
+                <label className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedPaths.has(file.path)}
+                    onChange={() => setSelectedPaths(prev => toggle(prev, file.path))}
+                    className="mr-3 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                  />
+                  <FileX className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 font-mono text-xs text-gray-700 truncate">{file.path}</span>
+                  <span className="ml-3 text-xs text-gray-500">{formatSize(file.size)}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={scan}
+          disabled={deleting}
+          className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Scan Again
+        </button>
+        <button
+          onClick={() => setConfirmDelete(true)}
+          disabled={deleting || selectedCount === 0}
+          className="inline-flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {deleting ? (
+            <Loader className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Trash2 className="w-4 h-4 mr-2" />
+          )}
+          Delete Selected ({selectedCount})
+        </button>
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      {confirmDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Delete Unused Files</h3>
+            <p className="text-gray-600 mb-6">
+              Delete {selectedImageIds.size > 0 && `${selectedImageIds.size} ${selectedImageIds.size === 1 ? 'image' : 'images'}`}
+              {selectedImageIds.size > 0 && selectedPaths.size > 0 && ' and '}
+              {selectedPaths.size > 0 && `${selectedPaths.size} orphaned ${selectedPaths.size === 1 ? 'file' : 'files'}`}?
+              This action cannot be undone.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setConfirmDelete(false)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
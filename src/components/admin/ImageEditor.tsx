@@ -0,0 +1,426 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { RotateCcw, RotateCw, Crop, Crosshair, Loader, AlertCircle, X } from 'lucide-react';
+import { imageService, ImageMetadata } from '../../services/imageService';
+import {
+  ImageRotation,
+  ImageCrop,
+  FocalPoint,
+  MIN_CROP_FRACTION,
+  rotateBy,
+  getRotatedSize,
+  getCenteredCrop,
+  normalizeCrop,
+  isCropped,
+  isSameCrop,
+  drawEditedImage,
+  getObjectPosition
+} from '../../utils/imageEditUtils';
+
+interface ImageEditorProps {
+  image: ImageMetadata;
+  onSaved: (image: ImageMetadata) => void;
+  onCancel: () => void;
+}
+
+type EditorMode = 'crop' | 'focus';
+
+const ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: 'Square', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+  { label: 'Portrait 3:4', value: 3 / 4 }
+];
+
+// Previews are drawn from the original, scaled down to this width
+const PREVIEW_WIDTH = 1000;
+
+const FULL_FRAME: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+function clampFraction(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Move a focal point from one crop to another so it stays on the same spot,
+ * or drop it if the new crop leaves that spot out
+ */
+function reframeFocalPoint(focalPoint: FocalPoint | undefined, from: ImageCrop, to: ImageCrop): FocalPoint | undefined {
+  if (!focalPoint) return undefined;
+  const x = (from.x + focalPoint.x * from.width - to.x) / to.width;
+  const y = (from.y + focalPoint.y * from.height - to.y) / to.height;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : undefined;
+}
+
+/**
+ * Rotate, crop and set the focal point of an uploaded image. The preview
+ * shows the whole rotated picture with the crop drawn over it.
+ */
+export default function ImageEditor({ image, onSaved, onCancel }: ImageEditorProps) {
+  // Animations would be flattened, so GIFs only get a focal point
+  const canReshape = image.mimeType !== 'image/gif';
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [rotation, setRotation] = useState<ImageRotation>(image.rotation);
+  const [crop, setCrop] = useState<ImageCrop | undefined>(image.crop);
+  const [focalPoint, setFocalPoint] = useState<FocalPoint | undefined>(image.focalPoint);
+  const [mode, setMode] = useState<EditorMode>(canReshape ? 'crop' : 'focus');
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [draftCrop, setDraftCrop] = useState<ImageCrop | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+
+    const loadOriginal = async () => {
+      try {
+        const response = await fetch(image.publicUrl);
+        if (!response.ok) {
+          throw new Error(response.statusText);
+        }
+        loaded = await createImageBitmap(await response.blob());
+        if (cancelled) {
+          loaded.close();
+          return;
+        }
+        setSource(loaded);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load image for editing:', err);
+        setLoadError('Could not load the original image for editing.');
+      }
+    };
+
+    loadOriginal();
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [image.publicUrl]);
+
+  const rotatedSize = source ? getRotatedSize(source.width, source.height, rotation) : null;
+
+  const rotatedPreview = useMemo(
+    () => source ? drawEditedImage(source, { rotation }, PREVIEW_WIDTH).toDataURL('image/jpeg', 0.85) : null,
+    [source, rotation]
+  );
+
+  const editedPreview = useMemo(
+    () => source ? drawEditedImage(source, { rotation, crop }, PREVIEW_WIDTH / 2).toDataURL('image/jpeg', 0.85) : null,
+    [source, rotation, crop]
+  );
+
+  const currentCrop = isCropped(crop) ? crop : FULL_FRAME;
+  const shownCrop = draftCrop ?? currentCrop;
+
+  const hasChanges = rotation !== image.rotation ||
+    !isSameCrop(crop, image.crop) ||
+    focalPoint?.x !== image.focalPoint?.x ||
+    focalPoint?.y !== image.focalPoint?.y;
+
+  // Crop and focal point are measured on the rotated picture, so they start over
+  const handleRotate = (degrees: 90 | -90) => {
+    setRotation(prev => rotateBy(prev, degrees));
+    setCrop(undefined);
+    setFocalPoint(undefined);
+  };
+
+  const changeCrop = (next: ImageCrop | undefined) => {
+    setFocalPoint(prev => reframeFocalPoint(prev, currentCrop, next ?? FULL_FRAME));
+    setCrop(next);
+  };
+
+  const handleAspectRatio = (value: number | null) => {
+    setAspectRatio(value);
+    if (value && rotatedSize) {
+      changeCrop(getCenteredCrop(value, rotatedSize.width, rotatedSize.height));
+    }
+  };
+
+  const handleReset = () => {
+    setRotation(0);
+    setCrop(undefined);
+    setFocalPoint(undefined);
+    setAspectRatio(null);
+  };
+
+  const getPointerFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clampFraction((e.clientX - bounds.left) / bounds.width),
+      y: clampFraction((e.clientY - bounds.top) / bounds.height)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = getPointerFraction(e);
+
+    if (mode === 'focus') {
+      // The focal point is measured on the cropped picture
+      const x = (point.x - shownCrop.x) / shownCrop.width;
+      const y = (point.y - shownCrop.y) / shownCrop.height;
+      if (x >= 0 && x <= 1 && y >= 0 && y <= 1) {
+        setFocalPoint({ x, y });
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = point;
+    setDraftCrop({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start || !rotatedSize) return;
+
+    const point = getPointerFraction(e);
+    let width = Math.abs(point.x - start.x);
+    let height = Math.abs(point.y - start.y);
+
+    if (aspectRatio) {
+      // Follow whichever side the pointer has gone further along, within the picture
+      const heightForWidth = width * rotatedSize.width / (aspectRatio * rotatedSize.height);
+      if (heightForWidth >= height) {
+        height = heightForWidth;
+      } else {
+        width = height * aspectRatio * rotatedSize.height / rotatedSize.width;
+      }
+      const maxHeight = point.y < start.y ? start.y : 1 - start.y;
+      const maxWidth = point.x < start.x ? start.x : 1 - start.x;
+      const fit = Math.min(1, maxWidth / width || 1, maxHeight / height || 1);
+      width *= fit;
+      height *= fit;
+    }
+
+    setDraftCrop({
+      x: point.x < start.x ? start.x - width : start.x,
+      y: point.y < start.y ? start.y - height : start.y,
+      width,
+      height
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStartRef.current) return;
+    dragStartRef.current = null;
+
+    // A click rather than a drag leaves the crop as it was
+    if (draftCrop && draftCrop.width >= MIN_CROP_FRACTION && draftCrop.height >= MIN_CROP_FRACTION) {
+      changeCrop(normalizeCrop(draftCrop));
+    }
+    setDraftCrop(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setSaveError(null);
+      const updated = await imageService.saveImageEdits(image.id, {
+        rotation,
+        crop: isCropped(crop) ? crop : undefined,
+        focalPoint
+      });
+      onSaved(updated);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const objectPosition = getObjectPosition(focalPoint);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-full overflow-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Crop and Focus</h3>
+            <button
+              onClick={onCancel}
+              disabled={saving}
+              className="p-2 hover:bg-gray-100 rounded-full"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {(loadError || saveError) && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md flex items-start">
+              <AlertCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5 flex-shrink-0" />
+              <p className="text-red-700 text-sm">{loadError || saveError}</p>
+            </div>
+          )}
+
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+            <div className="flex bg-gray-100 p-1 rounded-md">
+              <button
+                onClick={() => setMode('crop')}
+                disabled={!canReshape}
+                className={`inline-flex items-center px-3 py-1.5 rounded disabled:opacity-50 ${mode === 'crop' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+              >
+                <Crop className="w-4 h-4 mr-1.5" />
+                Crop
+              </button>
+              <button
+                onClick={() => setMode('focus')}
+                className={`inline-flex items-center px-3 py-1.5 rounded ${mode === 'focus' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+              >
+                <Crosshair className="w-4 h-4 mr-1.5" />
+                Focal Point
+              </button>
+            </div>
+
+            {canReshape && (
+              <>
+                <button
+                  onClick={() => handleRotate(-90)}
+                  className="p-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  title="Rotate left"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRotate(90)}
+                  className="p-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  title="Rotate right"
+                >
+                  <RotateCw className="w-4 h-4" />
+                </button>
+              </>
+            )}
+
+            {mode === 'crop' && canReshape && (
+              <select
+                value={aspectRatio ?? ''}
+                onChange={(e) => handleAspectRatio(e.target.value ? Number(e.target.value) : null)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Crop shape"
+              >
+                {ASPECT_RATIOS.map(option => (
+                  <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                ))}
+              </select>
+            )}
+
+            {mode === 'crop' && isCropped(crop) && (
+              <button onClick={() => changeCrop(undefined)} className="text-blue-600 hover:text-blue-800">
+                Clear crop
+              </button>
+            )}
+            {mode === 'focus' && focalPoint && (
+              <button onClick={() => setFocalPoint(undefined)} className="text-blue-600 hover:text-blue-800">
+                Centre focal point
+              </button>
+            )}
+
+            <button onClick={handleReset} className="ml-auto text-gray-600 hover:text-gray-900">
+              Reset to original
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Editing canvas */}
+            <div className="lg:col-span-2">
+              {rotatedPreview ? (
+                <div className="relative inline-block max-w-full select-none">
+                  <img src={rotatedPreview} alt="" className="block max-w-full max-h-[60vh]" draggable={false} />
+                  <div
+                    className={`absolute inset-0 overflow-hidden touch-none ${mode === 'crop' ? 'cursor-crosshair' : 'cursor-pointer'}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                  >
+                    {(draftCrop || isCropped(crop)) && (
+                      <div
+                        className="absolute border-2 border-white pointer-events-none"
+                        style={{
+                          left: `${shownCrop.x * 100}%`,
+                          top: `${shownCrop.y * 100}%`,
+                          width: `${shownCrop.width * 100}%`,
+                          height: `${shownCrop.height * 100}%`,
+                          boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                        }}
+                      />
+                    )}
+                    {focalPoint && !draftCrop && (
+                      <div
+                        className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-blue-500/60 shadow pointer-events-none"
+                        style={{
+                          left: `${(shownCrop.x + focalPoint.x * shownCrop.width) * 100}%`,
+                          top: `${(shownCrop.y + focalPoint.y * shownCrop.height) * 100}%`
+                        }}
+                      />
+                    )}
+                  </div>
+                </div>
+              ) : !loadError && (
+                <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg">
+                  <Loader className="w-6 h-6 text-gray-400 animate-spin" />
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                {mode === 'crop'
+                  ? 'Drag across the picture to crop it.'
+                  : 'Click the subject of the photo. Layouts that trim the picture keep this point in view.'}
+              </p>
+            </div>
+
+            {/* How layouts will trim it */}
+            <div className="space-y-4">
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">Post header</p>
+                <div className="h-24 bg-gray-100 rounded-md overflow-hidden">
+                  {editedPreview && (
+                    <img src={editedPreview} alt="" className="w-full h-full object-cover" style={{ objectPosition }} />
+                  )}
+                </div>
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">Gallery thumbnail</p>
+                <div className="w-32 h-32 bg-gray-100 rounded-md overflow-hidden">
+                  {editedPreview && (
+                    <img src={editedPreview} alt="" className="w-full h-full object-cover" style={{ objectPosition }} />
+                  )}
+                </div>
+              </div>
+              {rotatedSize && (
+                <p className="text-xs text-gray-500">
+                  {isCropped(crop)
+                    ? `${Math.round(rotatedSize.width * crop.width)}×${Math.round(rotatedSize.height * crop.height)} pixels after cropping.`
+                    : `${rotatedSize.width}×${rotatedSize.height} pixels.`}
+                  {' '}The uploaded original is kept, so you can reset at any time.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !source || !hasChanges}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
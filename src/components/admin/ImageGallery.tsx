@@ -1,6 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Copy, Trash2, Edit3, Eye, X, Check, AlertCircle, Camera, Copyright } from 'lucide-react';
-import { imageService, ImageMetadata } from '../../services/imageService';
+import { Link } from 'react-router-dom';
+import { Copy, Trash2, Edit3, Eye, X, Check, AlertCircle, Camera, Copyright, Search, LayoutGrid, List, Loader, Crop } from 'lucide-react';
+import {
+  imageService,
+  ImageMetadata,
+  ImageUsage,
+  ImageInUseError,
+  ImageLibraryFilters,
+  ImageOrientation,
+  ImageSortOrder,
+  ImageBulkUpdate
+} from '../../services/imageService';
+import { useImageLibrary } from '../../hooks/useImageLibrary';
+import { useImageAlbums } from '../../hooks/useImageAlbums';
+import { ImageAlbum } from '../../types/ImageAlbum';
+import { POST_STATUS_LABELS } from '../../utils/postUtils';
+import { hasCameraDetails, hasGps } from '../../utils/exifUtils';
+import { getObjectPosition } from '../../utils/imageEditUtils';
+import PhotoDetails from '../PhotoDetails';
+import BulkImageEdit from './BulkImageEdit';
+import ImageEditor from './ImageEditor';
 
 interface ImageGalleryProps {
   onImageSelect?: (imageUrl: string) => void;
@@ -8,34 +27,74 @@ interface ImageGalleryProps {
   className?: string;
 }
 
+const SORT_OPTIONS: { value: ImageSortOrder; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'name', label: 'Name' },
+  { value: 'largest', label: 'Largest file' },
+  { value: 'most-used', label: 'Most used' }
+];
+
 export default function ImageGallery({ 
   onImageSelect, 
   showSelectButton = false, 
   className = '' 
 }: ImageGalleryProps) {
-  const [images, setImages] = useState<ImageMetadata[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<ImageLibraryFilters>({ sort: 'newest' });
+  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const {
+    images,
+    usage,
+    total,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    refreshImages,
+    updateLocalImage,
+    removeLocalImage,
+    setImageUsage
+  } = useImageLibrary(filters);
+  const { albums, refreshAlbums } = useImageAlbums();
+  const albumNames = new Map(albums.map(album => [album.id, album.name]));
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<ImageMetadata | null>(null);
   const [editingImage, setEditingImage] = useState<ImageMetadata | null>(null);
+  const [framingImage, setFramingImage] = useState<ImageMetadata | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  // Bulk editing is for the library itself, not when picking an image for a post
+  const selectable = !showSelectButton;
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [bulkSaving, setBulkSaving] = useState(false);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false);
+  const [bulkDeleting, setBulkDeleting] = useState(false);
 
+  // Search once typing pauses, rather than on every keystroke
   useEffect(() => {
-    loadImages();
-  }, []);
+    const timeout = setTimeout(() => {
+      setFilters(prev => ({ ...prev, search: searchInput.trim() || undefined }));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  const loadImages = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const imageList = await imageService.getImages();
-      setImages(imageList);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load images');
-    } finally {
-      setLoading(false);
-    }
+  // A selection only makes sense for the images it was made from
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [filters]);
+
+  const hasFilters = Boolean(
+    filters.search || filters.uploadedFrom || filters.uploadedTo || filters.orientation || filters.usage || filters.albumId
+  );
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters(prev => ({ sort: prev.sort }));
   };
 
   const handleCopyUrl = async (url: string) => {
@@ -50,151 +109,545 @@ export default function ImageGallery({
 
   const handleDeleteImage = async (id: string) => {
     try {
+      setActionError(null);
       await imageService.deleteImage(id);
-      setImages(prev => prev.filter(img => img.id !== id));
+      removeLocalImage(id);
+      setDeleteConfirm(null);
+    } catch (err) {
+      if (err instanceof ImageInUseError) {
+        // A post started using it since the gallery loaded; show which
+        setImageUsage(id, err.usage);
+        return;
+      }
+      setActionError(err instanceof Error ? err.message : 'Failed to delete image');
       setDeleteConfirm(null);
+    }
+  };
+
+  const deleteConfirmUsage = deleteConfirm ? usage.get(deleteConfirm) || [] : [];
+
+  const handleImageFramed = (image: ImageMetadata) => {
+    updateLocalImage(image.id, image);
+    setFramingImage(null);
+    // Rotating can change which orientation it's listed under
+    if (filters.orientation) refreshImages();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = images.length > 0 && images.every(image => selectedIds.has(image.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(images.map(image => image.id)));
+  };
+
+  // Images in the selection that posts use, which bulk delete leaves alone
+  const selectedInUseCount = Array.from(selectedIds).filter(id => (usage.get(id) || []).length > 0).length;
+
+  const handleBulkUpdate = async (changes: ImageBulkUpdate) => {
+    const ids = Array.from(selectedIds);
+    try {
+      setBulkSaving(true);
+      setBulkError(null);
+      setActionError(null);
+      setActionMessage(null);
+
+      const updated = await imageService.updateImagesMetadata(ids, changes);
+      updated.forEach(image => updateLocalImage(image.id, image));
+      setActionMessage(`Updated ${updated.length} ${updated.length === 1 ? 'image' : 'images'}.`);
+      setShowBulkEdit(false);
+      setSelectedIds(new Set());
+
+      if (changes.albumId !== undefined) {
+        refreshAlbums();
+        if (filters.albumId) refreshImages();
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete image');
+      // Nothing was saved; keep the form open so the changes can be retried, and
+      // reload in case the images were changed elsewhere
+      setBulkError(err instanceof Error ? err.message : 'Failed to update images');
+      refreshImages();
+    } finally {
+      setBulkSaving(false);
     }
   };
 
+  const handleBulkDelete = async () => {
+    setBulkDeleting(true);
+    setActionError(null);
+    setActionMessage(null);
+
+    let deleted = 0;
+    let kept = 0;
+    const failures: string[] = [];
+
+    // One at a time, like the cleanup tool: each delete re-checks that no post uses the image
+    for (const id of Array.from(selectedIds)) {
+      if ((usage.get(id) || []).length > 0) {
+        kept += 1;
+        continue;
+      }
+
+      try {
+        await imageService.deleteImage(id);
+        removeLocalImage(id);
+        deleted += 1;
+      } catch (err) {
+        if (err instanceof ImageInUseError) {
+          setImageUsage(id, err.usage);
+          kept += 1;
+        } else {
+          failures.push(err instanceof Error ? err.message : 'Failed to delete image');
+        }
+      }
+    }
+
+    const summary = [
+      deleted > 0 && `Deleted ${deleted} ${deleted === 1 ? 'image' : 'images'}`,
+      kept > 0 && `kept ${kept} that ${kept === 1 ? 'a post uses' : 'posts use'}`
+    ].filter(Boolean).join(', ');
+    setActionMessage(summary ? `${summary.charAt(0).toUpperCase()}${summary.slice(1)}.` : null);
+    if (failures.length > 0) {
+      setActionError(failures[0]);
+    }
+    if (deleted > 0) {
+      refreshAlbums();
+    }
+
+    setSelectedIds(new Set());
+    setBulkDeleteConfirm(false);
+    setBulkDeleting(false);
+  };
+
   const handleUpdateMetadata = async (id: string, metadata: Partial<ImageMetadata>) => {
+    const movedAlbum = editingImage?.albumId !== metadata.albumId;
     try {
+      setActionError(null);
       await imageService.updateImageMetadata(id, metadata);
-      setImages(prev => prev.map(img => 
-        img.id === id ? { ...img, ...metadata } : img
-      ));
+      updateLocalImage(id, metadata);
       setEditingImage(null);
+
+      if (movedAlbum) {
+        refreshAlbums();
+        // It may have left the album being shown
+        if (filters.albumId) refreshImages();
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update image');
+      setActionError(err instanceof Error ? err.message : 'Failed to update image');
+      setEditingImage(null);
     }
   };
 
-  if (loading) {
-    return (
-      <div className={`flex items-center justify-center p-8 ${className}`}>
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
-          <p className="text-gray-600">Loading images...</p>
+  const renderActions = (image: ImageMetadata) => (
+    <>
+      <button
+        onClick={() => setSelectedImage(image)}
+        className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
+        title="View details"
+      >
+        <Eye className="w-4 h-4 text-gray-700" />
+      </button>
+
+      {/* Copied and selected URLs are the original, which ties posts to the image; pages show it as edited */}
+      <button
+        onClick={() => handleCopyUrl(image.publicUrl)}
+        className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
+        title="Copy URL"
+      >
+        {copiedUrl === image.publicUrl ? (
+          <Check className="w-4 h-4 text-green-600" />
+        ) : (
+          <Copy className="w-4 h-4 text-gray-700" />
+        )}
+      </button>
+
+      {showSelectButton && onImageSelect && (
+        <button
+          onClick={() => onImageSelect(image.publicUrl)}
+          className="p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors duration-200"
+          title="Select image"
+        >
+          <Check className="w-4 h-4" />
+        </button>
+      )}
+
+      <button
+        onClick={() => setEditingImage(image)}
+        className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
+        title="Edit metadata"
+      >
+        <Edit3 className="w-4 h-4 text-gray-700" />
+      </button>
+
+      {selectable && (
+        <button
+          onClick={() => setFramingImage(image)}
+          className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
+          title="Crop, rotate and set focal point"
+        >
+          <Crop className="w-4 h-4 text-gray-700" />
+        </button>
+      )}
+
+      <button
+        onClick={() => setDeleteConfirm(image.id)}
+        className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
+        title="Delete image"
+      >
+        <Trash2 className="w-4 h-4 text-red-600" />
+      </button>
+    </>
+  );
+
+  const renderImages = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center p-8">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+            <p className="text-gray-600">Loading images...</p>
+          </div>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  if (error) {
-    return (
-      <div className={`p-4 ${className}`}>
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center">
-          <AlertCircle className="w-5 h-5 text-red-500 mr-3" />
-          <div>
-            <p className="text-red-700 font-medium">Error loading images</p>
-            <p className="text-red-600 text-sm">{error}</p>
-            <button
-              onClick={loadImages}
-              className="mt-2 text-red-600 hover:text-red-800 text-sm font-medium"
-            >
-              Try again
-            </button>
+    if (error && images.length === 0) {
+      return (
+        <div className="p-4">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-500 mr-3" />
+            <div>
+              <p className="text-red-700 font-medium">Error loading images</p>
+              <p className="text-red-600 text-sm">{error}</p>
+              <button
+                onClick={refreshImages}
+                className="mt-2 text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                Try again
+              </button>
+            </div>
           </div>
         </div>
-      </div>
-    );
-  }
+      );
+    }
 
-  return (
-    <div className={className}>
-      {images.length === 0 ? (
+    if (images.length === 0) {
+      return (
         <div className="text-center py-8">
-          <p className="text-gray-500">No images uploaded yet.</p>
+          <p className="text-gray-500">
+            {hasFilters ? 'No images match these filters.' : 'No images uploaded yet.'}
+          </p>
+          {hasFilters && (
+            <button onClick={clearFilters} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+              Clear filters
+            </button>
+          )}
         </div>
-      ) : (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-          {images.map((image) => (
-            <div
-              key={image.id}
-              className="group relative bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow duration-200"
-            >
-              <div className="aspect-square overflow-hidden">
-                <img
-                  src={image.publicUrl}
-                  alt={image.altText || image.originalName}
-                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+      );
+    }
+
+    if (viewMode === 'list') {
+      return (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+          {images.map(image => (
+            <li key={image.id} className={`flex items-center space-x-4 p-3 ${selectedIds.has(image.id) ? 'bg-blue-50' : ''}`}>
+              {selectable && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(image.id)}
+                  onChange={() => toggleSelected(image.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded flex-shrink-0"
+                  aria-label={`Select ${image.originalName}`}
                 />
+              )}
+              <img
+                src={imageService.getOptimizedImageUrl(image, { width: 400 })}
+                alt={image.altText || image.originalName}
+                className="w-16 h-16 object-cover rounded-md flex-shrink-0"
+                style={{ objectPosition: getObjectPosition(image.focalPoint) }}
+                loading="lazy"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 truncate" title={image.originalName}>
+                  {image.originalName}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {image.caption || image.altText || 'No caption'}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {new Date(image.createdAt).toLocaleDateString()}
+                  {' '}• {(image.fileSize / 1024 / 1024).toFixed(1)} MB
+                  {image.width && image.height && <span> • {image.width}×{image.height}</span>}
+                  {' '}• {image.photographer}
+                  {image.albumId && albumNames.has(image.albumId) && ` • ${albumNames.get(image.albumId)}`}
+                </p>
+              </div>
+              <ImageUsageBadge usage={usage.get(image.id)} className="flex-shrink-0" />
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                {renderActions(image)}
               </div>
+            </li>
+          ))}
+        </ul>
+      );
+    }
 
-              {/* Overlay with actions */}
-              <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all duration-200 flex items-center justify-center">
-                <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex space-x-2">
-                  <button
-                    onClick={() => setSelectedImage(image)}
-                    className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
-                    title="View details"
-                  >
-                    <Eye className="w-4 h-4 text-gray-700" />
-                  </button>
-                  
-                  <button
-                    onClick={() => handleCopyUrl(image.publicUrl)}
-                    className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
-                    title="Copy URL"
-                  >
-                    {copiedUrl === image.publicUrl ? (
-                      <Check className="w-4 h-4 text-green-600" />
-                    ) : (
-                      <Copy className="w-4 h-4 text-gray-700" />
-                    )}
-                  </button>
-
-                  {showSelectButton && onImageSelect && (
-                    <button
-                      onClick={() => onImageSelect(image.publicUrl)}
-                      className="p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors duration-200"
-                      title="Select image"
-                    >
-                      <Check className="w-4 h-4" />
-                    </button>
-                  )}
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+        {images.map((image) => (
+          <div
+            key={image.id}
+            className={`group relative bg-white rounded-lg shadow-sm border overflow-hidden hover:shadow-md transition-shadow duration-200 ${
+              selectedIds.has(image.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+            }`}
+          >
+            <div className="aspect-square overflow-hidden">
+              <img
+                src={imageService.getOptimizedImageUrl(image, { width: 400 })}
+                alt={image.altText || image.originalName}
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
+                style={{ objectPosition: getObjectPosition(image.focalPoint) }}
+                loading="lazy"
+              />
+            </div>
 
-                  <button
-                    onClick={() => setEditingImage(image)}
-                    className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
-                    title="Edit metadata"
-                  >
-                    <Edit3 className="w-4 h-4 text-gray-700" />
-                  </button>
-
-                  <button
-                    onClick={() => setDeleteConfirm(image.id)}
-                    className="p-2 bg-white rounded-full hover:bg-gray-100 transition-colors duration-200"
-                    title="Delete image"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-600" />
-                  </button>
-                </div>
+            <ImageUsageBadge usage={usage.get(image.id)} className="absolute top-2 left-2" />
+
+            {/* Overlay with actions */}
+            <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all duration-200 flex items-center justify-center">
+              <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex space-x-2">
+                {renderActions(image)}
               </div>
+            </div>
 
-              {/* Image info */}
-              <div className="p-3">
-                <p className="text-xs text-gray-600 truncate" title={image.originalName}>
-                  {image.originalName}
+            {selectable && (
+              <label
+                className={`absolute top-2 right-2 p-1 bg-white rounded shadow-sm cursor-pointer transition-opacity duration-200 ${
+                  selectedIds.has(image.id) ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(image.id)}
+                  onChange={() => toggleSelected(image.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded block"
+                  aria-label={`Select ${image.originalName}`}
+                />
+              </label>
+            )}
+
+            {/* Image info */}
+            <div className="p-3">
+              <p className="text-xs text-gray-600 truncate" title={image.originalName}>
+                {image.originalName}
+              </p>
+              <div className="flex items-center justify-between mt-1">
+                <p className="text-xs text-gray-400">
+                  {(image.fileSize / 1024 / 1024).toFixed(1)} MB
+                  {image.width && image.height && (
+                    <span> • {image.width}×{image.height}</span>
+                  )}
                 </p>
-                <div className="flex items-center justify-between mt-1">
-                  <p className="text-xs text-gray-400">
-                    {(image.fileSize / 1024 / 1024).toFixed(1)} MB
-                    {image.width && image.height && (
-                      <span> • {image.width}×{image.height}</span>
-                    )}
-                  </p>
-                  <div className="flex items-center text-xs text-gray-500">
-                    <Camera className="w-3 h-3 mr-1" />
-                    <span className="truncate max-w-16" title={image.photographer}>
-                      {image.photographer}
-                    </span>
-                  </div>
+                <div className="flex items-center text-xs text-gray-500">
+                  <Camera className="w-3 h-3 mr-1" />
+                  <span className="truncate max-w-16" title={image.photographer}>
+                    {image.photographer}
+                  </span>
                 </div>
               </div>
             </div>
-          ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={className}>
+      {/* Filters */}
+      <div className="mb-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Search filename, caption, alt text or photographer"
+            />
+          </div>
+          <select
+            value={filters.sort || 'newest'}
+            onChange={(e) => setFilters(prev => ({ ...prev, sort: e.target.value as ImageSortOrder }))}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Sort images"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <div className="flex bg-gray-100 p-1 rounded-md">
+            <button
+              onClick={() => setViewMode('grid')}
+              className={`p-1.5 rounded ${viewMode === 'grid' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+              title="Grid view"
+            >
+              <LayoutGrid className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setViewMode('list')}
+              className={`p-1.5 rounded ${viewMode === 'list' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+              title="List view"
+            >
+              <List className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center text-gray-600">
+            Uploaded from
+            <input
+              type="date"
+              value={filters.uploadedFrom || ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, uploadedFrom: e.target.value || undefined }))}
+              className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="flex items-center text-gray-600">
+            to
+            <input
+              type="date"
+              value={filters.uploadedTo || ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, uploadedTo: e.target.value || undefined }))}
+              className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <select
+            value={filters.albumId || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, albumId: e.target.value || undefined }))}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Album"
+          >
+            <option value="">All albums</option>
+            <option value="none">Not in an album</option>
+            {albums.map(album => (
+              <option key={album.id} value={album.id}>{album.name} ({album.imageCount})</option>
+            ))}
+          </select>
+          <select
+            value={filters.orientation || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, orientation: (e.target.value || undefined) as ImageOrientation | undefined }))}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Orientation"
+          >
+            <option value="">Any orientation</option>
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait</option>
+            <option value="square">Square</option>
+          </select>
+          <select
+            value={filters.usage || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, usage: (e.target.value || undefined) as ImageLibraryFilters['usage'] }))}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Usage"
+          >
+            <option value="">Used or unused</option>
+            <option value="used">Used in posts</option>
+            <option value="unused">Unused</option>
+          </select>
+          {hasFilters && (
+            <button onClick={clearFilters} className="text-blue-600 hover:text-blue-800">
+              Clear filters
+            </button>
+          )}
+          {!loading && (
+            <span className="ml-auto text-gray-500">
+              {images.length} of {total} {total === 1 ? 'image' : 'images'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {actionError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md flex items-center justify-between">
+          <p className="text-red-700 text-sm">{actionError}</p>
+          <button onClick={() => setActionError(null)} className="text-red-500 hover:text-red-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {actionMessage && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md flex items-center justify-between">
+          <p className="text-green-700 text-sm">{actionMessage}</p>
+          <button onClick={() => setActionMessage(null)} className="text-green-600 hover:text-green-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Selection bar */}
+      {selectable && !loading && images.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleSelectAll}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+            />
+            Select all {images.length} shown
+          </label>
+          {selectedIds.size > 0 && (
+            <>
+              <span className="text-gray-900 font-medium">{selectedIds.size} selected</span>
+              <button
+                onClick={() => setShowBulkEdit(true)}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                <Edit3 className="w-4 h-4 mr-1.5" />
+                Edit Details
+              </button>
+              <button
+                onClick={() => setBulkDeleteConfirm(true)}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4 mr-1.5" />
+                Delete
+              </button>
+              <button onClick={() => setSelectedIds(new Set())} className="text-blue-600 hover:text-blue-800">
+                Clear selection
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {renderImages()}
+
+      {!loading && images.length > 0 && (hasMore || error) && (
+        <div className="mt-6 text-center">
+          {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loadingMore && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            {loadingMore ? 'Loading...' : `Load more (${total - images.length} left)`}
+          </button>
         </div>
       )}
 
@@ -216,7 +669,7 @@ export default function ImageGallery({
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div>
                   <img
-                    src={selectedImage.publicUrl}
+                    src={imageService.getOptimizedImageUrl(selectedImage, { width: 1600 })}
                     alt={selectedImage.altText || selectedImage.originalName}
                     className="w-full rounded-lg"
                   />
@@ -271,7 +724,28 @@ export default function ImageGallery({
                       <p className="text-sm text-gray-900">{selectedImage.caption}</p>
                     </div>
                   )}
+
+                  {hasCameraDetails(selectedImage.exif) && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Camera</label>
+                      <PhotoDetails exif={selectedImage.exif} className="text-gray-900" />
+                    </div>
+                  )}
+
+                  {hasGps(selectedImage.exif) && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Location</label>
+                      <p className="text-sm text-gray-900">
+                        {selectedImage.exif.gpsLatitude?.toFixed(5)}, {selectedImage.exif.gpsLongitude?.toFixed(5)}
+                      </p>
+                    </div>
+                  )}
                   
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Used In</label>
+                    <ImageUsageList usage={usage.get(selectedImage.id)} />
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Public URL</label>
                     <div className="flex items-center space-x-2">
@@ -289,6 +763,27 @@ export default function ImageGallery({
                       </button>
                     </div>
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Post Shortcode</label>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={`{{image id="${selectedImage.id}"}}`}
+                        readOnly
+                        className="flex-1 text-sm font-mono bg-gray-50 border border-gray-300 rounded px-3 py-2"
+                      />
+                      <button
+                        onClick={() => handleCopyUrl(`{{image id="${selectedImage.id}"}}`)}
+                        className="p-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Paste on its own line in post content to show this photo inline.
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
@@ -300,32 +795,112 @@ export default function ImageGallery({
       {editingImage && (
         <EditImageModal
           image={editingImage}
+          albums={albums}
           onSave={handleUpdateMetadata}
           onCancel={() => setEditingImage(null)}
         />
       )}
 
+      {/* Crop and Focus Modal */}
+      {framingImage && (
+        <ImageEditor
+          image={framingImage}
+          onSaved={handleImageFramed}
+          onCancel={() => setFramingImage(null)}
+        />
+      )}
+
+      {/* Bulk Edit Modal */}
+      {showBulkEdit && (
+        <BulkImageEdit
+          count={selectedIds.size}
+          albums={albums}
+          saving={bulkSaving}
+          error={bulkError}
+          onSave={handleBulkUpdate}
+          onCancel={() => {
+            setShowBulkEdit(false);
+            setBulkError(null);
+          }}
+        />
+      )}
+
+      {/* Bulk Delete Confirmation Modal */}
+      {bulkDeleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Delete Images</h3>
+            {selectedInUseCount === selectedIds.size ? (
+              <p className="text-gray-600 mb-6">
+                {selectedIds.size === 1 ? 'The selected image is' : 'All the selected images are'} used in posts,
+                so there is nothing to delete. Remove them from their posts first.
+              </p>
+            ) : (
+              <p className="text-gray-600 mb-6">
+                Delete {selectedIds.size - selectedInUseCount} of the {selectedIds.size} selected images? This action cannot be undone.
+                {selectedInUseCount > 0 && (
+                  <> {selectedInUseCount} {selectedInUseCount === 1 ? 'image is' : 'images are'} used in posts and will be kept.</>
+                )}
+              </p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setBulkDeleteConfirm(false)}
+                disabled={bulkDeleting}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              >
+                {selectedInUseCount === selectedIds.size ? 'Close' : 'Cancel'}
+              </button>
+              {selectedInUseCount < selectedIds.size && (
+                <button
+                  onClick={handleBulkDelete}
+                  disabled={bulkDeleting}
+                  className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  {bulkDeleting && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+                  {bulkDeleting ? 'Deleting...' : 'Delete'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Delete Image</h3>
-            <p className="text-gray-600 mb-6">
-              Are you sure you want to delete this image? This action cannot be undone.
-            </p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {deleteConfirmUsage.length > 0 ? 'Image In Use' : 'Delete Image'}
+            </h3>
+            {deleteConfirmUsage.length > 0 ? (
+              <div className="mb-6">
+                <p className="text-gray-600 mb-3">
+                  Deleting this image would break {deleteConfirmUsage.length === 1 ? 'the post' : 'the posts'} below.
+                  Remove it from them first.
+                </p>
+                <ImageUsageList usage={deleteConfirmUsage} />
+              </div>
+            ) : (
+              <p className="text-gray-600 mb-6">
+                Are you sure you want to delete this image? This action cannot be undone.
+              </p>
+            )}
             <div className="flex justify-end space-x-3">
               <button
                 onClick={() => setDeleteConfirm(null)}
                 className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
               >
-                Cancel
-              </button>
-              <button
-                onClick={() => handleDeleteImage(deleteConfirm)}
-                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
-              >
-                Delete
+                {deleteConfirmUsage.length > 0 ? 'Close' : 'Cancel'}
               </button>
+              {deleteConfirmUsage.length === 0 && (
+                <button
+                  onClick={() => handleDeleteImage(deleteConfirm)}
+                  className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+                >
+                  Delete
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -334,24 +909,74 @@ export default function ImageGallery({
   );
 }
 
+/**
+ * Where an image appears in a post, for the usage list
+ */
+function describePlacement(item: ImageUsage): string {
+  return [
+    item.inMainImage && 'main image',
+    item.inGallery && 'gallery',
+    item.inContent && 'inline'
+  ].filter(Boolean).join(', ');
+}
+
+// Badge saying how many posts use an image
+function ImageUsageBadge({ usage = [], className = '' }: { usage?: ImageUsage[]; className?: string }) {
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+        usage.length > 0 ? 'bg-blue-600 text-white' : 'bg-white bg-opacity-90 text-gray-600 border border-gray-200'
+      } ${className}`}
+      title={usage.map(item => item.postTitle).join('\n') || undefined}
+    >
+      {usage.length > 0 ? `Used in ${usage.length === 1 ? '1 post' : `${usage.length} posts`}` : 'Unused'}
+    </span>
+  );
+}
+
+// Links to the posts that use an image
+function ImageUsageList({ usage = [] }: { usage?: ImageUsage[] }) {
+  if (usage.length === 0) {
+    return <p className="text-sm text-gray-500">Not used in any posts</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {usage.map(item => (
+        <li key={item.postId} className="text-sm">
+          <Link to={`/admin/edit/${item.postId}`} className="text-blue-600 hover:text-blue-800">
+            {item.postTitle}
+          </Link>
+          <span className="text-gray-500">
+            {' '}• {describePlacement(item)}
+            {item.postStatus !== 'published' && ` • ${POST_STATUS_LABELS[item.postStatus]}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 // Edit Image Modal Component
 interface EditImageModalProps {
   image: ImageMetadata;
+  albums: ImageAlbum[];
   onSave: (id: string, metadata: Partial<ImageMetadata>) => void;
   onCancel: () => void;
 }
 
-function EditImageModal({ image, onSave, onCancel }: EditImageModalProps) {
+function EditImageModal({ image, albums, onSave, onCancel }: EditImageModalProps) {
   const [formData, setFormData] = useState({
     altText: image.altText || '',
     caption: image.caption || '',
     photographer: image.photographer,
-    copyright: image.copyright
+    copyright: image.copyright,
+    albumId: image.albumId || ''
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(image.id, formData);
+    onSave(image.id, { ...formData, albumId: formData.albumId || undefined });
   };
 
   return (
@@ -420,6 +1045,22 @@ function EditImageModal({ image, onSave, onCancel }: EditImageModalProps) {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Album
+                </label>
+                <select
+                  value={formData.albumId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, albumId: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No album</option>
+                  {albums.map(album => (
+                    <option key={album.id} value={album.id}>{album.name}</option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
 
@@ -1,19 +1,36 @@
 import React, { useState } from 'react';
-import { Upload, RefreshCw } from 'lucide-react';
+import { Upload, RefreshCw, Trash2, FolderOpen } from 'lucide-react';
 import ImageUpload from './ImageUpload';
 import ImageGallery from './ImageGallery';
+import ImageCleanup from './ImageCleanup';
+import AlbumManager from './AlbumManager';
 import { ImageUploadResult } from '../../services/imageService';
+import { useDocumentHead } from '../../hooks/useDocumentHead';
+import { useImageAlbums } from '../../hooks/useImageAlbums';
 
 export default function ImageManager() {
   const [showUpload, setShowUpload] = useState(false);
+  const [showCleanup, setShowCleanup] = useState(false);
+  const [showAlbums, setShowAlbums] = useState(false);
+  const [uploadAlbumId, setUploadAlbumId] = useState('');
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const { albums, refreshAlbums } = useImageAlbums();
+  useDocumentHead({ title: 'Admin: Images', noIndex: true });
 
   const handleImageUploaded = (result: ImageUploadResult) => {
     setUploadError(null);
     setShowUpload(false);
     // Refresh the gallery by changing the key
     setRefreshKey(prev => prev + 1);
+    if (uploadAlbumId) refreshAlbums();
+  };
+
+  const handleImagesUploaded = () => {
+    setUploadError(null);
+    setShowUpload(false);
+    setRefreshKey(prev => prev + 1);
+    if (uploadAlbumId) refreshAlbums();
   };
 
   const handleRefresh = () => {
@@ -34,6 +51,20 @@ export default function ImageManager() {
               <RefreshCw className="w-4 h-4 mr-2" />
               Refresh
             </button>
+            <button
+              onClick={() => setShowAlbums(true)}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+            >
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Albums
+            </button>
+            <button
+              onClick={() => setShowCleanup(true)}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Find Unused
+            </button>
             <button
               onClick={() => setShowUpload(true)}
               className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors duration-200"
@@ -76,14 +107,70 @@ export default function ImageManager() {
               </div>
             )}
 
+            {albums.length > 0 && (
+              <div className="mb-4">
+                <label htmlFor="upload-album" className="block text-sm font-medium text-gray-700 mb-1">
+                  Add to album
+                </label>
+                <select
+                  id="upload-album"
+                  value={uploadAlbumId}
+                  onChange={(e) => setUploadAlbumId(e.target.value)}
+                  className="w-full sm:w-64 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No album</option>
+                  {albums.map(album => (
+                    <option key={album.id} value={album.id}>{album.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <ImageUpload
               onImageUploaded={handleImageUploaded}
+              onImagesUploaded={handleImagesUploaded}
               onError={setUploadError}
+              multiple
               folder="blog-images"
+              albumId={uploadAlbumId || undefined}
             />
           </div>
         )}
 
+        {/* Albums Section */}
+        {showAlbums && (
+          <div className="mb-8 p-6 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Albums</h3>
+              <button
+                onClick={() => setShowAlbums(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ×
+              </button>
+            </div>
+
+            <AlbumManager />
+          </div>
+        )}
+
+        {/* Cleanup Section */}
+        {showCleanup && (
+          <div className="mb-8 p-6 bg-gray-50 rounded-lg border border-gray-200">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Clean Up Storage</h3>
+              <button
+                onClick={() => setShowCleanup(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ×
+              </button>
+            </div>
+
+            <ImageCleanup onCleanedUp={handleRefresh} />
+          </div>
+        )}
+
         {/* Image Gallery */}
         <ImageGallery key={refreshKey} />
       </div>
@@ -1,40 +1,57 @@
 import React, { useState, useRef } from 'react';
-import { Upload, Image as ImageIcon, Loader } from 'lucide-react';
-import { imageService, ImageUploadResult } from '../../services/imageService';
+import { Upload, Image as ImageIcon, Loader, Copy } from 'lucide-react';
+import { imageService, ImageUploadResult, ImageDuplicate } from '../../services/imageService';
+import { ImageHashes } from '../../utils/imageHashUtils';
+import BatchImageUpload from './BatchImageUpload';
 
 interface ImageUploadProps {
   onImageUploaded: (result: ImageUploadResult) => void;
+  onImagesUploaded?: (results: ImageUploadResult[]) => void; // Once per batch, when several files are chosen
   onError?: (error: string) => void;
   className?: string;
   accept?: string;
   multiple?: boolean;
+  maxFiles?: number;
   folder?: string;
+  albumId?: string; // Album new uploads are filed under
 }
 
 export default function ImageUpload({
   onImageUploaded,
+  onImagesUploaded,
   onError,
   className = '',
   accept = 'image/*,.heic,.heif',
   multiple = false,
-  folder
+  maxFiles,
+  folder,
+  albumId
 }: ImageUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string | null>(null);
   const [showMetadataForm, setShowMetadataForm] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [fileHashes, setFileHashes] = useState<ImageHashes | null>(null);
+  const [duplicates, setDuplicates] = useState<ImageDuplicate[]>([]);
   const [metadata, setMetadata] = useState({
     photographer: '',
     copyright: '',
     altText: '',
-    caption: ''
+    caption: '',
+    stripGps: true
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFiles = async (files: FileList) => {
     if (files.length === 0) return;
 
+    if (multiple && files.length > 1) {
+      handleBatch(Array.from(files));
+      return;
+    }
+
     const file = files[0];
 
     // Validate file
@@ -44,10 +61,70 @@ export default function ImageUpload({
       return;
     }
 
+    // Look for the photo in the library before asking for its details
+    setIsUploading(true);
+    setUploadProgress('Checking the library...');
+    const hashes = await imageService.hashImageFile(file);
+    const matches = hashes ? await imageService.findDuplicateImages(hashes) : [];
+    setIsUploading(false);
+    setUploadProgress(null);
+
+    setFileHashes(hashes);
+    setDuplicates(matches);
     setSelectedFile(file);
     setShowMetadataForm(true);
   };
 
+  const handleUseExisting = (duplicate: ImageDuplicate) => {
+    onImageUploaded(imageService.toUploadResult(duplicate.image));
+    handleCancel();
+  };
+
+  const handleBatch = (files: File[]) => {
+    const valid: File[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      const validation = imageService.validateImageFile(file);
+      if (validation.valid) {
+        valid.push(file);
+      } else {
+        rejected.push(`${file.name}: ${validation.error || 'Invalid file'}`);
+      }
+    }
+
+    const accepted = maxFiles !== undefined ? valid.slice(0, maxFiles) : valid;
+    if (accepted.length < valid.length) {
+      rejected.push(`Only ${maxFiles} more images fit, so the last ${valid.length - accepted.length} were left out`);
+    }
+
+    if (rejected.length > 0) {
+      onError?.(rejected.join('. '));
+    }
+    if (accepted.length > 0) {
+      setBatchFiles(accepted);
+    }
+  };
+
+  const handleBatchComplete = (results: ImageUploadResult[]) => {
+    setBatchFiles(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    if (onImagesUploaded) {
+      onImagesUploaded(results);
+    } else {
+      results.forEach(onImageUploaded);
+    }
+  };
+
+  const handleBatchCancel = () => {
+    setBatchFiles(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
   const handleUpload = async () => {
     if (!selectedFile) return;
 
@@ -72,7 +149,10 @@ export default function ImageUpload({
         photographer: metadata.photographer || 'Kate Goldenring',
         copyright: metadata.copyright || '© 2024 Continued Education Blog. All rights reserved.',
         altText: metadata.altText,
-        caption: metadata.caption
+        caption: metadata.caption,
+        stripGps: metadata.stripGps,
+        hashes: fileHashes ?? undefined,
+        albumId
       });
 
       setUploadProgress('Upload complete!');
@@ -80,12 +160,15 @@ export default function ImageUpload({
 
       // Reset form
       setSelectedFile(null);
+      setFileHashes(null);
+      setDuplicates([]);
       setShowMetadataForm(false);
       setMetadata({
         photographer: '',
         copyright: '',
         altText: '',
-        caption: ''
+        caption: '',
+        stripGps: true
       });
 
       // Clear progress after a short delay
@@ -106,12 +189,15 @@ export default function ImageUpload({
 
   const handleCancel = () => {
     setSelectedFile(null);
+    setFileHashes(null);
+    setDuplicates([]);
     setShowMetadataForm(false);
     setMetadata({
       photographer: '',
       copyright: '',
       altText: '',
-      caption: ''
+      caption: '',
+      stripGps: true
     });
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -161,6 +247,20 @@ export default function ImageUpload({
     return file.name;
   };
 
+  if (batchFiles) {
+    return (
+      <div className={className}>
+        <BatchImageUpload
+          files={batchFiles}
+          folder={folder}
+          albumId={albumId}
+          onComplete={handleBatchComplete}
+          onCancel={handleBatchCancel}
+        />
+      </div>
+    );
+  }
+
   if (showMetadataForm && selectedFile) {
     return (
       <div className={`bg-white border border-gray-300 rounded-lg p-6 ${className}`}>
@@ -173,6 +273,45 @@ export default function ImageUpload({
           </div>
         </div>
 
+        {duplicates.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-md">
+            <div className="flex items-start mb-3">
+              <Copy className="w-5 h-5 text-amber-600 mr-2 flex-shrink-0" />
+              <p className="text-sm text-amber-800">
+                {duplicates[0].exact
+                  ? 'This file is already in the library. Use the existing image instead of storing a second copy?'
+                  : 'This looks like a photo that\'s already in the library. Use the existing image, or upload this one as a new image?'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              {duplicates.map(duplicate => (
+                <div key={duplicate.image.id} className="flex items-center space-x-3 bg-white rounded-md p-2 border border-amber-100">
+                  <img
+                    src={imageService.getOptimizedImageUrl(duplicate.image, { width: 400 })}
+                    alt={duplicate.image.altText || duplicate.image.originalName}
+                    className="w-16 h-16 object-cover rounded"
+                  />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="text-gray-900 truncate">{duplicate.image.originalName}</p>
+                    <p className="text-xs text-gray-500">
+                      {duplicate.exact ? 'Same file' : 'Looks the same'}
+                      {duplicate.image.width && duplicate.image.height && ` • ${duplicate.image.width}×${duplicate.image.height}`}
+                      {' '}• uploaded {new Date(duplicate.image.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleUseExisting(duplicate)}
+                    className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors duration-200"
+                  >
+                    Use This Image
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -231,6 +370,21 @@ export default function ImageUpload({
               placeholder="Optional caption for the image"
             />
           </div>
+
+          <div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={metadata.stripGps}
+                onChange={(e) => setMetadata(prev => ({ ...prev, stripGps: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Remove location (GPS) data
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Camera settings are kept either way. Uncheck to keep where the photo was taken.
+            </p>
+          </div>
         </div>
 
         <div className="flex justify-end space-x-3 mt-6">
@@ -254,7 +408,7 @@ export default function ImageUpload({
             ) : (
               <>
                 <Upload className="w-4 h-4 mr-2" />
-                Upload Image
+                {duplicates.length > 0 ? 'Upload Anyway' : 'Upload Image'}
               </>
             )}
           </button>
@@ -309,7 +463,7 @@ export default function ImageUpload({
 
         {dragActive && (
           <div className="absolute inset-0 bg-blue-50 bg-opacity-50 rounded-lg flex items-center justify-center">
-            <div className="text-blue-600 font-medium">Drop image here</div>
+            <div className="text-blue-600 font-medium">Drop {multiple ? 'images' : 'image'} here</div>
           </div>
         )}
       </div>
@@ -1,64 +1,176 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { Save, X, Eye, Plus, Trash2, Image as ImageIcon, Upload, AlertCircle } from 'lucide-react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Save, X, Eye, Plus, Trash2, Image as ImageIcon, Upload, AlertCircle, FileText, Globe, CalendarClock, Archive, History, RotateCcw } from 'lucide-react';
 import { useBlogPosts } from '../../hooks/useBlogPosts';
-import { BlogFormData } from '../../types/BlogPost';
+import { usePost } from '../../hooks/usePost';
+import { useImageMetadataMap } from '../../hooks/useImageMetadata';
+import { usePostContent } from '../../hooks/usePostContent';
+import { useCategories } from '../../hooks/useCategories';
+import { useDocumentHead } from '../../hooks/useDocumentHead';
+import { usePostDraft } from '../../hooks/usePostDraft';
+import { useUnsavedChangesGuard } from '../../hooks/useUnsavedChangesGuard';
+import { BlogPost, BlogFormData, PostStatus } from '../../types/BlogPost';
+import { PostRevision } from '../../types/PostRevision';
 import ImageUpload from './ImageUpload';
 import ImageGallery from './ImageGallery';
 import ImageSourceSelector from './ImageSourceSelector';
+import RevisionHistory from './RevisionHistory';
+import ConflictResolver from './ConflictResolver';
+import PostContent from '../PostContent';
+import ResponsiveImage from '../ResponsiveImage';
+import CategoryBadge from '../CategoryBadge';
+import TagChips from '../TagChips';
+import TagInput from './TagInput';
 import { ImageUploadResult } from '../../services/imageService';
 import { isFlickrImageUrl } from '../../utils/flickrUtils';
+import { IMAGE_SIZES, getImageDisplayUrl } from '../../utils/imageUtils';
+import { blogService, PostConflictError } from '../../services/blogService';
+import { findCategory } from '../../utils/categoryUtils';
+import { PostDraft, loadDraft, clearDraft, isSameFormData } from '../../utils/draftUtils';
+import {
+  POST_STATUS_LABELS,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+  slugify,
+  isValidSlug
+} from '../../utils/postUtils';
+
+const statusOptions: { key: PostStatus; icon: typeof Globe; description: string }[] = [
+  { key: 'draft', icon: FileText, description: 'Only visible in the admin' },
+  { key: 'published', icon: Globe, description: 'Visible to everyone now' },
+  { key: 'scheduled', icon: CalendarClock, description: 'Goes live at a set time' },
+  { key: 'archived', icon: Archive, description: 'Hidden, kept for reference' }
+];
+
+const emptyFormData: BlogFormData = {
+  title: '',
+  slug: '',
+  category: '',
+  imageUrl: '',
+  images: [],
+  excerpt: '',
+  content: '',
+  status: 'draft',
+  tags: []
+};
+
+/**
+ * Fill the form from a saved post
+ */
+function toFormData(post: BlogPost): BlogFormData {
+  return {
+    title: post.title,
+    slug: post.slug,
+    category: post.category,
+    imageUrl: post.imageUrl,
+    images: post.images || [],
+    excerpt: post.excerpt,
+    content: post.content,
+    status: post.status,
+    publishedAt: post.publishedAt,
+    tags: post.tags.map(tag => tag.name),
+    imageMetadata: post.imageMetadata || {}
+  };
+}
 
 export default function PostForm() {
   const navigate = useNavigate();
   const { id } = useParams();
-  const { addBlogPost, updateBlogPost, getBlogPost, loading, error: hookError } = useBlogPosts();
+  const { addBlogPost, updateBlogPost, error: hookError } = useBlogPosts({ includeUnpublished: true, autoLoad: false });
+  const { post: existingPost, loading, error: loadError } = usePost(id, { requireFresh: true });
+  const { categories, loading: categoriesLoading } = useCategories();
   const isEditing = Boolean(id);
-
-  const [formData, setFormData] = useState<BlogFormData>({
-    title: '',
-    category: 'lifestyle',
-    imageUrl: '',
-    images: [],
-    excerpt: '',
-    content: ''
+  useDocumentHead({
+    title: isEditing ? `Admin: Edit ${existingPost?.title || 'Post'}` : 'Admin: New Post',
+    noIndex: true
   });
 
+  const [formData, setFormData] = useState<BlogFormData>(emptyFormData);
+  // The form as last saved, to tell whether there are unsaved changes
+  const [cleanFormData, setCleanFormData] = useState<BlogFormData>(emptyFormData);
+
   const [showPreview, setShowPreview] = useState(false);
   const [showImageSelector, setShowImageSelector] = useState(false);
+  const [showBatchUpload, setShowBatchUpload] = useState(false);
+  const [batchUploadError, setBatchUploadError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [selectingImageFor, setSelectingImageFor] = useState<'main' | number | null>(null);
   const [postLoaded, setPostLoaded] = useState(false);
   const [postNotFound, setPostNotFound] = useState(false);
   const [imageMetadata, setImageMetadata] = useState<Record<string, any>>({});
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [originalSlug, setOriginalSlug] = useState<string | null>(null);
+  const [slugError, setSlugError] = useState<string | null>(null);
+  const [savedPost, setSavedPost] = useState<BlogPost | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // The post as someone else saved it, when saving hit a conflict
+  const [conflictPost, setConflictPost] = useState<BlogPost | null>(null);
+  const [showConflictResolver, setShowConflictResolver] = useState(false);
+  // Unsaved work from an earlier visit, offered back before autosave resumes
+  const [recoveredDraft, setRecoveredDraft] = useState<PostDraft | null>(() => isEditing ? null : loadDraft());
+
+  const formReady = !isEditing || postLoaded;
+  const hasUnsavedChanges = formReady && !isSameFormData(formData, cleanFormData);
+  const { lastSavedAt, discardDraft } = usePostDraft(id, formData, {
+    enabled: formReady && !recoveredDraft,
+    isDirty: hasUnsavedChanges,
+    baseUpdatedAt: savedPost?.updatedAt
+  });
+  const { blocker, allowNavigation } = useUnsavedChangesGuard(hasUnsavedChanges);
+
+  // Resolve inline images so the preview matches the published post
+  const {
+    blocks: contentBlocks,
+    imageIdMap: contentImageIdMap,
+    contentImageUrls,
+    markdownImageUrls
+  } = usePostContent(formData.content);
+  const previewImageUrls = [formData.imageUrl, ...formData.images, ...contentImageUrls, ...markdownImageUrls]
+    .filter(url => url.trim());
+  const { metadataMap: previewMetadataMap } = useImageMetadataMap(previewImageUrls);
+
+  // Default new posts to the first category once categories have loaded
+  useEffect(() => {
+    if (!isEditing && !formData.category && categories.length > 0) {
+      setFormData(prev => ({ ...prev, category: categories[0].slug }));
+      setCleanFormData(prev => ({ ...prev, category: categories[0].slug }));
+    }
+  }, [isEditing, formData.category, categories]);
 
   // Load post data for editing - only run when loading is complete
   useEffect(() => {
     if (isEditing && id && !loading && !postLoaded) {
       console.log('Loading post for editing, ID:', id);
-      const post = getBlogPost(id);
+      const post = existingPost;
       if (post) {
         console.log('Found post:', post.title);
-        setFormData({
-          title: post.title,
-          category: post.category,
-          imageUrl: post.imageUrl,
-          images: post.images || [],
-          excerpt: post.excerpt,
-          content: post.content,
-          imageMetadata: post.imageMetadata || {}
-        });
+        const loadedFormData = toFormData(post);
+        setFormData(loadedFormData);
+        setCleanFormData(loadedFormData);
+        setSavedPost(post);
         setImageMetadata(post.imageMetadata || {});
+        // Keep following the title only if the slug was never customised
+        setSlugEdited(post.slug !== slugify(post.title));
+        setOriginalSlug(post.slug);
         setPostLoaded(true);
         setPostNotFound(false);
+
+        const draft = loadDraft(id);
+        if (draft && !isSameFormData(draft.formData, loadedFormData)) {
+          setRecoveredDraft(draft);
+        } else if (draft) {
+          clearDraft(id);
+        }
+      } else if (loadError) {
+        setSaveError(loadError);
       } else {
         console.warn('Post not found for ID:', id);
         setPostNotFound(true);
         setSaveError('Post not found');
       }
     }
-  }, [id, isEditing, getBlogPost, loading, postLoaded]);
+  }, [id, isEditing, existingPost, loading, loadError, postLoaded]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -81,6 +193,19 @@ export default function PostForm() {
       setSaveError('Main image URL is required');
       return;
     }
+    if (!formData.category || (categories.length > 0 && !findCategory(categories, formData.category))) {
+      setSaveError('Choose a category');
+      return;
+    }
+    if (formData.slug && !isValidSlug(formData.slug)) {
+      setSaveError('URL slug can only contain lowercase letters, numbers and hyphens');
+      return;
+    }
+    if (formData.status === 'scheduled' &&
+        (!formData.publishedAt || new Date(formData.publishedAt).getTime() <= Date.now())) {
+      setSaveError('Choose a future date and time to schedule this post');
+      return;
+    }
 
     setIsSaving(true);
     setSaveError(null);
@@ -88,32 +213,159 @@ export default function PostForm() {
     try {
       if (isEditing && id) {
         console.log('Updating existing post with ID:', id);
-        await updateBlogPost(id, formData);
+        await updateBlogPost(id, formData, savedPost?.updatedAt);
         console.log('Post updated successfully');
       } else {
         console.log('Creating new post');
         const newPost = await addBlogPost(formData);
         console.log('New post created with ID:', newPost.id);
       }
-      
+
+      discardDraft();
+      allowNavigation();
+
       console.log('Navigating to admin panel');
       navigate('/admin');
     } catch (error) {
       console.error('Error saving post:', error);
       setSaveError(error instanceof Error ? error.message : 'Failed to save post');
+      if (error instanceof PostConflictError) {
+        setConflictPost(error.currentPost);
+        setShowConflictResolver(true);
+      }
     } finally {
       setIsSaving(false);
     }
   };
 
+  // Save a revision's content over the post, keeping its status, schedule and tags
+  const handleRestoreRevision = async (revision: PostRevision) => {
+    if (!id || !savedPost) return;
+
+    let restoredPost: BlogPost;
+    try {
+      restoredPost = await updateBlogPost(id, {
+        ...toFormData(savedPost),
+        title: revision.title,
+        slug: revision.slug,
+        category: revision.category,
+        imageUrl: revision.imageUrl,
+        images: revision.images,
+        excerpt: revision.excerpt,
+        content: revision.content,
+        imageMetadata: revision.imageMetadata || {}
+      }, savedPost.updatedAt);
+    } catch (error) {
+      if (error instanceof PostConflictError) {
+        throw new Error('This post was changed somewhere else. Reload the editor to see the latest version before restoring.');
+      }
+      throw error;
+    }
+
+    setSavedPost(restoredPost);
+    setFormData(toFormData(restoredPost));
+    setCleanFormData(toFormData(restoredPost));
+    setImageMetadata(restoredPost.imageMetadata || {});
+    setSlugEdited(restoredPost.slug !== slugify(restoredPost.title));
+    setOriginalSlug(restoredPost.slug);
+    setSaveError(null);
+  };
+
+  // Take the merged form and treat the other save as the version being edited
+  const handleResolveConflict = (merged: BlogFormData) => {
+    if (!conflictPost) return;
+
+    setSavedPost(conflictPost);
+    setCleanFormData(toFormData(conflictPost));
+    setFormData(merged);
+    setImageMetadata(merged.imageMetadata || {});
+    setSlugEdited(merged.slug !== slugify(merged.title));
+    setOriginalSlug(conflictPost.slug);
+    setConflictPost(null);
+    setShowConflictResolver(false);
+    setSaveError(null);
+  };
+
+  const handleRestoreDraft = () => {
+    if (!recoveredDraft) return;
+
+    const draftFormData = recoveredDraft.formData;
+    setFormData(draftFormData);
+    setImageMetadata(draftFormData.imageMetadata || {});
+    setSlugEdited(draftFormData.slug !== slugify(draftFormData.title));
+    setRecoveredDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    discardDraft();
+    setRecoveredDraft(null);
+  };
+
+  // Leave the page from the unsaved-changes prompt, dropping the edits
+  const handleLeaveWithoutSaving = () => {
+    discardDraft();
+    blocker.proceed?.();
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     console.log('Input changed:', name, '=', value);
-    setFormData(prev => ({ ...prev, [name]: value }));
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+      // Keep the slug in step with the title until it's edited by hand
+      ...(name === 'title' && !slugEdited ? { slug: value.trim() ? slugify(value) : '' } : {})
+    }));
+    if (name === 'slug') {
+      setSlugEdited(true);
+      setSlugError(null);
+    }
     // Clear save error when user starts typing
     if (saveError) setSaveError(null);
   };
 
+  const handleSlugBlur = async () => {
+    const slug = formData.slug.trim() ? slugify(formData.slug) : slugify(formData.title);
+    setFormData(prev => ({ ...prev, slug }));
+
+    try {
+      const available = await blogService.isSlugAvailable(slug, id);
+      setSlugError(available ? null : 'Another post already uses this URL slug');
+    } catch {
+      // The save will report any real problem
+      setSlugError(null);
+    }
+  };
+
+  const regenerateSlug = () => {
+    setSlugEdited(false);
+    setSlugError(null);
+    setFormData(prev => ({ ...prev, slug: slugify(prev.title) }));
+  };
+
+  const handleStatusChange = (status: PostStatus) => {
+    setFormData(prev => ({
+      ...prev,
+      status,
+      // A scheduled date left over from a previous schedule doesn't apply to other states
+      publishedAt: status === 'scheduled' || prev.status !== 'scheduled' ? prev.publishedAt : undefined
+    }));
+    if (saveError) setSaveError(null);
+  };
+
+  const getSubmitLabel = () => {
+    switch (formData.status) {
+      case 'draft':
+        return 'Save Draft';
+      case 'scheduled':
+        return 'Schedule Post';
+      case 'archived':
+        return 'Save Archived Post';
+      default:
+        return isEditing ? 'Update Post' : 'Publish Post';
+    }
+  };
+
   const handleImageSelected = (imageUrl: string, metadata?: any) => {
     if (selectingImageFor === 'main') {
       setFormData(prev => ({ ...prev, imageUrl: imageUrl }));
@@ -148,6 +400,26 @@ export default function PostForm() {
     });
   };
 
+  const handleImagesUploaded = (results: ImageUploadResult[]) => {
+    const uploadedMetadata = Object.fromEntries(results.map(result => [result.publicUrl, {
+      type: 'supabase',
+      id: result.id,
+      filename: result.filename,
+      width: result.width,
+      height: result.height
+    }]));
+
+    // Fill the gallery in upload order, dropping any empty slots
+    setFormData(prev => ({
+      ...prev,
+      images: [...prev.images.filter(img => img.trim()), ...results.map(result => result.publicUrl)],
+      imageMetadata: { ...prev.imageMetadata, ...uploadedMetadata }
+    }));
+    setImageMetadata(prev => ({ ...prev, ...uploadedMetadata }));
+    setShowBatchUpload(false);
+    setBatchUploadError(null);
+  };
+
   const updateImage = (index: number, url: string) => {
     setFormData(prev => ({
       ...prev,
@@ -172,21 +444,6 @@ export default function PostForm() {
     setSelectingImageFor(null);
   };
 
-  const renderPreview = () => {
-    const lines = formData.content.split('\n');
-    return lines.map((line, index) => {
-      if (line.startsWith('# ')) {
-        return <h1 key={index} className="text-3xl font-bold text-gray-900 mb-4 mt-6">{line.slice(2)}</h1>;
-      } else if (line.startsWith('## ')) {
-        return <h2 key={index} className="text-xl font-semibold text-gray-800 mb-3 mt-6">{line.slice(3)}</h2>;
-      } else if (line.trim() === '') {
-        return <div key={index} className="mb-3"></div>;
-      } else {
-        return <p key={index} className="text-gray-700 leading-relaxed mb-3">{line}</p>;
-      }
-    });
-  };
-
   // Show loading state while data is being fetched
   if (loading) {
     return (
@@ -235,10 +492,27 @@ export default function PostForm() {
       {/* Header */}
       <div className="px-6 py-4 border-b border-gray-200">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-gray-900">
-            {isEditing ? 'Edit Post' : 'New Post'}
-          </h2>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {isEditing ? 'Edit Post' : 'New Post'}
+            </h2>
+            {lastSavedAt && (
+              <p className="text-xs text-gray-500 mt-1">
+                Unsaved changes backed up on this device at {new Date(lastSavedAt).toLocaleTimeString()}
+              </p>
+            )}
+          </div>
           <div className="flex items-center space-x-3">
+            {isEditing && savedPost && (
+              <button
+                type="button"
+                onClick={() => setShowHistory(true)}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </button>
+            )}
             <button
               type="button"
               onClick={() => setShowPreview(!showPreview)}
@@ -260,6 +534,41 @@ export default function PostForm() {
       </div>
 
       <div className="p-6">
+        {/* Draft Recovery */}
+        {recoveredDraft && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start justify-between">
+            <div className="flex items-start">
+              <RotateCcw className="w-5 h-5 text-amber-600 mr-3 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="text-amber-800 text-sm font-medium">
+                  You have unsaved changes from {new Date(recoveredDraft.savedAt).toLocaleString()}.
+                </p>
+                {savedPost && recoveredDraft.baseUpdatedAt !== savedPost.updatedAt && (
+                  <p className="text-amber-700 text-xs mt-1">
+                    The post has been saved since then. Restoring replaces those changes with yours.
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+              <button
+                type="button"
+                onClick={handleDiscardDraft}
+                className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={handleRestoreDraft}
+                className="px-3 py-1.5 text-sm text-white bg-amber-600 rounded-md hover:bg-amber-700 transition-colors duration-200"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Error Messages */}
         {(saveError || hookError) && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
@@ -268,7 +577,15 @@ export default function PostForm() {
               <p className="text-red-700 text-sm font-medium">
                 {saveError || hookError}
               </p>
-              {hookError && (
+              {conflictPost ? (
+                <button
+                  type="button"
+                  onClick={() => setShowConflictResolver(true)}
+                  className="text-red-700 text-xs font-medium underline mt-1"
+                >
+                  Compare versions
+                </button>
+              ) : hookError && (
                 <p className="text-red-600 text-xs mt-1">
                   Check your internet connection and Supabase configuration.
                 </p>
@@ -281,22 +598,32 @@ export default function PostForm() {
           /* Preview Mode */
           <div className="max-w-4xl">
             <div className="mb-8">
-              <img
+              <ResponsiveImage
                 src={formData.imageUrl || 'https://images.pexels.com/photos/1181467/pexels-photo-1181467.jpeg?auto=compress&cs=tinysrgb&w=800'}
+                metadata={previewMetadataMap.get(formData.imageUrl)}
+                sizes={IMAGE_SIZES.hero}
                 alt={formData.title}
                 className="w-full h-64 object-cover rounded-lg"
               />
             </div>
             <div className="mb-6">
-              <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 text-sm font-semibold rounded-full uppercase tracking-wide mb-4">
-                {formData.category}
-              </span>
+              {formData.category && (
+                <CategoryBadge slug={formData.category} className="px-3 py-1 text-sm mb-4" />
+              )}
               <h1 className="text-4xl font-bold text-gray-900 mb-4">{formData.title}</h1>
               <p className="text-xl text-gray-600 mb-6">{formData.excerpt}</p>
+              <TagChips
+                tags={formData.tags.map(name => ({ id: name, slug: slugify(name), name }))}
+                className="mb-6"
+              />
             </div>
-            <div className="prose prose-lg max-w-none mb-8">
-              {renderPreview()}
-            </div>
+            <PostContent
+              blocks={contentBlocks}
+              imageIdMap={contentImageIdMap}
+              metadataMap={previewMetadataMap}
+              imageMetadata={formData.imageMetadata}
+              className="max-w-none mb-8"
+            />
             
             {/* Preview Gallery */}
             {formData.images.length > 0 && (
@@ -305,8 +632,10 @@ export default function PostForm() {
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                   {formData.images.filter(img => img.trim()).map((image, index) => (
                     <div key={index} className="aspect-square overflow-hidden rounded-lg">
-                      <img
+                      <ResponsiveImage
                         src={image}
+                        metadata={previewMetadataMap.get(image)}
+                        sizes={IMAGE_SIZES.postGallery}
                         alt={`Gallery image ${index + 1}`}
                         className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                       />
@@ -337,26 +666,88 @@ export default function PostForm() {
                 />
               </div>
 
+              {/* Slug */}
+              <div className="lg:col-span-2">
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="slug" className="block text-sm font-medium text-gray-700">
+                    URL Slug
+                  </label>
+                  {slugEdited && (
+                    <button
+                      type="button"
+                      onClick={regenerateSlug}
+                      className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Generate from title
+                    </button>
+                  )}
+                </div>
+                <div className="flex rounded-md">
+                  <span className="inline-flex items-center px-3 border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm rounded-l-md">
+                    /post/
+                  </span>
+                  <input
+                    type="text"
+                    id="slug"
+                    name="slug"
+                    value={formData.slug}
+                    onChange={handleChange}
+                    onBlur={handleSlugBlur}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-r-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                    placeholder="generated-from-the-title"
+                  />
+                </div>
+                {slugError && (
+                  <p className="mt-1 text-sm text-red-600">{slugError}</p>
+                )}
+                {originalSlug && formData.slug && formData.slug !== originalSlug && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    Links to <code className="px-1 bg-gray-100 rounded">/post/{originalSlug}</code> will redirect to the new URL.
+                  </p>
+                )}
+              </div>
+
               {/* Category */}
               <div>
-                <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
-                  Category
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                    Category <span className="text-red-500">*</span>
+                  </label>
+                  <Link to="/admin/categories" className="text-sm text-blue-600 hover:text-blue-800">
+                    Manage categories
+                  </Link>
+                </div>
                 <select
                   id="category"
                   name="category"
                   value={formData.category}
                   onChange={handleChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={categoriesLoading && categories.length === 0}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
                 >
-                  <option value="hiking">Hiking</option>
-                  <option value="travel">Travel</option>
-                  <option value="food">Food</option>
-                  <option value="mountaineering">Mountaineering</option>
-                  <option value="lifestyle">Lifestyle</option>
+                  {categories.length === 0 && (
+                    <option value="">{categoriesLoading ? 'Loading categories...' : 'No categories yet'}</option>
+                  )}
+                  {categories.map(category => (
+                    <option key={category.id} value={category.slug}>{category.label}</option>
+                  ))}
                 </select>
               </div>
 
+              {/* Tags */}
+              <div>
+                <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+                  Tags
+                </label>
+                <TagInput
+                  value={formData.tags}
+                  onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Press Enter or comma to add a tag. New tags are created when you save.
+                </p>
+              </div>
+
               {/* Main Image URL */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -385,7 +776,7 @@ export default function PostForm() {
                   {formData.imageUrl && (
                     <div className="w-32 h-32 rounded-lg overflow-hidden border border-gray-200">
                       <img
-                        src={formData.imageUrl}
+                        src={getImageDisplayUrl(formData.imageUrl, previewMetadataMap.get(formData.imageUrl))}
                         alt="Main image preview"
                         className="w-full h-full object-cover"
                       />
@@ -417,15 +808,26 @@ export default function PostForm() {
                   <label className="block text-sm font-medium text-gray-700">
                     Additional Images (up to 20 total)
                   </label>
-                  <button
-                    type="button"
-                    onClick={addImage}
-                    disabled={formData.images.length >= 20}
-                    className="inline-flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-                  >
-                    <Plus className="w-4 h-4 mr-1" />
-                    Add Image ({formData.images.length}/20)
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setShowBatchUpload(true)}
+                      disabled={formData.images.filter(img => img.trim()).length >= 20}
+                      className="inline-flex items-center px-3 py-1 text-sm bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      <Upload className="w-4 h-4 mr-1" />
+                      Upload Photos
+                    </button>
+                    <button
+                      type="button"
+                      onClick={addImage}
+                      disabled={formData.images.length >= 20}
+                      className="inline-flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Image ({formData.images.length}/20)
+                    </button>
+                  </div>
                 </div>
                 
                 <div className="space-y-3">
@@ -462,7 +864,7 @@ export default function PostForm() {
                       {image && (
                         <div className="w-24 h-24 rounded-lg overflow-hidden border border-gray-200">
                           <img
-                            src={image}
+                            src={getImageDisplayUrl(image, previewMetadataMap.get(image))}
                             alt={`Preview ${index + 1}`}
                             className="w-full h-full object-cover"
                           />
@@ -492,14 +894,66 @@ export default function PostForm() {
                   required
                   rows={20}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
-                  placeholder="Write your post content here. Use # for headings, ## for subheadings."
+                  placeholder="Write your post content here in Markdown."
                 />
                 <p className="mt-2 text-sm text-gray-500">
-                  Use Markdown-style formatting: # for main headings, ## for subheadings
+                  Supports Markdown: # headings, **bold**, *italic*, [links](https://...), lists, &gt; quotes, ``` code blocks, tables and ~~strikethrough~~
+                </p>
+                <p className="mt-1 text-sm text-gray-500">
+                  Place photos inline on their own line with <code className="px-1 bg-gray-100 rounded">{'{{image src="https://..." caption="..."}}'}</code> or <code className="px-1 bg-gray-100 rounded">{'{{image id="<image id>"}}'}</code>, and group several between <code className="px-1 bg-gray-100 rounded">{'{{gallery}}'}</code> and <code className="px-1 bg-gray-100 rounded">{'{{/gallery}}'}</code> with one URL or image id per line.
                 </p>
               </div>
             </div>
 
+            {/* Publishing */}
+            <div className="pt-6 border-t border-gray-200">
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Publishing
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {statusOptions.map(({ key, icon: Icon, description }) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => handleStatusChange(key)}
+                    className={`text-left p-3 rounded-lg border transition-colors duration-200 ${
+                      formData.status === key
+                        ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center text-sm font-medium text-gray-900">
+                      <Icon className="w-4 h-4 mr-2" />
+                      {POST_STATUS_LABELS[key]}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{description}</p>
+                  </button>
+                ))}
+              </div>
+
+              {formData.status === 'scheduled' && (
+                <div className="mt-4 max-w-xs">
+                  <label htmlFor="publishedAt" className="block text-sm font-medium text-gray-700 mb-2">
+                    Publish on <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="publishedAt"
+                    value={toDateTimeLocalValue(formData.publishedAt)}
+                    onChange={(e) => setFormData(prev => ({ ...prev, publishedAt: fromDateTimeLocalValue(e.target.value) }))}
+                    min={toDateTimeLocalValue(new Date().toISOString())}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+
+              {formData.status === 'published' && formData.publishedAt && (
+                <p className="mt-3 text-sm text-gray-500">
+                  Published {new Date(formData.publishedAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+
             {/* Submit Button */}
             <div className="flex justify-end pt-6 border-t border-gray-200">
               <button
@@ -508,7 +962,7 @@ export default function PostForm() {
                 className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
               >
                 <Save className="w-4 h-4 mr-2" />
-                {isSaving ? 'Saving...' : (isEditing ? 'Update Post' : 'Create Post')}
+                {isSaving ? 'Saving...' : getSubmitLabel()}
               </button>
             </div>
           </form>
@@ -523,6 +977,86 @@ export default function PostForm() {
           title={`Select Image ${selectingImageFor === 'main' ? '(Main)' : `#${(selectingImageFor as number) + 1}`}`}
         />
       )}
+
+      {/* Batch Upload Modal */}
+      {showBatchUpload && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-4xl max-h-full overflow-auto w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Upload Photos to Gallery</h3>
+              <button
+                onClick={() => {
+                  setShowBatchUpload(false);
+                  setBatchUploadError(null);
+                }}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors duration-200"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            {batchUploadError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-700 text-sm">{batchUploadError}</p>
+              </div>
+            )}
+            <ImageUpload
+              onImageUploaded={result => handleImagesUploaded([result])}
+              onImagesUploaded={handleImagesUploaded}
+              onError={setBatchUploadError}
+              multiple
+              maxFiles={20 - formData.images.filter(img => img.trim()).length}
+              folder="blog-posts"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Unsaved Changes Modal */}
+      {blocker.state === 'blocked' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Unsaved Changes</h3>
+            <p className="text-gray-600 mb-6">
+              You have changes that haven't been saved. If you leave now, they will be lost.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => blocker.reset()}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+              >
+                Keep Editing
+              </button>
+              <button
+                onClick={handleLeaveWithoutSaving}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors duration-200"
+              >
+                Discard Changes
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Conflict Resolver Modal */}
+      {showConflictResolver && conflictPost && (
+        <ConflictResolver
+          base={cleanFormData}
+          yours={formData}
+          saved={toFormData(conflictPost)}
+          savedAt={conflictPost.updatedAt}
+          onResolve={handleResolveConflict}
+          onCancel={() => setShowConflictResolver(false)}
+        />
+      )}
+
+      {/* Revision History Modal */}
+      {showHistory && savedPost && (
+        <RevisionHistory
+          post={savedPost}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
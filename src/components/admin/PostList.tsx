@@ -1,18 +1,39 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Edit, Trash2, Eye, Plus, AlertCircle, RefreshCw } from 'lucide-react';
+import { Edit, Trash2, Eye, EyeOff, Plus, AlertCircle, RefreshCw, Globe, Archive } from 'lucide-react';
 import { useBlogPosts } from '../../hooks/useBlogPosts';
-import { Category } from '../../types/BlogPost';
+import { useCategories } from '../../hooks/useCategories';
+import { useDocumentHead } from '../../hooks/useDocumentHead';
+import { PostStatus } from '../../types/BlogPost';
+import { CategoryFilter } from '../../types/Category';
+import { POST_STATUS_LABELS, getEffectiveStatus, getPostPath } from '../../utils/postUtils';
+import PostStatusBadge from './PostStatusBadge';
+import CategoryBadge from '../CategoryBadge';
 
 export default function PostList() {
-  const { blogPosts, deleteBlogPost, loading, error, refreshPosts } = useBlogPosts();
-  const [filter, setFilter] = useState<Category>('all');
+  const { blogPosts, deleteBlogPost, changePostStatus, loading, error, refreshPosts } = useBlogPosts({ includeUnpublished: true });
+  const { categories } = useCategories();
+  useDocumentHead({ title: 'Admin: Blog Posts', noIndex: true });
+  const [filter, setFilter] = useState<CategoryFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<PostStatus | 'all'>('all');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [changingStatus, setChangingStatus] = useState<string | null>(null);
 
-  const filteredPosts = filter === 'all' 
-    ? blogPosts 
-    : blogPosts.filter(post => post.category === filter);
+  const filteredPosts = blogPosts
+    .filter(post => filter === 'all' || post.category === filter)
+    .filter(post => statusFilter === 'all' || getEffectiveStatus(post) === statusFilter);
+
+  const handleStatusChange = async (id: string, status: PostStatus) => {
+    try {
+      setChangingStatus(id);
+      await changePostStatus(id, status);
+    } catch (error) {
+      console.error('Failed to change post status:', error);
+    } finally {
+      setChangingStatus(null);
+    }
+  };
 
   const handleDelete = async (id: string) => {
     try {
@@ -26,12 +47,14 @@ export default function PostList() {
     }
   };
 
-  const categories: { key: Category; label: string }[] = [
+  const categoryFilters: { key: CategoryFilter; label: string }[] = [
     { key: 'all', label: 'All' },
-    { key: 'hiking', label: 'Hiking' },
-    { key: 'travel', label: 'Travel' },
-    { key: 'food', label: 'Food' },
-    { key: 'mountaineering', label: 'Mountaineering' }
+    ...categories.map(category => ({ key: category.slug, label: category.label }))
+  ];
+
+  const statuses: { key: PostStatus | 'all'; label: string }[] = [
+    { key: 'all', label: 'Any status' },
+    ...(Object.keys(POST_STATUS_LABELS) as PostStatus[]).map(key => ({ key, label: POST_STATUS_LABELS[key] }))
   ];
 
   if (loading) {
@@ -85,7 +108,7 @@ export default function PostList() {
         
         {/* Filter Bar */}
         <div className="mt-4 flex flex-wrap gap-2">
-          {categories.map(({ key, label }) => (
+          {categoryFilters.map(({ key, label }) => (
             <button
               key={key}
               onClick={() => setFilter(key)}
@@ -99,6 +122,28 @@ export default function PostList() {
             </button>
           ))}
         </div>
+
+        {/* Status Filter */}
+        <div className="mt-3 flex flex-wrap gap-2">
+          {statuses.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setStatusFilter(key)}
+              className={`px-3 py-1 text-xs font-medium rounded-md border transition-colors duration-200 ${
+                statusFilter === key
+                  ? 'border-blue-300 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+              {key !== 'all' && (
+                <span className="ml-1 text-gray-400">
+                  {blogPosts.filter(post => getEffectiveStatus(post) === key).length}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Posts List */}
@@ -132,9 +177,8 @@ export default function PostList() {
                     <h3 className="text-lg font-medium text-gray-900">{post.title}</h3>
                     <p className="text-sm text-gray-500 mt-1">{post.excerpt}</p>
                     <div className="flex items-center mt-2 text-xs text-gray-400">
-                      <span className="px-2 py-1 bg-gray-100 rounded-full mr-2">
-                        {post.category}
-                      </span>
+                      <PostStatusBadge post={post} className="mr-2" />
+                      <CategoryBadge slug={post.category} className="px-2 py-1 mr-2" />
                       <span>{post.date}</span>
                       <span className="mx-2">•</span>
                       <span>{post.readTime}</span>
@@ -143,8 +187,37 @@ export default function PostList() {
                 </div>
                 
                 <div className="flex items-center space-x-2">
+                  {post.status === 'published' || post.status === 'scheduled' ? (
+                    <button
+                      onClick={() => handleStatusChange(post.id, 'draft')}
+                      disabled={changingStatus === post.id}
+                      className="p-2 text-gray-400 hover:text-amber-600 disabled:opacity-50 transition-colors duration-200"
+                      title="Unpublish (move to drafts)"
+                    >
+                      <EyeOff className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleStatusChange(post.id, 'published')}
+                      disabled={changingStatus === post.id}
+                      className="p-2 text-gray-400 hover:text-green-600 disabled:opacity-50 transition-colors duration-200"
+                      title="Publish now"
+                    >
+                      <Globe className="w-4 h-4" />
+                    </button>
+                  )}
+                  {post.status !== 'archived' && (
+                    <button
+                      onClick={() => handleStatusChange(post.id, 'archived')}
+                      disabled={changingStatus === post.id}
+                      className="p-2 text-gray-400 hover:text-slate-700 disabled:opacity-50 transition-colors duration-200"
+                      title="Archive"
+                    >
+                      <Archive className="w-4 h-4" />
+                    </button>
+                  )}
                   <Link
-                    to={`/post/${post.id}`}
+                    to={getPostPath(post)}
                     className="p-2 text-gray-400 hover:text-blue-600 transition-colors duration-200"
                     title="View Post"
                   >
@@ -0,0 +1,35 @@
+import { Archive, CalendarClock, FileText, Globe } from 'lucide-react';
+import { BlogPost, PostStatus } from '../../types/BlogPost';
+import { POST_STATUS_LABELS, getEffectiveStatus } from '../../utils/postUtils';
+
+interface PostStatusBadgeProps {
+  post: Pick<BlogPost, 'status' | 'publishedAt'>;
+  className?: string;
+}
+
+const statusStyles: Record<PostStatus, { className: string; icon: typeof Globe }> = {
+  draft: { className: 'bg-gray-100 text-gray-700', icon: FileText },
+  published: { className: 'bg-green-100 text-green-800', icon: Globe },
+  scheduled: { className: 'bg-amber-100 text-amber-800', icon: CalendarClock },
+  archived: { className: 'bg-slate-200 text-slate-700', icon: Archive }
+};
+
+export default function PostStatusBadge({ post, className = '' }: PostStatusBadgeProps) {
+  const status = getEffectiveStatus(post);
+  const { className: statusClassName, icon: Icon } = statusStyles[status];
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${statusClassName} ${className}`}
+      title={post.publishedAt ? `Publish date: ${new Date(post.publishedAt).toLocaleString()}` : undefined}
+    >
+      <Icon className="w-3 h-3 mr-1" />
+      {POST_STATUS_LABELS[status]}
+      {status === 'scheduled' && post.publishedAt && (
+        <span className="ml-1">
+          · {new Date(post.publishedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </span>
+      )}
+    </span>
+  );
+}
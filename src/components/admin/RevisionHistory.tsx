@@ -0,0 +1,212 @@
+import { useState, useMemo } from 'react';
+import { X, History, RotateCcw, AlertCircle, User } from 'lucide-react';
+import { usePostRevisions } from '../../hooks/usePostRevisions';
+import { useCategories } from '../../hooks/useCategories';
+import { BlogPost } from '../../types/BlogPost';
+import { PostRevision, RevisionContent } from '../../types/PostRevision';
+import { DiffPart, diffWords, hasChanges } from '../../utils/diffUtils';
+import { getCategoryLabel } from '../../utils/categoryUtils';
+
+interface RevisionHistoryProps {
+  post: BlogPost; // The current saved version
+  onRestore: (revision: PostRevision) => Promise<void>;
+  onClose: () => void;
+}
+
+// Fields compared word by word, in the order they're shown
+const TEXT_FIELDS: { key: keyof Pick<RevisionContent, 'title' | 'slug' | 'excerpt' | 'content'>; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'slug', label: 'URL slug' },
+  { key: 'excerpt', label: 'Excerpt' },
+  { key: 'content', label: 'Content' }
+];
+
+/**
+ * Check if a revision holds the same content as the post
+ */
+function matchesPost(revision: PostRevision, post: BlogPost): boolean {
+  return revision.title === post.title &&
+    revision.slug === post.slug &&
+    revision.category === post.category &&
+    revision.imageUrl === post.imageUrl &&
+    revision.excerpt === post.excerpt &&
+    revision.content === post.content &&
+    revision.images.join('\n') === (post.images || []).join('\n');
+}
+
+// Long unchanged stretches are shortened to their ends
+const CONTEXT_LENGTH = 150;
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+      {parts.map((part, index) => {
+        if (part.type === 'added') {
+          return <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>;
+        }
+        if (part.type === 'removed') {
+          return <del key={index} className="bg-red-100 text-red-800">{part.text}</del>;
+        }
+        if (part.text.length > CONTEXT_LENGTH * 2 + 100) {
+          return (
+            <span key={index}>
+              {index > 0 && part.text.slice(0, CONTEXT_LENGTH)}
+              <span className="text-gray-400"> … </span>
+              {index < parts.length - 1 && part.text.slice(-CONTEXT_LENGTH)}
+            </span>
+          );
+        }
+        return <span key={index}>{part.text}</span>;
+      })}
+    </p>
+  );
+}
+
+export default function RevisionHistory({ post, onRestore, onClose }: RevisionHistoryProps) {
+  const { revisions, loading, error } = usePostRevisions(post.id, post.updatedAt);
+  const { categories } = useCategories();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  // Default to the newest revision that differs from what's saved now
+  const selectedRevision = revisions.find(revision => revision.id === selectedId) ||
+    revisions.find(revision => !matchesPost(revision, post)) ||
+    revisions[0];
+
+  // Changes from the selected revision to the current version
+  const diffs = useMemo(() => {
+    if (!selectedRevision) return [];
+    return TEXT_FIELDS
+      .map(({ key, label }) => ({ label, parts: diffWords(selectedRevision[key], post[key]) }))
+      .filter(diff => hasChanges(diff.parts));
+  }, [selectedRevision, post]);
+
+  const otherChanges = selectedRevision ? [
+    selectedRevision.category !== post.category &&
+      `Category: ${getCategoryLabel(categories, selectedRevision.category)} → ${getCategoryLabel(categories, post.category)}`,
+    selectedRevision.imageUrl !== post.imageUrl && 'Main image changed',
+    selectedRevision.images.join('\n') !== (post.images || []).join('\n') && 'Gallery images changed'
+  ].filter((change): change is string => Boolean(change)) : [];
+
+  const isCurrent = selectedRevision ? matchesPost(selectedRevision, post) : true;
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    try {
+      setRestoring(true);
+      setRestoreError(null);
+      await onRestore(selectedRevision);
+      setSelectedId(null);
+    } catch (err) {
+      setRestoreError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            Revision History
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+            aria-label="Close revision history"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {(error || restoreError) && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-500 mr-2 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{restoreError || error}</p>
+          </div>
+        )}
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision List */}
+          <ul className="w-64 flex-shrink-0 border-r border-gray-200 overflow-y-auto">
+            {loading && revisions.length === 0 && (
+              <li className="px-4 py-3 text-sm text-gray-500">Loading revisions...</li>
+            )}
+            {!loading && revisions.length === 0 && (
+              <li className="px-4 py-3 text-sm text-gray-500">No revisions recorded yet.</li>
+            )}
+            {revisions.map(revision => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors duration-200 ${
+                    revision.id === selectedRevision?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block text-sm font-medium text-gray-900">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </span>
+                  <span className="flex items-center text-xs text-gray-500 mt-1">
+                    <User className="w-3 h-3 mr-1" />
+                    {revision.authorEmail || 'Unknown author'}
+                  </span>
+                  {matchesPost(revision, post) && (
+                    <span className="inline-block mt-1 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">
+                      Current
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {selectedRevision && (
+              <>
+                <div className="flex items-start justify-between mb-6">
+                  <p className="text-sm text-gray-600">
+                    Changes made since this revision:
+                    <span className="ml-2 px-1 bg-red-100 text-red-800 line-through">removed</span>
+                    <span className="ml-2 px-1 bg-green-100 text-green-800">added</span>
+                  </p>
+                  <button
+                    onClick={handleRestore}
+                    disabled={restoring || isCurrent}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {restoring ? 'Restoring...' : 'Restore this version'}
+                  </button>
+                </div>
+
+                {isCurrent && (
+                  <p className="text-sm text-gray-500">This revision matches the current version.</p>
+                )}
+
+                {otherChanges.length > 0 && (
+                  <ul className="mb-6 list-disc pl-5 text-sm text-gray-700 space-y-1">
+                    {otherChanges.map(change => <li key={change}>{change}</li>)}
+                  </ul>
+                )}
+
+                {diffs.map(diff => (
+                  <section key={diff.label} className="mb-6">
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{diff.label}</h4>
+                    <div className="p-3 bg-gray-50 border border-gray-200 rounded-md">
+                      <DiffText parts={diff.parts} />
+                    </div>
+                  </section>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
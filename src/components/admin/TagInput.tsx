@@ -0,0 +1,129 @@
+import { useState, useRef } from 'react';
+import { X } from 'lucide-react';
+import { useTags } from '../../hooks/useTags';
+import { addTagName, normalizeTagName } from '../../utils/tagUtils';
+import { slugify } from '../../utils/postUtils';
+
+interface TagInputProps {
+  value: string[]; // Tag names
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export default function TagInput({ value, onChange }: TagInputProps) {
+  const { tags } = useTags();
+  const [inputValue, setInputValue] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const query = normalizeTagName(inputValue).toLowerCase();
+  const selectedSlugs = value.map(slugify);
+  const suggestions = query
+    ? tags
+        .filter(tag => !selectedSlugs.includes(tag.slug))
+        .filter(tag => tag.name.toLowerCase().includes(query) || tag.slug.includes(slugify(query)))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (name: string) => {
+    // Reuse the existing tag's spelling when the name matches one
+    const existing = tags.find(tag => tag.slug === slugify(normalizeTagName(name)));
+    onChange(addTagName(value, existing ? existing.name : name));
+    setInputValue('');
+    setHighlightedIndex(0);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      const suggestion = showSuggestions ? suggestions[highlightedIndex] : undefined;
+      const name = suggestion ? suggestion.name : inputValue;
+      if (!normalizeTagName(name)) return;
+      if (e.key !== 'Tab' || suggestion) {
+        e.preventDefault();
+      }
+      addTag(name);
+    } else if (e.key === 'Backspace' && !inputValue && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent cursor-text"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {value.map(name => (
+          <span
+            key={name}
+            className="inline-flex items-center px-2 py-1 text-sm bg-blue-50 text-blue-700 rounded-full"
+          >
+            #{name}
+            <button
+              type="button"
+              onClick={() => removeTag(name)}
+              className="ml-1 text-blue-400 hover:text-blue-700"
+              aria-label={`Remove tag ${name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          id="tags"
+          type="text"
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setShowSuggestions(true);
+            setHighlightedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          // Delay so clicking a suggestion registers before the list closes
+          onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+          placeholder={value.length === 0 ? 'Add tags, e.g. Bangkok, street food' : ''}
+          className="flex-1 min-w-[8rem] py-1 outline-none"
+        />
+      </div>
+
+      {/* Suggestions */}
+      {showSuggestions && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+          {suggestions.map((tag, index) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className={`w-full flex items-center justify-between px-3 py-2 text-left text-sm ${
+                  index === highlightedIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span>#{tag.name}</span>
+                <span className="text-xs text-gray-400">
+                  {tag.postCount} {tag.postCount === 1 ? 'post' : 'posts'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Lock, Mail, AlertCircle, Loader } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useDocumentHead } from '../../hooks/useDocumentHead';
 
 export default function LoginForm() {
   const [email, setEmail] = useState('');
@@ -14,6 +15,8 @@ export default function LoginForm() {
   
   const from = location.state?.from?.pathname || '/admin';
 
+  useDocumentHead({ title: 'Admin Login', noIndex: true });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
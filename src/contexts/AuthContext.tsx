@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { postCache } from '../services/postCache';
 import { AuthContextType, LoginCredentials, User } from '../types/auth';
 import type { Session } from '@supabase/supabase-js';
 
@@ -21,7 +22,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      // Cached drafts and scheduled posts shouldn't outlive the admin session
+      if (event === 'SIGNED_OUT') {
+        postCache.clear();
+      }
       setSession(session);
       setLoading(false);
     });
@@ -1,26 +1,39 @@
 import { useState, useEffect, useCallback } from 'react';
-import { BlogPost, BlogFormData } from '../types/BlogPost';
-import { blogService } from '../services/blogService';
+import { BlogPost, BlogFormData, PostStatus } from '../types/BlogPost';
+import { blogService, PostConflictError } from '../services/blogService';
+import { postCache, PostListKey } from '../services/postCache';
 
-export function useBlogPosts() {
-  const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
-  const [loading, setLoading] = useState(true);
+interface UseBlogPostsOptions {
+  includeUnpublished?: boolean; // Admin views also see drafts, scheduled and archived posts
+  autoLoad?: boolean; // Set to false when only the create/update/delete helpers are needed
+}
+
+export function useBlogPosts({ includeUnpublished = false, autoLoad = true }: UseBlogPostsOptions = {}) {
+  const listKey: PostListKey = includeUnpublished ? 'all' : 'published';
+  const [blogPosts, setBlogPosts] = useState<BlogPost[]>(() => postCache.getList(listKey) || []);
+  const [loading, setLoading] = useState(() => autoLoad && !postCache.getList(listKey));
   const [error, setError] = useState<string | null>(null);
 
-  // Load blog posts from Supabase on mount
-  useEffect(() => {
-    loadBlogPosts();
-  }, []);
+  const loadBlogPosts = useCallback(async (force = false) => {
+    // Reuse the list another view already loaded this session
+    const cachedPosts = postCache.getList(listKey);
+    if (cachedPosts && !force) {
+      setBlogPosts(cachedPosts);
+      setLoading(false);
+      return;
+    }
 
-  const loadBlogPosts = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       console.log('Loading blog posts from Supabase...');
       
-      const posts = await blogService.getAllPosts();
+      const posts = includeUnpublished
+        ? await blogService.getAllPosts()
+        : await blogService.getPublishedPosts();
       console.log('Loaded blog posts from Supabase:', posts.length, 'posts');
       
+      postCache.setList(listKey, posts);
       setBlogPosts(posts);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load blog posts';
@@ -30,7 +43,14 @@ export function useBlogPosts() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [includeUnpublished, listKey]);
+
+  // Load blog posts from Supabase on mount
+  useEffect(() => {
+    if (autoLoad) {
+      loadBlogPosts();
+    }
+  }, [autoLoad, loadBlogPosts]);
 
   const addBlogPost = useCallback(async (postData: BlogFormData): Promise<BlogPost> => {
     try {
@@ -41,6 +61,7 @@ export function useBlogPosts() {
       console.log('Created new post with ID:', newPost.id);
       
       // Update local state
+      postCache.set(newPost);
       setBlogPosts(prev => [newPost, ...prev]);
       
       return newPost;
@@ -52,22 +73,27 @@ export function useBlogPosts() {
     }
   }, []);
 
-  const updateBlogPost = useCallback(async (id: string, postData: BlogFormData): Promise<void> => {
+  const updateBlogPost = useCallback(async (id: string, postData: BlogFormData, expectedUpdatedAt?: string): Promise<BlogPost> => {
     try {
       console.log('Updating blog post with ID:', id);
       setError(null);
       
-      const updatedPost = await blogService.updatePost(id, postData);
+      const updatedPost = await blogService.updatePost(id, postData, expectedUpdatedAt);
       console.log('Updated blog post successfully');
       
       // Update local state
+      postCache.set(updatedPost);
       setBlogPosts(prev => prev.map(post => 
         post.id === id ? updatedPost : post
       ));
+      return updatedPost;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update blog post';
       console.error('Error updating blog post:', errorMessage);
-      setError(errorMessage);
+      // Conflicts are for the editor to resolve, not a failure of the list
+      if (!(err instanceof PostConflictError)) {
+        setError(errorMessage);
+      }
       throw err;
     }
   }, []);
@@ -81,6 +107,7 @@ export function useBlogPosts() {
       console.log('Deleted blog post successfully');
       
       // Update local state
+      postCache.remove(id);
       setBlogPosts(prev => prev.filter(post => post.id !== id));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete blog post';
@@ -90,6 +117,43 @@ export function useBlogPosts() {
     }
   }, []);
 
+  const changePostStatus = useCallback(async (id: string, status: PostStatus, publishAt?: string): Promise<void> => {
+    try {
+      console.log('Changing status of blog post with ID:', id, 'to', status);
+      setError(null);
+
+      let updatedPost: BlogPost;
+      switch (status) {
+        case 'published':
+          updatedPost = await blogService.publishPost(id);
+          break;
+        case 'scheduled':
+          if (!publishAt) {
+            throw new Error('A publish date is required to schedule a post');
+          }
+          updatedPost = await blogService.schedulePost(id, publishAt);
+          break;
+        case 'archived':
+          updatedPost = await blogService.archivePost(id);
+          break;
+        default:
+          updatedPost = await blogService.unpublishPost(id);
+      }
+      console.log('Changed blog post status successfully');
+
+      // Update local state
+      postCache.set(updatedPost);
+      setBlogPosts(prev => prev.map(post =>
+        post.id === id ? updatedPost : post
+      ));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change post status';
+      console.error('Error changing blog post status:', errorMessage);
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
   // Memoize getBlogPost to prevent unnecessary re-renders
   const getBlogPost = useCallback((id: string): BlogPost | undefined => {
     const post = blogPosts.find(post => post.id === id);
@@ -98,7 +162,7 @@ export function useBlogPosts() {
   }, [blogPosts]);
 
   const refreshPosts = useCallback(() => {
-    loadBlogPosts();
+    loadBlogPosts(true);
   }, [loadBlogPosts]);
 
   return {
@@ -108,6 +172,7 @@ export function useBlogPosts() {
     addBlogPost,
     updateBlogPost,
     deleteBlogPost,
+    changePostStatus,
     getBlogPost,
     refreshPosts
   };
@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Category, CategoryFormData } from '../types/Category';
+import { categoryService } from '../services/categoryService';
+import { postCache } from '../services/postCache';
+
+// Categories are shared by every filter, badge and selector on the page, so
+// they're loaded once and changes made in the admin are pushed to all of them
+let cachedCategories: Category[] | null = null;
+let pendingLoad: Promise<Category[]> | null = null;
+const listeners = new Set<(categories: Category[]) => void>();
+
+function publishCategories(categories: Category[]) {
+  cachedCategories = categories;
+  listeners.forEach(listener => listener(categories));
+}
+
+function loadCategories(force = false): Promise<Category[]> {
+  if (!pendingLoad || force) {
+    pendingLoad = categoryService.getCategories()
+      .then(categories => {
+        publishCategories(categories);
+        return categories;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+}
+
+/**
+ * Seed the shared categories, e.g. with the ones a prerendered page was built from
+ */
+export function primeCategories(categories: Category[]) {
+  publishCategories(categories);
+}
+
+/**
+ * Hook to read and manage post categories
+ */
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>(() => cachedCategories || []);
+  const [loading, setLoading] = useState(() => !cachedCategories);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCategories = useCallback(async (force = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await loadCategories(force);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load categories';
+      console.error('Error loading categories:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    listeners.add(setCategories);
+    if (cachedCategories) {
+      setCategories(cachedCategories);
+      setLoading(false);
+    } else {
+      fetchCategories();
+    }
+    return () => {
+      listeners.delete(setCategories);
+    };
+  }, [fetchCategories]);
+
+  const addCategory = useCallback(async (categoryData: CategoryFormData): Promise<Category> => {
+    try {
+      setError(null);
+      const current = cachedCategories || [];
+      const nextSortOrder = current.reduce((max, category) => Math.max(max, category.sortOrder), 0) + 10;
+
+      const newCategory = await categoryService.createCategory(categoryData, nextSortOrder);
+      publishCategories([...current, newCategory]);
+      return newCategory;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create category';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const updateCategory = useCallback(async (id: string, categoryData: CategoryFormData): Promise<void> => {
+    try {
+      setError(null);
+      const previous = cachedCategories?.find(category => category.id === id);
+
+      const updatedCategory = await categoryService.updateCategory(id, categoryData);
+      publishCategories((cachedCategories || []).map(category =>
+        category.id === id ? updatedCategory : category
+      ));
+
+      // Posts in the category were moved to the new slug by the database
+      if (previous && previous.slug !== updatedCategory.slug) {
+        postCache.clear();
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update category';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const deleteCategory = useCallback(async (id: string): Promise<void> => {
+    try {
+      setError(null);
+      await categoryService.deleteCategory(id);
+      publishCategories((cachedCategories || []).filter(category => category.id !== id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete category';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const reorderCategories = useCallback(async (orderedIds: string[]): Promise<void> => {
+    const previous = cachedCategories || [];
+    try {
+      setError(null);
+      // Show the new order right away and roll back if saving fails
+      publishCategories(orderedIds
+        .map((id, index) => {
+          const category = previous.find(item => item.id === id);
+          return category ? { ...category, sortOrder: (index + 1) * 10 } : undefined;
+        })
+        .filter((category): category is Category => Boolean(category)));
+
+      await categoryService.reorderCategories(orderedIds);
+    } catch (err) {
+      publishCategories(previous);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reorder categories';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const refreshCategories = useCallback(() => {
+    fetchCategories(true);
+  }, [fetchCategories]);
+
+  return {
+    categories,
+    loading,
+    error,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    reorderCategories,
+    refreshCategories
+  };
+}
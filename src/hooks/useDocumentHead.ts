@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { DocumentHead, HEAD_TAG_ATTRIBUTE, formatDocumentTitle, getHeadTags } from '../utils/headUtils';
+
+/**
+ * Replace the page-specific tags in the document <head>
+ */
+function applyDocumentHead(head: DocumentHead) {
+  document.title = formatDocumentTitle(head.title);
+
+  document.head.querySelectorAll(`[${HEAD_TAG_ATTRIBUTE}]`).forEach(element => element.remove());
+
+  getHeadTags(head, `${window.location.origin}/`).forEach(tag => {
+    const element = document.createElement(tag.name);
+    Object.entries(tag.attributes).forEach(([key, value]) => element.setAttribute(key, value));
+    element.setAttribute(HEAD_TAG_ATTRIBUTE, '');
+    if (tag.name === 'script') {
+      element.textContent = tag.content;
+    }
+    document.head.appendChild(element);
+  });
+}
+
+/**
+ * Hook to set the document title, description, canonical link and sharing
+ * tags while a page is shown. Pages that don't call it get the site defaults.
+ */
+export function useDocumentHead(head: DocumentHead) {
+  const headKey = JSON.stringify(head);
+
+  useEffect(() => {
+    applyDocumentHead(JSON.parse(headKey) as DocumentHead);
+    return () => applyDocumentHead({});
+  }, [headKey]); // Serialized so callers can pass a fresh object each render
+}
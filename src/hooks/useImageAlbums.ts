@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ImageAlbum, ImageAlbumFormData } from '../types/ImageAlbum';
+import { albumService } from '../services/albumService';
+
+// The album list appears in the manager, the library filter and the upload
+// form at once, so it's loaded once and changes are pushed to all of them
+let cachedAlbums: ImageAlbum[] | null = null;
+let pendingLoad: Promise<ImageAlbum[]> | null = null;
+const listeners = new Set<(albums: ImageAlbum[]) => void>();
+
+function publishAlbums(albums: ImageAlbum[]) {
+  cachedAlbums = albums;
+  listeners.forEach(listener => listener(albums));
+}
+
+function loadAlbums(force = false): Promise<ImageAlbum[]> {
+  if (!pendingLoad || force) {
+    pendingLoad = albumService.getAlbums()
+      .then(albums => {
+        publishAlbums(albums);
+        return albums;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+}
+
+function sortByName(albums: ImageAlbum[]): ImageAlbum[] {
+  return [...albums].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Hook to read and manage image albums. Call `refreshAlbums` after moving
+ * images so the counts catch up.
+ */
+export function useImageAlbums() {
+  const [albums, setAlbums] = useState<ImageAlbum[]>(() => cachedAlbums || []);
+  const [loading, setLoading] = useState(() => !cachedAlbums);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlbums = useCallback(async (force = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await loadAlbums(force);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load albums';
+      console.error('Error loading albums:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    listeners.add(setAlbums);
+    if (cachedAlbums) {
+      setAlbums(cachedAlbums);
+      setLoading(false);
+    } else {
+      fetchAlbums();
+    }
+    return () => {
+      listeners.delete(setAlbums);
+    };
+  }, [fetchAlbums]);
+
+  const addAlbum = useCallback(async (albumData: ImageAlbumFormData): Promise<ImageAlbum> => {
+    try {
+      setError(null);
+      const newAlbum = await albumService.createAlbum(albumData);
+      publishAlbums(sortByName([...(cachedAlbums || []), newAlbum]));
+      return newAlbum;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create album';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const updateAlbum = useCallback(async (id: string, albumData: ImageAlbumFormData): Promise<void> => {
+    try {
+      setError(null);
+      const updatedAlbum = await albumService.updateAlbum(id, albumData);
+      publishAlbums(sortByName((cachedAlbums || []).map(album =>
+        album.id === id ? updatedAlbum : album
+      )));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update album';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const deleteAlbum = useCallback(async (id: string): Promise<void> => {
+    try {
+      setError(null);
+      await albumService.deleteAlbum(id);
+      publishAlbums((cachedAlbums || []).filter(album => album.id !== id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete album';
+      setError(errorMessage);
+      throw err;
+    }
+  }, []);
+
+  const refreshAlbums = useCallback(() => {
+    fetchAlbums(true);
+  }, [fetchAlbums]);
+
+  return {
+    albums,
+    loading,
+    error,
+    addAlbum,
+    updateAlbum,
+    deleteAlbum,
+    refreshAlbums
+  };
+}
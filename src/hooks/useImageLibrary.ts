@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { imageService, ImageMetadata, ImageUsage, ImageLibraryFilters } from '../services/imageService';
+
+const PAGE_SIZE = 48;
+
+/**
+ * Hook to page through the admin image library with filters, along with
+ * which posts use each loaded image
+ */
+export function useImageLibrary(filters: ImageLibraryFilters) {
+  // Callers usually pass a new filters object each render, so key on its contents
+  const filterKey = JSON.stringify(filters);
+  const stableFilters = useMemo<ImageLibraryFilters>(() => JSON.parse(filterKey), [filterKey]);
+
+  const [images, setImages] = useState<ImageMetadata[]>([]);
+  const [usage, setUsage] = useState<Map<string, ImageUsage[]>>(new Map());
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drops responses for filters that have since changed
+  const requestRef = useRef(0);
+
+  const loadFirstPage = useCallback(async () => {
+    const requestId = ++requestRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await imageService.searchImages(stableFilters, PAGE_SIZE, 0);
+      const pageUsage = await imageService.getImageUsage(page.images.map(image => image.id));
+      if (requestId !== requestRef.current) return;
+
+      setImages(page.images);
+      setTotal(page.total);
+      setUsage(pageUsage);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load images');
+      setImages([]);
+      setTotal(0);
+    } finally {
+      if (requestId === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [stableFilters]);
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || images.length >= total) return;
+
+    const requestId = requestRef.current;
+    try {
+      setLoadingMore(true);
+      setError(null);
+
+      const page = await imageService.searchImages(stableFilters, PAGE_SIZE, images.length);
+      const pageUsage = await imageService.getImageUsage(page.images.map(image => image.id));
+      if (requestId !== requestRef.current) return;
+
+      // Uploads since the first page shift offsets, so skip any repeats
+      setImages(prev => [...prev, ...page.images.filter(image => !prev.some(existing => existing.id === image.id))]);
+      setTotal(page.total);
+      setUsage(prev => new Map([...prev, ...pageUsage]));
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more images');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [stableFilters, images.length, total, loadingMore]);
+
+  /**
+   * Apply an edit made elsewhere without reloading
+   */
+  const updateLocalImage = useCallback((id: string, changes: Partial<ImageMetadata>) => {
+    setImages(prev => prev.map(image => image.id === id ? { ...image, ...changes } : image));
+  }, []);
+
+  const removeLocalImage = useCallback((id: string) => {
+    setImages(prev => prev.filter(image => image.id !== id));
+    setTotal(prev => Math.max(0, prev - 1));
+  }, []);
+
+  const setImageUsage = useCallback((id: string, imageUsage: ImageUsage[]) => {
+    setUsage(prev => new Map(prev).set(id, imageUsage));
+  }, []);
+
+  return {
+    images,
+    usage,
+    total,
+    loading,
+    loadingMore,
+    error,
+    hasMore: images.length < total,
+    loadMore,
+    refreshImages: loadFirstPage,
+    updateLocalImage,
+    removeLocalImage,
+    setImageUsage
+  };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { imageService, ImageMetadata } from '../services/imageService';
+import { imageMetadataCache } from '../services/imageMetadataCache';
 
 /**
  * Check if an image URL is from Supabase Storage
@@ -13,12 +14,45 @@ function isSupabaseStorageUrl(url: string): boolean {
   }
 }
 
+/**
+ * Check if an image URL's metadata still has to be fetched
+ */
+function needsFetch(url: string | null): boolean {
+  return url !== null && isSupabaseStorageUrl(url) && !imageMetadataCache.get(url);
+}
+
+/**
+ * Collect the metadata already cached for some URLs or ids
+ */
+function getCached(
+  keys: string[],
+  lookup: (key: string) => ImageMetadata | undefined
+): Map<string, ImageMetadata> {
+  const cached = new Map<string, ImageMetadata>();
+  keys.forEach(key => {
+    const metadata = lookup(key);
+    if (metadata) cached.set(key, metadata);
+  });
+  return cached;
+}
+
+/**
+ * Check if metadata still has to be loaded: it isn't cached, or came with a
+ * prerendered page and the image may have been edited since it was built
+ */
+function needsLoading(metadata: ImageMetadata | undefined): boolean {
+  return !metadata || imageMetadataCache.isStale(metadata.id);
+}
+
 /**
  * Hook to fetch image metadata for a single image URL
  */
 export function useImageMetadata(imageUrl: string | null) {
-  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
-  const [loading, setLoading] = useState(false);
+  // Cached images render with their variants from the first paint
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(
+    () => (imageUrl && imageMetadataCache.get(imageUrl)) || null
+  );
+  const [loading, setLoading] = useState(() => needsFetch(imageUrl));
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -37,13 +71,24 @@ export function useImageMetadata(imageUrl: string | null) {
       return;
     }
 
+    // Stale metadata stays in use while it's refreshed
+    const cached = imageMetadataCache.get(imageUrl);
+    if (cached) {
+      setMetadata(cached);
+      setLoading(false);
+      setError(null);
+      if (!needsLoading(cached)) return;
+    }
+
     const fetchMetadata = async () => {
       try {
-        setLoading(true);
+        if (!cached) setLoading(true);
         setError(null);
         const data = await imageService.getImageMetadataByUrl(imageUrl);
-        setMetadata(data);
+        if (data) imageMetadataCache.set([data]);
+        setMetadata(data || cached || null);
       } catch (err) {
+        if (cached) return;
         setError(err instanceof Error ? err.message : 'Failed to fetch image metadata');
         setMetadata(null);
       } finally {
@@ -61,8 +106,10 @@ export function useImageMetadata(imageUrl: string | null) {
  * Hook to fetch image metadata for multiple image URLs
  */
 export function useImageMetadataMap(imageUrls: string[]) {
-  const [metadataMap, setMetadataMap] = useState<Map<string, ImageMetadata>>(new Map());
-  const [loading, setLoading] = useState(false);
+  const [metadataMap, setMetadataMap] = useState<Map<string, ImageMetadata>>(
+    () => getCached(imageUrls, url => imageMetadataCache.get(url))
+  );
+  const [loading, setLoading] = useState(() => imageUrls.some(needsFetch));
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -83,13 +130,27 @@ export function useImageMetadataMap(imageUrls: string[]) {
       return;
     }
 
+    // Stale metadata stays in use while it's refreshed
+    const cached = getCached(supabaseUrls, url => imageMetadataCache.get(url));
+    const missingUrls = supabaseUrls.filter(url => needsLoading(cached.get(url)));
+    const refreshing = missingUrls.every(url => cached.has(url));
+    setMetadataMap(cached);
+
+    if (missingUrls.length === 0) {
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
     const fetchMetadata = async () => {
       try {
-        setLoading(true);
+        if (!refreshing) setLoading(true);
         setError(null);
-        const data = await imageService.getImageMetadataByUrls(supabaseUrls);
-        setMetadataMap(data);
+        const data = await imageService.getImageMetadataByUrls(missingUrls);
+        imageMetadataCache.set(data.values());
+        setMetadataMap(new Map([...cached, ...data]));
       } catch (err) {
+        if (refreshing) return;
         setError(err instanceof Error ? err.message : 'Failed to fetch image metadata');
         setMetadataMap(new Map());
       } finally {
@@ -101,4 +162,60 @@ export function useImageMetadataMap(imageUrls: string[]) {
   }, [imageUrls.join(',')]); // Join URLs to create a stable dependency
 
   return { metadataMap, loading, error };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook to fetch image metadata for multiple blog_images ids
+ */
+export function useImageMetadataByIds(imageIds: string[]) {
+  const [metadataMap, setMetadataMap] = useState<Map<string, ImageMetadata>>(
+    () => getCached(imageIds, id => imageMetadataCache.getById(id))
+  );
+  const [loading, setLoading] = useState(() => imageIds.some(id => !imageMetadataCache.getById(id)));
+  const [error, setError] = useState<string | null>(null);
+
+  // Callers usually pass a new array each render, so key on its contents
+  const idsKey = imageIds.join(',');
+
+  useEffect(() => {
+    if (!idsKey) {
+      setMetadataMap(new Map());
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const ids = idsKey.split(',');
+    // Stale metadata stays in use while it's refreshed
+    const cached = getCached(ids, id => imageMetadataCache.getById(id));
+    const missingIds = ids.filter(id => needsLoading(cached.get(id)));
+    const refreshing = missingIds.every(id => cached.has(id));
+    setMetadataMap(cached);
+
+    if (missingIds.length === 0) {
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const fetchMetadata = async () => {
+      try {
+        if (!refreshing) setLoading(true);
+        setError(null);
+        const data = await imageService.getImageMetadataByIds(missingIds);
+        imageMetadataCache.set(data.values());
+        setMetadataMap(new Map([...cached, ...data]));
+      } catch (err) {
+        if (refreshing) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch image metadata');
+        setMetadataMap(new Map());
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMetadata();
+  }, [idsKey]);
+
+  return { metadataMap, loading, error };
+}
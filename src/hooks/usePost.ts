@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { BlogPost } from '../types/BlogPost';
+import { blogService } from '../services/blogService';
+import { postCache } from '../services/postCache';
+import { isPostId } from '../utils/postUtils';
+
+/**
+ * Look a post up in the shared cache by ID or slug. With `requireFresh`,
+ * posts that came with a prerendered page don't count until loaded again.
+ */
+function getCachedPost(idOrSlug: string, requireFresh: boolean): BlogPost | undefined {
+  const post = isPostId(idOrSlug) ? postCache.get(idOrSlug) : postCache.getBySlug(idOrSlug);
+  return post && !(requireFresh && postCache.isStale(post.id)) ? post : undefined;
+}
+
+/**
+ * Hook to load a single post by ID or slug without downloading the whole blog.
+ * Posts already loaded by a list view are served from the shared cache; one
+ * that came with a prerendered page is shown while it's loaded again in the
+ * background. Pass `requireFresh` to wait for the loaded copy instead, e.g.
+ * when editing.
+ */
+export function usePost(idOrSlug: string | undefined, { requireFresh = false } = {}) {
+  const [post, setPost] = useState<BlogPost | null>(() => (idOrSlug && getCachedPost(idOrSlug, requireFresh)) || null);
+  const [loading, setLoading] = useState(() => Boolean(idOrSlug) && !getCachedPost(idOrSlug || '', requireFresh));
+  const [error, setError] = useState<string | null>(null);
+
+  // Switch to the new post (or the cached copy of it) as soon as the id or
+  // slug changes, rather than showing the previous one until it loads
+  const [currentIdOrSlug, setCurrentIdOrSlug] = useState(idOrSlug);
+  if (idOrSlug !== currentIdOrSlug) {
+    const cachedPost = idOrSlug ? getCachedPost(idOrSlug, requireFresh) : undefined;
+    setCurrentIdOrSlug(idOrSlug);
+    setPost(cachedPost || null);
+    setLoading(Boolean(idOrSlug) && !cachedPost);
+    setError(null);
+  }
+
+  // Ignores responses for a post the hook has since moved on from
+  const requestRef = useRef(0);
+
+  const loadPost = useCallback(async (force = false) => {
+    const requestId = ++requestRef.current;
+    if (!idOrSlug) {
+      setPost(null);
+      setLoading(false);
+      return;
+    }
+
+    const cachedPost = getCachedPost(idOrSlug, requireFresh);
+    // A stale post stays on screen while it's refreshed
+    const refreshing = Boolean(cachedPost) && !force;
+    if (cachedPost && !force) {
+      setPost(cachedPost);
+      setLoading(false);
+      setError(null);
+      if (!postCache.isStale(cachedPost.id)) return;
+    }
+
+    try {
+      if (!refreshing) setLoading(true);
+      setError(null);
+      console.log('Loading blog post from Supabase:', idOrSlug);
+
+      // Slug lookups also resolve slugs the post used before
+      const loadedPost = isPostId(idOrSlug)
+        ? await blogService.getPost(idOrSlug)
+        : await blogService.getPostBySlug(idOrSlug);
+      if (requestId !== requestRef.current) return;
+
+      if (loadedPost) {
+        postCache.set(loadedPost);
+      } else if (cachedPost) {
+        // Unpublished or deleted since the page was built
+        postCache.remove(cachedPost.id);
+      }
+      setPost(loadedPost);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      if (refreshing) {
+        console.error('Error refreshing blog post:', err);
+        return;
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load blog post';
+      console.error('Error loading blog post:', errorMessage);
+      setError(errorMessage);
+      setPost(null);
+    } finally {
+      if (requestId === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [idOrSlug, requireFresh]);
+
+  useEffect(() => {
+    loadPost();
+  }, [loadPost]);
+
+  const refreshPost = useCallback(() => {
+    loadPost(true);
+  }, [loadPost]);
+
+  return {
+    post,
+    loading,
+    error,
+    refreshPost
+  };
+}
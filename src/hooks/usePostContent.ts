@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useImageMetadataByIds } from './useImageMetadata';
+import {
+  parseContentBlocks,
+  getContentImageRefs,
+  getMarkdownImageUrls,
+  resolveContentImageUrl
+} from '../utils/contentUtils';
+
+/**
+ * Hook to parse post content and resolve the images it places inline
+ */
+export function usePostContent(content: string) {
+  const blocks = useMemo(() => parseContentBlocks(content), [content]);
+
+  const imageRefs = useMemo(() => getContentImageRefs(blocks), [blocks]);
+
+  const imageIds = useMemo(
+    () => imageRefs.flatMap(ref => (ref.id ? [ref.id] : [])),
+    [imageRefs]
+  );
+
+  const { metadataMap: imageIdMap } = useImageMetadataByIds(imageIds);
+
+  // Inline image URLs in reading order, without duplicates
+  const contentImageUrls = useMemo(() => {
+    const urls = imageRefs
+      .map(ref => resolveContentImageUrl(ref, imageIdMap))
+      .filter((url): url is string => Boolean(url));
+    return Array.from(new Set(urls));
+  }, [imageRefs, imageIdMap]);
+
+  // Images placed with plain Markdown, which only need their metadata
+  // to show as edited
+  const markdownImageUrls = useMemo(() => getMarkdownImageUrls(blocks), [blocks]);
+
+  return { blocks, imageIdMap, contentImageUrls, markdownImageUrls };
+}
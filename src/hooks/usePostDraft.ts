@@ -0,0 +1,75 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BlogFormData } from '../types/BlogPost';
+import { saveDraft, clearDraft } from '../utils/draftUtils';
+
+// How often unsaved edits are written to local storage
+const AUTOSAVE_INTERVAL = 5000;
+
+interface UsePostDraftOptions {
+  enabled: boolean; // Hold off until the form has loaded and any earlier draft has been dealt with
+  isDirty: boolean; // Whether the form differs from the saved post
+  baseUpdatedAt?: string;
+}
+
+/**
+ * Hook to autosave the post editor's form to local storage while it has
+ * unsaved changes. Edits are written every few seconds and when the page is
+ * hidden or the editor closes; the draft is removed once the form is clean.
+ */
+export function usePostDraft(
+  postId: string | undefined,
+  formData: BlogFormData,
+  { enabled, isDirty, baseUpdatedAt }: UsePostDraftOptions
+) {
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  // Edits not yet written, along with where to write them
+  const pendingRef = useRef<{ postId?: string; formData: BlogFormData; baseUpdatedAt?: string } | null>(null);
+
+  const flushDraft = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+
+    const draft = saveDraft(pending.postId, pending.formData, pending.baseUpdatedAt);
+    if (draft) {
+      setLastSavedAt(draft.savedAt);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (isDirty) {
+      pendingRef.current = { postId, formData, baseUpdatedAt };
+    } else {
+      pendingRef.current = null;
+      clearDraft(postId);
+      setLastSavedAt(null);
+    }
+  }, [postId, formData, baseUpdatedAt, enabled, isDirty]);
+
+  useEffect(() => {
+    const interval = window.setInterval(flushDraft, AUTOSAVE_INTERVAL);
+    window.addEventListener('pagehide', flushDraft);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('pagehide', flushDraft);
+      flushDraft();
+    };
+  }, [flushDraft]);
+
+  /**
+   * Drop the draft, e.g. after the post is saved or the edits are abandoned
+   */
+  const discardDraft = useCallback(() => {
+    pendingRef.current = null;
+    clearDraft(postId);
+    setLastSavedAt(null);
+  }, [postId]);
+
+  return {
+    lastSavedAt,
+    discardDraft
+  };
+}
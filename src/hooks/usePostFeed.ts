@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { PostSummary, PostCursor } from '../types/BlogPost';
+import { blogService } from '../services/blogService';
+import { postCache, PostFeedFilter } from '../services/postCache';
+import { imageService } from '../services/imageService';
+import { imageMetadataCache } from '../services/imageMetadataCache';
+
+/**
+ * Load the metadata of a page's card images along with the page, so the
+ * cards render with their variants instead of each fetching its own
+ */
+async function loadCardImages(posts: PostSummary[]): Promise<void> {
+  const urls = posts
+    .map(post => post.imageUrl)
+    .filter(url => url && !imageMetadataCache.get(url));
+  if (urls.length === 0) return;
+
+  const metadataMap = await imageService.getImageMetadataByUrls(urls);
+  imageMetadataCache.set(metadataMap.values());
+}
+
+/**
+ * Hook to page through published post summaries for the gallery.
+ * Loaded pages are kept in the shared cache so returning from a post
+ * shows the same cards instead of starting over.
+ */
+export function usePostFeed({ category = 'all', tags = [] }: Partial<PostFeedFilter> = {}) {
+  // Callers usually pass a new tags array each render, so key the filter on its contents
+  const tagKey = tags.join(',');
+  const filter = useMemo<PostFeedFilter>(
+    () => ({ category, tags: tagKey ? tagKey.split(',') : [] }),
+    [category, tagKey]
+  );
+
+  const [posts, setPosts] = useState<PostSummary[]>(() => postCache.getFeed(filter)?.posts || []);
+  const [nextCursor, setNextCursor] = useState<PostCursor | null>(() => postCache.getFeed(filter)?.nextCursor || null);
+  const [loading, setLoading] = useState(() => !postCache.getFeed(filter));
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Guards against overlapping requests when the sentinel fires repeatedly
+  const requestRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const loadFirstPage = useCallback(async (force = false) => {
+    const requestId = ++requestRef.current;
+    const cachedFeed = postCache.getFeed(filter);
+    if (cachedFeed && !force) {
+      setPosts(cachedFeed.posts);
+      setNextCursor(cachedFeed.nextCursor);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      console.log('Loading first page of blog posts for filter:', filter);
+
+      const page = await blogService.getPublishedPostPage(filter);
+      await loadCardImages(page.posts);
+      if (requestId !== requestRef.current) return;
+
+      postCache.setFeed(filter, page);
+      setPosts(page.posts);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load blog posts';
+      console.error('Error loading blog posts:', errorMessage);
+      setError(errorMessage);
+      setPosts([]);
+      setNextCursor(null);
+    } finally {
+      if (requestId === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
+
+    const requestId = requestRef.current;
+    try {
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+      setError(null);
+
+      const page = await blogService.getPublishedPostPage({ ...filter, cursor: nextCursor });
+      await loadCardImages(page.posts);
+      if (requestId !== requestRef.current) return;
+
+      const mergedPosts = [
+        ...posts,
+        ...page.posts.filter(post => !posts.some(existing => existing.id === post.id))
+      ];
+      postCache.setFeed(filter, { posts: mergedPosts, nextCursor: page.nextCursor });
+      setPosts(mergedPosts);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load more blog posts';
+      console.error('Error loading more blog posts:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [filter, nextCursor, posts]);
+
+  const refreshPosts = useCallback(() => {
+    loadFirstPage(true);
+  }, [loadFirstPage]);
+
+  return {
+    posts,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refreshPosts
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PostRevision } from '../types/PostRevision';
+import { revisionService } from '../services/revisionService';
+
+/**
+ * Hook to load a post's revision history. Pass the post's `updatedAt` as
+ * `version` so the list reloads after each save.
+ */
+export function usePostRevisions(postId: string | undefined, version?: string) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(Boolean(postId));
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    if (!postId) {
+      setRevisions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await revisionService.getRevisions(postId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load revisions';
+      console.error('Error loading revisions:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, version]);
+
+  return {
+    revisions,
+    loading,
+    error,
+    refreshRevisions: loadRevisions
+  };
+}
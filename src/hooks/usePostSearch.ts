@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { PostSearchResult } from '../types/BlogPost';
+import { blogService } from '../services/blogService';
+
+/**
+ * Hook to run a full-text search whenever the query changes
+ */
+export function usePostSearch(query: string) {
+  const [results, setResults] = useState<PostSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const searchQuery = query.trim();
+    if (!searchQuery) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const runSearch = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        console.log('Searching blog posts for:', searchQuery);
+
+        const searchResults = await blogService.searchPosts(searchQuery);
+        if (!isCancelled) {
+          setResults(searchResults);
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to search blog posts';
+          console.error('Error searching blog posts:', errorMessage);
+          setError(errorMessage);
+          setResults([]);
+        }
+      } finally {
+        if (!isCancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    runSearch();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [query]);
+
+  return {
+    results,
+    loading,
+    error
+  };
+}
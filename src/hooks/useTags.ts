@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TagWithCount } from '../types/Tag';
+import { tagService } from '../services/tagService';
+
+// Shared between the gallery filter and the editor's autocomplete. Each mount
+// shows the last known tags right away and refreshes them in the background,
+// so tags created while saving a post show up next time.
+let cachedTags: TagWithCount[] | null = null;
+let pendingLoad: Promise<TagWithCount[]> | null = null;
+
+function loadTags(): Promise<TagWithCount[]> {
+  if (!pendingLoad) {
+    pendingLoad = tagService.getTags()
+      .then(tags => {
+        cachedTags = tags;
+        return tags;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+}
+
+/**
+ * Hook to load all tags with their post counts, most used first
+ */
+export function useTags() {
+  const [tags, setTags] = useState<TagWithCount[]>(() => cachedTags || []);
+  const [loading, setLoading] = useState(() => !cachedTags);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      setError(null);
+      setTags(await loadTags());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load tags';
+      console.error('Error loading tags:', errorMessage);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  return {
+    tags,
+    loading,
+    error,
+    refreshTags: fetchTags
+  };
+}
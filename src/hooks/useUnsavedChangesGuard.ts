@@ -0,0 +1,42 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { useBlocker, BlockerFunction } from 'react-router-dom';
+
+/**
+ * Hook to stop the user leaving a page with unsaved changes. Links and
+ * back/forward within the app are held by the returned blocker, for the page
+ * to confirm or reset; closing or reloading the tab gets the browser's prompt.
+ */
+export function useUnsavedChangesGuard(hasUnsavedChanges: boolean) {
+  // Set once the changes are saved, for the navigation that follows
+  const allowedRef = useRef(false);
+
+  const blocker = useBlocker(useCallback<BlockerFunction>(
+    ({ currentLocation, nextLocation }) =>
+      hasUnsavedChanges && !allowedRef.current && currentLocation.pathname !== nextLocation.pathname,
+    [hasUnsavedChanges]
+  ));
+
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  /**
+   * Let the next navigation through without asking
+   */
+  const allowNavigation = useCallback(() => {
+    allowedRef.current = true;
+  }, []);
+
+  return {
+    blocker,
+    allowNavigation
+  };
+}
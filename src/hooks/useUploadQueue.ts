@@ -0,0 +1,198 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { imageService, ImageUploadProgress, ImageUploadResult, ImageDuplicate } from '../services/imageService';
+import { ImageHashes } from '../utils/imageHashUtils';
+
+export type UploadQueueStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  altText: string;
+  caption: string;
+  status: UploadQueueStatus;
+  checking: boolean; // Still looking for the file in the library
+  hashes?: ImageHashes;
+  duplicate?: ImageDuplicate; // Closest match already in the library
+  reuseDuplicate: boolean; // Use the match instead of uploading
+  progress?: ImageUploadProgress;
+  error?: string;
+  result?: ImageUploadResult;
+}
+
+// Details shared by every file in the batch
+export interface UploadQueueDefaults {
+  photographer: string;
+  copyright: string;
+  stripGps: boolean;
+  albumId?: string;
+}
+
+// Enough to keep the connection busy without decoding too many photos at once
+const UPLOAD_CONCURRENCY = 3;
+
+let nextItemId = 0;
+
+function createItem(file: File): UploadQueueItem {
+  nextItemId += 1;
+  return {
+    id: `upload-${nextItemId}`,
+    file,
+    altText: '',
+    caption: '',
+    status: 'pending',
+    checking: true,
+    reuseDuplicate: false
+  };
+}
+
+/**
+ * Hook to upload a batch of images a few at a time, with per-file alt text,
+ * caption and progress. Files already in the library are found first, and
+ * reused instead of uploaded when the same file is there. Failed files stay
+ * in the queue to be retried.
+ */
+export function useUploadQueue(folder?: string, initialFiles: File[] = []) {
+  const [items, setItems] = useState<UploadQueueItem[]>(() => initialFiles.map(createItem));
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Uploads finish out of render, so keep the latest list where they can read it
+  const itemsRef = useRef(items);
+
+  const commit = useCallback((update: (current: UploadQueueItem[]) => UploadQueueItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const patchItem = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    commit(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, [commit]);
+
+  // Items already looked up, so a re-run effect doesn't check them twice
+  const checkedIdsRef = useRef(new Set<string>());
+
+  const checkForDuplicates = useCallback(async (ids: string[]) => {
+    // One at a time, since hashing decodes the whole photo
+    for (const id of ids) {
+      if (checkedIdsRef.current.has(id)) continue;
+      checkedIdsRef.current.add(id);
+
+      const item = itemsRef.current.find(candidate => candidate.id === id);
+      if (!item) continue;
+
+      const hashes = await imageService.hashImageFile(item.file);
+      const duplicates = hashes ? await imageService.findDuplicateImages(hashes) : [];
+      patchItem(id, {
+        checking: false,
+        hashes: hashes ?? undefined,
+        duplicate: duplicates[0],
+        reuseDuplicate: Boolean(duplicates[0]?.exact)
+      });
+    }
+  }, [patchItem]);
+
+  useEffect(() => {
+    checkForDuplicates(itemsRef.current.filter(item => item.checking).map(item => item.id));
+  }, [checkForDuplicates]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map(createItem);
+    commit(current => [...current, ...added]);
+    checkForDuplicates(added.map(item => item.id));
+  }, [commit, checkForDuplicates]);
+
+  const updateItem = useCallback((id: string, changes: Partial<Pick<UploadQueueItem, 'altText' | 'caption' | 'reuseDuplicate'>>) => {
+    patchItem(id, changes);
+  }, [patchItem]);
+
+  const removeItem = useCallback((id: string) => {
+    commit(current => current.filter(item => item.id !== id));
+  }, [commit]);
+
+  /**
+   * Upload the given items and resolve with the whole queue once they've
+   * all finished or failed
+   */
+  const uploadItems = useCallback(async (ids: string[], defaults: UploadQueueDefaults) => {
+    if (ids.length === 0) return itemsRef.current;
+
+    setIsUploading(true);
+    commit(current => current.map(item =>
+      ids.includes(item.id) ? { ...item, status: 'pending', progress: undefined, error: undefined } : item
+    ));
+
+    const waiting = [...ids];
+    const worker = async () => {
+      let id: string | undefined;
+      while ((id = waiting.shift()) !== undefined) {
+        const itemId = id;
+        const item = itemsRef.current.find(candidate => candidate.id === itemId);
+        if (!item) continue; // Removed while waiting
+
+        if (item.reuseDuplicate && item.duplicate) {
+          patchItem(itemId, { status: 'done', result: imageService.toUploadResult(item.duplicate.image) });
+          continue;
+        }
+
+        patchItem(itemId, { status: 'uploading', progress: { stage: 'uploading', fraction: 0 } });
+
+        try {
+          const result = await imageService.uploadImage(
+            item.file,
+            folder,
+            {
+              photographer: defaults.photographer,
+              copyright: defaults.copyright,
+              altText: item.altText,
+              caption: item.caption,
+              stripGps: defaults.stripGps,
+              hashes: item.hashes,
+              albumId: defaults.albumId
+            },
+            progress => patchItem(itemId, { progress })
+          );
+          patchItem(itemId, { status: 'done', result, progress: { stage: 'saving', fraction: 1 } });
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Upload failed';
+          patchItem(itemId, { status: 'failed', error: errorMessage, progress: undefined });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, ids.length) }, worker));
+    setIsUploading(false);
+    return itemsRef.current;
+  }, [folder, commit, patchItem]);
+
+  const startUpload = useCallback((defaults: UploadQueueDefaults) => {
+    const ids = itemsRef.current.filter(item => item.status === 'pending').map(item => item.id);
+    return uploadItems(ids, defaults);
+  }, [uploadItems]);
+
+  const retryFailed = useCallback((defaults: UploadQueueDefaults) => {
+    const ids = itemsRef.current.filter(item => item.status === 'failed').map(item => item.id);
+    return uploadItems(ids, defaults);
+  }, [uploadItems]);
+
+  const retryItem = useCallback((id: string, defaults: UploadQueueDefaults) => {
+    return uploadItems([id], defaults);
+  }, [uploadItems]);
+
+  const results = items
+    .filter(item => item.status === 'done' && item.result)
+    .map(item => item.result as ImageUploadResult);
+
+  const isChecking = items.some(item => item.checking);
+
+  return {
+    items,
+    results,
+    isUploading,
+    isChecking,
+    addFiles,
+    updateItem,
+    removeItem,
+    startUpload,
+    retryFailed,
+    retryItem
+  };
+}
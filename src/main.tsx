@@ -1,22 +1,30 @@
 import { StrictMode } from 'react';
-import { createRoot } from 'react-dom/client';
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
-import Gallery from './components/Gallery';
-import BlogPost from './components/BlogPost';
-import PostList from './components/admin/PostList';
-import PostForm from './components/admin/PostForm';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import App from './App';
+import { postCache } from './services/postCache';
+import { imageMetadataCache } from './services/imageMetadataCache';
+import { primeCategories } from './hooks/useCategories';
+import { readPreloadedState } from './utils/preloadUtils';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
+const container = document.getElementById('root')!;
+const app = (
   <StrictMode>
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Gallery />} />
-        <Route path="/post/:id" element={<BlogPost />} />
-        <Route path="/admin" element={<PostList />} />
-        <Route path="/admin/new" element={<PostForm />} />
-        <Route path="/admin/edit/:id" element={<PostForm />} />
-      </Routes>
-    </BrowserRouter>
+    <App />
   </StrictMode>
 );
+
+// Prerendered post pages already contain the article; seed the caches with
+// the data it was rendered from so the first render matches, then hydrate.
+// The post and its images are loaded again once the page is up, since they
+// may have changed since the build.
+const preloadedState = readPreloadedState();
+
+if (preloadedState && container.hasChildNodes()) {
+  postCache.setPreloaded(preloadedState.post);
+  primeCategories(preloadedState.categories);
+  imageMetadataCache.setPreloaded(preloadedState.images);
+  hydrateRoot(container, app);
+} else {
+  createRoot(container).render(app);
+}
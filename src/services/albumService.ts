@@ -0,0 +1,132 @@
+import { supabase } from '../lib/supabase';
+import { ImageAlbum, ImageAlbumFormData } from '../types/ImageAlbum';
+
+export interface DatabaseImageAlbum {
+  id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+  blog_images?: { count: number }[]; // Embedded count, when selected
+}
+
+class AlbumService {
+  /**
+   * Convert database format to app format
+   */
+  private mapDatabaseToApp(dbAlbum: DatabaseImageAlbum): ImageAlbum {
+    return {
+      id: dbAlbum.id,
+      name: dbAlbum.name,
+      description: dbAlbum.description ?? undefined,
+      imageCount: dbAlbum.blog_images?.[0]?.count ?? 0,
+      createdAt: dbAlbum.created_at
+    };
+  }
+
+  /**
+   * Explain insert/update errors in terms an editor can act on
+   */
+  private describeWriteError(error: { code?: string; message: string }): string {
+    if (error.code === '23505') {
+      return 'Another album already has this name. Please choose a different one.';
+    }
+    if (error.code === '23514') {
+      return 'Albums need a name.';
+    }
+    return error.message;
+  }
+
+  /**
+   * Get all albums by name, with how many images each holds
+   */
+  async getAlbums(): Promise<ImageAlbum[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_image_albums')
+        .select('*, blog_images(count)')
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch albums: ${error.message}`);
+      }
+
+      return data.map((item: DatabaseImageAlbum) => this.mapDatabaseToApp(item));
+    } catch (error) {
+      console.error('Error fetching albums:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch albums');
+    }
+  }
+
+  /**
+   * Create an empty album
+   */
+  async createAlbum(albumData: ImageAlbumFormData): Promise<ImageAlbum> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_image_albums')
+        .insert({
+          name: albumData.name.trim(),
+          description: albumData.description.trim() || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create album: ${this.describeWriteError(error)}`);
+      }
+
+      return this.mapDatabaseToApp(data);
+    } catch (error) {
+      console.error('Error creating album:', error);
+      throw error instanceof Error ? error : new Error('Failed to create album');
+    }
+  }
+
+  /**
+   * Rename an album or change its description
+   */
+  async updateAlbum(id: string, albumData: ImageAlbumFormData): Promise<ImageAlbum> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_image_albums')
+        .update({
+          name: albumData.name.trim(),
+          description: albumData.description.trim() || null
+        })
+        .eq('id', id)
+        .select('*, blog_images(count)')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update album: ${this.describeWriteError(error)}`);
+      }
+
+      return this.mapDatabaseToApp(data);
+    } catch (error) {
+      console.error('Error updating album:', error);
+      throw error instanceof Error ? error : new Error('Failed to update album');
+    }
+  }
+
+  /**
+   * Delete an album. Its images stay in the library without an album.
+   */
+  async deleteAlbum(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('blog_image_albums')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw new Error(`Failed to delete album: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error deleting album:', error);
+      throw error instanceof Error ? error : new Error('Failed to delete album');
+    }
+  }
+}
+
+export const albumService = new AlbumService();
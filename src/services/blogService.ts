@@ -1,8 +1,11 @@
 import { supabase } from '../lib/supabase';
-import { BlogPost, BlogFormData } from '../types/BlogPost';
+import { BlogPost, BlogFormData, PostStatus, PostSummary, PostCursor, PostPage, PostSearchResult } from '../types/BlogPost';
+import { sortTags } from '../utils/tagUtils';
+import { tagService, mapDatabaseToTag, DatabaseTag } from './tagService';
 
 export interface DatabaseBlogPost {
   id: string;
+  slug: string;
   title: string;
   category: string;
   image_url: string;
@@ -11,9 +14,39 @@ export interface DatabaseBlogPost {
   content: string;
   image_metadata?: any; // Store additional metadata like Flickr info
   read_time: string;
+  status: PostStatus;
+  published_at?: string | null;
   created_at: string;
   updated_at: string;
   created_by?: string;
+  tags?: DatabaseTag[]; // Embedded through blog_post_tags
+}
+
+export type DatabasePostSummary = Pick<
+  DatabaseBlogPost,
+  'id' | 'slug' | 'title' | 'category' | 'image_url' | 'excerpt' | 'read_time' | 'image_metadata' | 'published_at' | 'created_at' | 'tags'
+>;
+
+// Full posts, with their tags embedded through the link table
+const POST_COLUMNS = '*, tags(id, slug, name)';
+
+// Columns needed to render a gallery card, so feeds don't download full post content
+const POST_SUMMARY_COLUMNS = 'id, slug, title, category, image_url, excerpt, read_time, image_metadata, published_at, created_at, tags(id, slug, name)';
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+/**
+ * Thrown when a post was saved elsewhere after it was loaded for editing.
+ * Carries the post as it is now, so the editor can merge the two versions.
+ */
+export class PostConflictError extends Error {
+  readonly currentPost: BlogPost;
+
+  constructor(currentPost: BlogPost) {
+    super('This post was changed somewhere else after you opened it. Choose which changes to keep, then save again.');
+    this.name = 'PostConflictError';
+    this.currentPost = currentPost;
+  }
 }
 
 class BlogService {
@@ -23,6 +56,7 @@ class BlogService {
   private mapDatabaseToApp(dbPost: DatabaseBlogPost): BlogPost {
     return {
       id: dbPost.id,
+      slug: dbPost.slug,
       title: dbPost.title,
       category: dbPost.category,
       imageUrl: dbPost.image_url,
@@ -31,21 +65,63 @@ class BlogService {
       content: dbPost.content,
       imageMetadata: dbPost.image_metadata,
       readTime: dbPost.read_time,
-      date: new Date(dbPost.created_at).toISOString().split('T')[0]
+      status: dbPost.status,
+      publishedAt: dbPost.published_at || undefined,
+      updatedAt: dbPost.updated_at,
+      tags: sortTags((dbPost.tags || []).map(mapDatabaseToTag)),
+      date: new Date(dbPost.published_at || dbPost.created_at).toISOString().split('T')[0]
+    };
+  }
+
+  /**
+   * Convert a card projection row to a post summary
+   */
+  private mapDatabaseToSummary(dbPost: DatabasePostSummary): PostSummary {
+    return {
+      id: dbPost.id,
+      slug: dbPost.slug,
+      title: dbPost.title,
+      category: dbPost.category,
+      imageUrl: dbPost.image_url,
+      excerpt: dbPost.excerpt,
+      imageMetadata: dbPost.image_metadata,
+      readTime: dbPost.read_time,
+      publishedAt: dbPost.published_at || undefined,
+      tags: sortTags((dbPost.tags || []).map(mapDatabaseToTag)),
+      date: new Date(dbPost.published_at || dbPost.created_at).toISOString().split('T')[0]
     };
   }
 
+  /**
+   * Explain insert/update errors, calling out duplicate slugs
+   */
+  private describeWriteError(error: { code?: string; message: string }): string {
+    if (error.code === '23505' && error.message.includes('slug')) {
+      return 'Another post already uses this URL slug. Please choose a different one.';
+    }
+    if (error.code === '23503' && error.message.includes('category')) {
+      return 'The selected category no longer exists. Please choose another one.';
+    }
+    return error.message;
+  }
+
   /**
    * Convert app format to database format
    */
-  private mapAppToDatabase(appPost: BlogFormData): Omit<DatabaseBlogPost, 'id' | 'read_time' | 'created_at' | 'updated_at'> {
+  private mapAppToDatabase(
+    appPost: BlogFormData
+  ): Omit<DatabaseBlogPost, 'id' | 'slug' | 'read_time' | 'created_at' | 'updated_at' | 'tags'> & { slug: string | null } {
     return {
       title: appPost.title,
+      // Left blank, the database makes one from the title that no other post uses
+      slug: appPost.slug.trim() || null,
       category: appPost.category,
       image_url: appPost.imageUrl,
       images: appPost.images || [],
       excerpt: appPost.excerpt,
       content: appPost.content,
+      status: appPost.status,
+      published_at: appPost.publishedAt || null,
       image_metadata: appPost.imageMetadata
     };
   }
@@ -57,7 +133,7 @@ class BlogService {
     try {
       const { data, error } = await supabase
         .from('blog_posts')
-        .select('*')
+        .select(POST_COLUMNS)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -71,6 +147,93 @@ class BlogService {
     }
   }
 
+  /**
+   * Get posts readers can see: published, or scheduled with a publish date that has passed
+   */
+  async getPublishedPosts(): Promise<BlogPost[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_posts')
+        .select(POST_COLUMNS)
+        .in('status', ['published', 'scheduled'])
+        .lte('published_at', new Date().toISOString())
+        .order('published_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch published blog posts: ${error.message}`);
+      }
+
+      return data.map(this.mapDatabaseToApp);
+    } catch (error) {
+      console.error('Error fetching published blog posts:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch published blog posts');
+    }
+  }
+
+  /**
+   * Get one page of published post summaries, newest first.
+   * Pass the previous page's `nextCursor` to continue where it left off.
+   */
+  async getPublishedPostPage(options: {
+    cursor?: PostCursor | null;
+    category?: string;
+    tags?: string[]; // Tag slugs; posts must have all of them
+    pageSize?: number;
+  } = {}): Promise<PostPage> {
+    const { cursor, category, tags = [], pageSize = DEFAULT_PAGE_SIZE } = options;
+
+    try {
+      const taggedPostIds = tags.length > 0 ? await tagService.getPostIdsWithTags(tags) : null;
+      if (taggedPostIds && taggedPostIds.length === 0) {
+        return { posts: [], nextCursor: null };
+      }
+
+      let query = supabase
+        .from('blog_posts')
+        .select(POST_SUMMARY_COLUMNS)
+        .in('status', ['published', 'scheduled'])
+        .lte('published_at', new Date().toISOString());
+
+      if (category && category !== 'all') {
+        query = query.eq('category', category);
+      }
+
+      if (taggedPostIds) {
+        query = query.in('id', taggedPostIds);
+      }
+
+      if (cursor) {
+        // Keyset pagination on (published_at, id) so posts sharing a timestamp aren't skipped
+        query = query.or(
+          `published_at.lt."${cursor.publishedAt}",and(published_at.eq."${cursor.publishedAt}",id.lt.${cursor.id})`
+        );
+      }
+
+      // Fetch one extra row to find out whether another page exists
+      const { data, error } = await query
+        .order('published_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(pageSize + 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch blog posts: ${error.message}`);
+      }
+
+      const rows = data.slice(0, pageSize);
+      const lastRow = rows[rows.length - 1];
+
+      return {
+        posts: rows.map(row => this.mapDatabaseToSummary(row)),
+        nextCursor: data.length > pageSize && lastRow?.published_at
+          ? { publishedAt: lastRow.published_at, id: lastRow.id }
+          : null
+      };
+    } catch (error) {
+      console.error('Error fetching blog post page:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch blog posts');
+    }
+  }
+
   /**
    * Get a single blog post by ID
    */
@@ -78,7 +241,7 @@ class BlogService {
     try {
       const { data, error } = await supabase
         .from('blog_posts')
-        .select('*')
+        .select(POST_COLUMNS)
         .eq('id', id)
         .single();
 
@@ -96,21 +259,87 @@ class BlogService {
     }
   }
 
+  /**
+   * Get a single blog post by slug, falling back to slugs the post used before.
+   * Callers should redirect when the returned post's slug differs from the one requested.
+   */
+  async getPostBySlug(slug: string): Promise<BlogPost | null> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_posts')
+        .select(POST_COLUMNS)
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch blog post: ${error.message}`);
+      }
+
+      if (data) {
+        return this.mapDatabaseToApp(data);
+      }
+
+      // Look the slug up in the post's previous slugs
+      const { data: history, error: historyError } = await supabase
+        .from('blog_post_slug_history')
+        .select('post_id')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (historyError) {
+        throw new Error(`Failed to fetch blog post: ${historyError.message}`);
+      }
+
+      return history ? this.getPost(history.post_id) : null;
+    } catch (error) {
+      console.error('Error fetching blog post by slug:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch blog post');
+    }
+  }
+
+  /**
+   * Check if a slug is free to use (optionally ignoring the post being edited)
+   */
+  async isSlugAvailable(slug: string, excludeId?: string): Promise<boolean> {
+    try {
+      let query = supabase
+        .from('blog_posts')
+        .select('id')
+        .eq('slug', slug);
+
+      if (excludeId) {
+        query = query.neq('id', excludeId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to check slug: ${error.message}`);
+      }
+
+      return data.length === 0;
+    } catch (error) {
+      console.error('Error checking slug availability:', error);
+      throw error instanceof Error ? error : new Error('Failed to check slug');
+    }
+  }
+
   /**
    * Create a new blog post
    */
   async createPost(postData: BlogFormData): Promise<BlogPost> {
     try {
-      const dbData = this.mapAppToDatabase(postData);
-
+      // Saved with its tags in one transaction, so a failure leaves nothing behind
       const { data, error } = await supabase
-        .from('blog_posts')
-        .insert(dbData)
-        .select()
+        .rpc('save_blog_post', {
+          post: this.mapAppToDatabase(postData),
+          tag_names: postData.tags
+        })
+        .select(POST_COLUMNS)
         .single();
 
       if (error) {
-        throw new Error(`Failed to create blog post: ${error.message}`);
+        throw new Error(`Failed to create blog post: ${this.describeWriteError(error)}`);
       }
 
       return this.mapDatabaseToApp(data);
@@ -121,28 +350,97 @@ class BlogService {
   }
 
   /**
-   * Update an existing blog post
+   * Update an existing blog post. Pass the `updatedAt` the post had when it
+   * was loaded to only save if nobody has changed it since; otherwise a
+   * PostConflictError is thrown.
    */
-  async updatePost(id: string, postData: BlogFormData): Promise<BlogPost> {
+  async updatePost(id: string, postData: BlogFormData, expectedUpdatedAt?: string): Promise<BlogPost> {
     try {
-      const dbData = this.mapAppToDatabase(postData);
+      // Saved with its tags in one transaction, so a failure changes neither
+      const { data, error } = await supabase
+        .rpc('save_blog_post', {
+          post: this.mapAppToDatabase(postData),
+          tag_names: postData.tags,
+          target_post_id: id,
+          expected_updated_at: expectedUpdatedAt || null
+        })
+        .select(POST_COLUMNS)
+        .single();
+
+      if (error) {
+        // No row matched, so the post changed (or went away) since it was loaded
+        if (error.code === 'PGRST116' && expectedUpdatedAt) {
+          const currentPost = await this.getPost(id);
+          if (!currentPost) {
+            throw new Error('This post has been deleted.');
+          }
+          throw new PostConflictError(currentPost);
+        }
+        throw new Error(`Failed to update blog post: ${this.describeWriteError(error)}`);
+      }
 
+      return this.mapDatabaseToApp(data);
+    } catch (error) {
+      console.error('Error updating blog post:', error);
+      throw error instanceof Error ? error : new Error('Failed to update blog post');
+    }
+  }
+
+  /**
+   * Change the publishing status of a post
+   */
+  private async updateStatus(
+    id: string,
+    changes: Pick<DatabaseBlogPost, 'status'> & Partial<Pick<DatabaseBlogPost, 'published_at'>>
+  ): Promise<BlogPost> {
+    try {
       const { data, error } = await supabase
         .from('blog_posts')
-        .update(dbData)
+        .update(changes)
         .eq('id', id)
-        .select()
+        .select(POST_COLUMNS)
         .single();
 
       if (error) {
-        throw new Error(`Failed to update blog post: ${error.message}`);
+        throw new Error(`Failed to update blog post status: ${error.message}`);
       }
 
       return this.mapDatabaseToApp(data);
     } catch (error) {
-      console.error('Error updating blog post:', error);
-      throw error instanceof Error ? error : new Error('Failed to update blog post');
+      console.error('Error updating blog post status:', error);
+      throw error instanceof Error ? error : new Error('Failed to update blog post status');
+    }
+  }
+
+  /**
+   * Publish a post now (keeps the original publish date if it was published before)
+   */
+  async publishPost(id: string): Promise<BlogPost> {
+    return this.updateStatus(id, { status: 'published' });
+  }
+
+  /**
+   * Return a post to draft so readers can no longer see it
+   */
+  async unpublishPost(id: string): Promise<BlogPost> {
+    return this.updateStatus(id, { status: 'draft' });
+  }
+
+  /**
+   * Schedule a post to go live at a future date
+   */
+  async schedulePost(id: string, publishAt: string): Promise<BlogPost> {
+    if (new Date(publishAt).getTime() <= Date.now()) {
+      throw new Error('Scheduled publish date must be in the future');
     }
+    return this.updateStatus(id, { status: 'scheduled', published_at: publishAt });
+  }
+
+  /**
+   * Archive a post, hiding it from readers without deleting it
+   */
+  async archivePost(id: string): Promise<BlogPost> {
+    return this.updateStatus(id, { status: 'archived' });
   }
 
   /**
@@ -171,7 +469,7 @@ class BlogService {
     try {
       const { data, error } = await supabase
         .from('blog_posts')
-        .select('*')
+        .select(POST_COLUMNS)
         .eq('category', category)
         .order('created_at', { ascending: false });
 
@@ -187,21 +485,30 @@ class BlogService {
   }
 
   /**
-   * Search posts by title or content
+   * Full-text search over live posts, best matches first. The query is passed
+   * to Postgres as a parameter, so punctuation in it can't break the filter.
    */
-  async searchPosts(query: string): Promise<BlogPost[]> {
+  async searchPosts(query: string, limit = 30): Promise<PostSearchResult[]> {
+    const searchQuery = query.trim();
+    if (!searchQuery) {
+      return [];
+    }
+
     try {
-      const { data, error } = await supabase
-        .from('blog_posts')
-        .select('*')
-        .or(`title.ilike.%${query}%,content.ilike.%${query}%,excerpt.ilike.%${query}%`)
-        .order('created_at', { ascending: false });
+      const { data, error } = await supabase.rpc('search_blog_posts', {
+        search_query: searchQuery,
+        result_limit: limit
+      });
 
       if (error) {
         throw new Error(`Failed to search blog posts: ${error.message}`);
       }
 
-      return data.map(this.mapDatabaseToApp);
+      return (data || []).map((row: DatabasePostSummary & { rank: number; snippet: string }) => ({
+        ...this.mapDatabaseToSummary(row),
+        rank: row.rank,
+        snippet: row.snippet
+      }));
     } catch (error) {
       console.error('Error searching blog posts:', error);
       throw error instanceof Error ? error : new Error('Failed to search blog posts');
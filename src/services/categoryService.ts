@@ -0,0 +1,188 @@
+import { supabase } from '../lib/supabase';
+import { Category, CategoryFormData } from '../types/Category';
+
+export interface DatabaseCategory {
+  id: string;
+  slug: string;
+  label: string;
+  color: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+class CategoryService {
+  /**
+   * Convert database format to app format
+   */
+  private mapDatabaseToApp(dbCategory: DatabaseCategory): Category {
+    return {
+      id: dbCategory.id,
+      slug: dbCategory.slug,
+      label: dbCategory.label,
+      color: dbCategory.color,
+      sortOrder: dbCategory.sort_order
+    };
+  }
+
+  /**
+   * Explain insert/update/delete errors in terms an editor can act on
+   */
+  private describeWriteError(error: { code?: string; message: string }): string {
+    if (error.code === '23505') {
+      return 'Another category already uses this slug. Please choose a different one.';
+    }
+    if (error.code === '23503') {
+      return 'This category still has posts. Move them to another category before deleting it.';
+    }
+    if (error.code === '23514') {
+      return 'Slugs may only use lowercase letters, numbers and single hyphens, and colors must be hex values like #2563eb.';
+    }
+    return error.message;
+  }
+
+  /**
+   * Get all categories in display order
+   */
+  async getCategories(): Promise<Category[]> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('label', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch categories: ${error.message}`);
+      }
+
+      return data.map(this.mapDatabaseToApp);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch categories');
+    }
+  }
+
+  /**
+   * Create a category at the end of the list
+   */
+  async createCategory(categoryData: CategoryFormData, sortOrder: number): Promise<Category> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .insert({
+          slug: categoryData.slug,
+          label: categoryData.label.trim(),
+          color: categoryData.color,
+          sort_order: sortOrder
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create category: ${this.describeWriteError(error)}`);
+      }
+
+      return this.mapDatabaseToApp(data);
+    } catch (error) {
+      console.error('Error creating category:', error);
+      throw error instanceof Error ? error : new Error('Failed to create category');
+    }
+  }
+
+  /**
+   * Update a category. Changing the slug moves its posts along with it.
+   */
+  async updateCategory(id: string, categoryData: CategoryFormData): Promise<Category> {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .update({
+          slug: categoryData.slug,
+          label: categoryData.label.trim(),
+          color: categoryData.color
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update category: ${this.describeWriteError(error)}`);
+      }
+
+      return this.mapDatabaseToApp(data);
+    } catch (error) {
+      console.error('Error updating category:', error);
+      throw error instanceof Error ? error : new Error('Failed to update category');
+    }
+  }
+
+  /**
+   * Save a new display order, given category IDs in order
+   */
+  async reorderCategories(orderedIds: string[]): Promise<void> {
+    try {
+      const results = await Promise.all(
+        orderedIds.map((id, index) =>
+          supabase
+            .from('categories')
+            .update({ sort_order: (index + 1) * 10 })
+            .eq('id', id)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        throw new Error(`Failed to reorder categories: ${failed.error.message}`);
+      }
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      throw error instanceof Error ? error : new Error('Failed to reorder categories');
+    }
+  }
+
+  /**
+   * Delete a category. Fails while any post still uses it.
+   */
+  async deleteCategory(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw new Error(`Failed to delete category: ${this.describeWriteError(error)}`);
+      }
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      throw error instanceof Error ? error : new Error('Failed to delete category');
+    }
+  }
+
+  /**
+   * Count posts in each category, keyed by slug
+   */
+  async getPostCounts(): Promise<Map<string, number>> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_posts')
+        .select('category');
+
+      if (error) {
+        throw new Error(`Failed to count posts by category: ${error.message}`);
+      }
+
+      const counts = new Map<string, number>();
+      data.forEach(({ category }) => {
+        counts.set(category, (counts.get(category) || 0) + 1);
+      });
+      return counts;
+    } catch (error) {
+      console.error('Error counting posts by category:', error);
+      throw error instanceof Error ? error : new Error('Failed to count posts by category');
+    }
+  }
+}
+
+export const categoryService = new CategoryService();
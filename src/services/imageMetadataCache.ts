@@ -0,0 +1,68 @@
+import type { ImageMetadata } from './imageService';
+
+/**
+ * In-memory cache of uploaded images' metadata shared by every view, so an
+ * image that's been seen before (or came with the page) renders with its
+ * variants straight away instead of waiting for them to load.
+ */
+class ImageMetadataCache {
+  private byUrl = new Map<string, ImageMetadata>();
+  private byId = new Map<string, ImageMetadata>();
+  private stale = new Set<string>();
+
+  /**
+   * Get a cached image by its public URL
+   */
+  get(url: string): ImageMetadata | undefined {
+    return this.byUrl.get(url);
+  }
+
+  /**
+   * Get a cached image by ID
+   */
+  getById(id: string): ImageMetadata | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Check if a cached image came with a prerendered page and hasn't been
+   * loaded since. It may have been edited after the page was built.
+   */
+  isStale(id: string): boolean {
+    return this.stale.has(id);
+  }
+
+  /**
+   * Cache loaded images, replacing older copies of them
+   */
+  set(images: Iterable<ImageMetadata>): void {
+    for (const image of images) {
+      this.byUrl.set(image.publicUrl, image);
+      this.byId.set(image.id, image);
+      this.stale.delete(image.id);
+    }
+  }
+
+  /**
+   * Cache the images a prerendered page came with, to show until they're
+   * loaded again
+   */
+  setPreloaded(images: ImageMetadata[]): void {
+    this.set(images);
+    images.forEach(image => this.stale.add(image.id));
+  }
+
+  /**
+   * Drop a deleted image
+   */
+  remove(id: string): void {
+    const image = this.byId.get(id);
+    if (image) {
+      this.byUrl.delete(image.publicUrl);
+    }
+    this.byId.delete(id);
+    this.stale.delete(id);
+  }
+}
+
+export const imageMetadataCache = new ImageMetadataCache();
@@ -1,5 +1,30 @@
 import { supabase } from '../lib/supabase';
-import heic2any from 'heic2any';
+import { imageMetadataCache } from './imageMetadataCache';
+import { IMAGE_VARIANT_WIDTHS, getVariantFallbackType } from '../utils/imageUtils';
+import { ExifData, readExif, stripJpegGps, hasEmbeddedMetadata } from '../utils/exifUtils';
+import { ImageHashes, SIMILAR_IMAGE_MAX_DISTANCE, computeContentHash, computePerceptualHash } from '../utils/imageHashUtils';
+import {
+  ImageRotation,
+  ImageCrop,
+  FocalPoint,
+  ImageEdits,
+  drawEditedImage,
+  hasImageEdits,
+  isCropped,
+  isSameCrop,
+  normalizeCrop
+} from '../utils/imageEditUtils';
+import { PostStatus } from '../types/BlogPost';
+import { isImageId } from '../utils/contentUtils';
+
+// A downscaled copy of an uploaded image
+export interface ImageVariant {
+  width: number;
+  height: number;
+  mimeType: string;
+  storagePath: string;
+  publicUrl: string;
+}
 
 export interface ImageUploadResult {
   id: string;
@@ -7,6 +32,7 @@ export interface ImageUploadResult {
   publicUrl: string;
   width?: number;
   height?: number;
+  variants: ImageVariant[];
 }
 
 export interface ImageMetadata {
@@ -22,24 +48,261 @@ export interface ImageMetadata {
   caption?: string;
   photographer: string;
   copyright: string;
+  variants: ImageVariant[];
+  exif: ExifData;
+  albumId?: string;
+  rotation: ImageRotation;
+  crop?: ImageCrop;
+  focalPoint?: FocalPoint;
   createdAt: string;
 }
 
+export interface DatabaseImageVariant {
+  width: number;
+  height: number;
+  mime_type: string;
+  storage_path: string;
+  public_url: string;
+}
+
+export interface DatabaseImage {
+  id: string;
+  filename: string;
+  original_name: string;
+  storage_path: string;
+  public_url: string;
+  file_size: number;
+  mime_type: string;
+  width?: number;
+  height?: number;
+  alt_text?: string;
+  caption?: string;
+  photographer: string;
+  copyright: string;
+  variants?: DatabaseImageVariant[] | null;
+  taken_at?: string | null;
+  camera_make?: string | null;
+  camera_model?: string | null;
+  lens_model?: string | null;
+  focal_length?: number | null;
+  aperture?: number | null;
+  exposure_time?: number | null;
+  iso?: number | null;
+  gps_latitude?: number | null;
+  gps_longitude?: number | null;
+  content_hash?: string | null;
+  perceptual_hash?: string | null;
+  album_id?: string | null;
+  rotation?: number;
+  crop?: ImageCrop | null;
+  focal_x?: number | null;
+  focal_y?: number | null;
+  uploaded_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ImageUploadMetadata {
   photographer?: string;
   copyright?: string;
   altText?: string;
   caption?: string;
+  stripGps?: boolean; // Remove the location from the file and don't record it
+  hashes?: ImageHashes; // From `hashImageFile`, to skip hashing again
+  albumId?: string;
 }
 
+// An uploaded image that matches a file about to be uploaded
+export interface ImageDuplicate {
+  image: ImageMetadata;
+  exact: boolean; // Same file, rather than a picture that looks the same
+  distance: number; // Bits of the perceptual hash that differ; 0 when exact
+}
+
+export type ImageOrientation = 'landscape' | 'portrait' | 'square';
+
+export type ImageSortOrder = 'newest' | 'oldest' | 'name' | 'largest' | 'most-used';
+
+export interface ImageLibraryFilters {
+  search?: string; // Matches filename, caption, alt text or photographer
+  uploadedFrom?: string; // YYYY-MM-DD, local time
+  uploadedTo?: string; // YYYY-MM-DD, inclusive
+  orientation?: ImageOrientation;
+  usage?: 'used' | 'unused';
+  albumId?: string; // An album id, or 'none' for images in no album
+  sort?: ImageSortOrder;
+}
+
+// Changes made to every image in a bulk edit; fields left out are unchanged
+export interface ImageBulkUpdate {
+  photographer?: string;
+  copyright?: string;
+  altText?: string;
+  captionPrefix?: string; // Put before each caption, unless it already starts with it
+  albumId?: string | null; // null takes the images out of their album
+}
+
+export interface ImageLibraryPage {
+  images: ImageMetadata[];
+  total: number; // Images matching the filters, across all pages
+}
+
+// A post that uses an uploaded image, and where it appears
+export interface ImageUsage {
+  postId: string;
+  postTitle: string;
+  postSlug: string;
+  postStatus: PostStatus;
+  inMainImage: boolean;
+  inGallery: boolean;
+  inContent: boolean;
+}
+
+interface DatabaseImageUsage {
+  image_id: string;
+  post_id: string;
+  post_title: string;
+  post_slug: string;
+  post_status: PostStatus;
+  in_main_image: boolean;
+  in_gallery: boolean;
+  in_content: boolean;
+}
+
+// A file in the bucket that no `blog_images` row points to
+export interface OrphanedFile {
+  path: string;
+  size?: number;
+  createdAt?: string;
+}
+
+/**
+ * Thrown when deleting an image that posts still use
+ */
+export class ImageInUseError extends Error {
+  readonly usage: ImageUsage[];
+
+  constructor(usage: ImageUsage[]) {
+    super(`This image is used in ${usage.length === 1 ? '1 post' : `${usage.length} posts`}. Remove it from them before deleting it.`);
+    this.name = 'ImageInUseError';
+    this.usage = usage;
+  }
+}
+
+export type ImageUploadStage = 'converting' | 'uploading' | 'variants' | 'saving';
+
+export interface ImageUploadProgress {
+  stage: ImageUploadStage;
+  fraction: number; // 0 to 1, across the whole upload
+}
+
+// Quality for the canvas encoder; variants are for viewing, not archiving
+const VARIANT_QUALITY = 0.82;
+
+// Column and direction for each library sort, newest breaking ties
+const LIBRARY_SORT_COLUMNS: Record<ImageSortOrder, { column: string; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  name: { column: 'original_name', ascending: true },
+  largest: { column: 'file_size', ascending: false },
+  'most-used': { column: 'usage_count', ascending: false }
+};
+
+// Columns the library search box looks in
+const LIBRARY_SEARCH_COLUMNS = ['original_name', 'filename', 'caption', 'alt_text', 'photographer'];
+
+// Files younger than this may belong to an upload that's still saving its row
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+// Supabase Storage keeps empty folders alive with this file
+const EMPTY_FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder';
+
+const VARIANT_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
 class ImageService {
   private readonly bucketName = 'blog-images';
 
+  /**
+   * Convert database format to app format
+   */
+  private mapDatabaseToMetadata(item: DatabaseImage): ImageMetadata {
+    return {
+      id: item.id,
+      filename: item.filename,
+      originalName: item.original_name,
+      publicUrl: item.public_url,
+      fileSize: item.file_size,
+      mimeType: item.mime_type,
+      width: item.width,
+      height: item.height,
+      altText: item.alt_text,
+      caption: item.caption,
+      photographer: item.photographer,
+      copyright: item.copyright,
+      variants: (item.variants || []).map(variant => ({
+        width: variant.width,
+        height: variant.height,
+        mimeType: variant.mime_type,
+        storagePath: variant.storage_path,
+        publicUrl: variant.public_url
+      })),
+      exif: this.mapDatabaseToExif(item),
+      albumId: item.album_id ?? undefined,
+      rotation: (item.rotation ?? 0) as ImageRotation,
+      crop: item.crop ?? undefined,
+      focalPoint: item.focal_x != null && item.focal_y != null
+        ? { x: item.focal_x, y: item.focal_y }
+        : undefined,
+      createdAt: item.created_at
+    };
+  }
+
+  /**
+   * Convert a variant to the shape stored in the `variants` column
+   */
+  private mapVariantToDatabase(variant: ImageVariant): DatabaseImageVariant {
+    return {
+      width: variant.width,
+      height: variant.height,
+      mime_type: variant.mimeType,
+      storage_path: variant.storagePath,
+      public_url: variant.publicUrl
+    };
+  }
+
+  /**
+   * Collect an image's camera data, leaving out what it doesn't have
+   */
+  private mapDatabaseToExif(item: DatabaseImage): ExifData {
+    const exif: ExifData = {
+      takenAt: item.taken_at ?? undefined,
+      cameraMake: item.camera_make ?? undefined,
+      cameraModel: item.camera_model ?? undefined,
+      lensModel: item.lens_model ?? undefined,
+      focalLength: item.focal_length ?? undefined,
+      aperture: item.aperture ?? undefined,
+      exposureTime: item.exposure_time ?? undefined,
+      iso: item.iso ?? undefined,
+      gpsLatitude: item.gps_latitude ?? undefined,
+      gpsLongitude: item.gps_longitude ?? undefined
+    };
+    return Object.fromEntries(
+      Object.entries(exif).filter(([, value]) => value !== undefined)
+    ) as ExifData;
+  }
+
   /**
    * Convert HEIC file to JPEG
    */
   private async convertHeicToJpeg(file: File): Promise<File> {
     try {
+      // Loaded on demand: it's large, and touches `window` as soon as it's imported
+      const { default: heic2any } = await import('heic2any');
+
       // Use more specific configuration for heic2any
       const convertedBlob = await heic2any({
         blob: file,
@@ -66,17 +329,21 @@ class ImageService {
     }
   }
 
+  /**
+   * Check if a file is HEIC/HEIF, which is converted to JPEG before upload
+   */
+  isHeicFile(file: File): boolean {
+    return file.type === 'image/heic' ||
+           file.type === 'image/heif' ||
+           file.name.toLowerCase().endsWith('.heic') ||
+           file.name.toLowerCase().endsWith('.heif');
+  }
+
   /**
    * Prepare file for upload (convert HEIC if needed)
    */
   private async prepareFileForUpload(file: File): Promise<File> {
-    // Check if file is HEIC/HEIF
-    const isHeic = file.type === 'image/heic' || 
-                   file.type === 'image/heif' ||
-                   file.name.toLowerCase().endsWith('.heic') ||
-                   file.name.toLowerCase().endsWith('.heif');
-    
-    if (isHeic) {
+    if (this.isHeicFile(file)) {
       console.log('Converting HEIC file to JPEG...');
       try {
         return await this.convertHeicToJpeg(file);
@@ -91,19 +358,282 @@ class ImageService {
   }
 
   /**
-   * Upload an image file to Supabase Storage
+   * Remove any location from a file before it's uploaded. JPEGs keep their
+   * other camera data. Other formats are redrawn when they carry metadata,
+   * which drops all of it; GIFs would lose their animation, so they're refused.
    */
-  async uploadImage(file: File, folder?: string, metadata?: ImageUploadMetadata): Promise<ImageUploadResult> {
+  private async removeLocation(file: File): Promise<File> {
+    const buffer = await file.arrayBuffer();
+    if (file.type === 'image/jpeg') {
+      return new File([stripJpegGps(buffer)], file.name, { type: file.type });
+    }
+    if (!hasEmbeddedMetadata(buffer)) {
+      return file;
+    }
+    if (file.type === 'image/gif') {
+      throw new Error('The location can\'t be removed from this GIF. Convert it to PNG first, or upload it with its location.');
+    }
+
+    const source = await createImageBitmap(file);
+    try {
+      const redrawn = await this.resizeImage(source, source.width, file.type);
+      if (!redrawn) {
+        throw new Error('This browser can\'t remove the location from this image. Convert it to JPEG first, or upload it with its location.');
+      }
+      return new File([redrawn], file.name, { type: redrawn.type });
+    } finally {
+      source.close();
+    }
+  }
+
+  /**
+   * Draw an image at a smaller width and encode it. Resolves to null when the
+   * browser can't encode the format (Safari falls back to PNG for WebP).
+   */
+  private resizeImage(source: ImageBitmap | HTMLCanvasElement, width: number, mimeType: string): Promise<Blob | null> {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round(source.height * width / source.width);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return Promise.reject(new Error('Canvas is not supported in this browser'));
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    return new Promise(resolve => {
+      canvas.toBlob(blob => resolve(blob && blob.type === mimeType ? blob : null), mimeType, VARIANT_QUALITY);
+    });
+  }
+
+  /**
+   * Make downscaled JPEG (or PNG) and WebP copies of an image and upload them
+   * next to the original. Variants that fail are skipped, since the original
+   * still works everywhere.
+   */
+  private async uploadVariants(
+    file: File,
+    basePath: string,
+    onVariantDone?: (done: number, total: number) => void
+  ): Promise<ImageVariant[]> {
+    // Canvas would flatten animations
+    if (file.type === 'image/gif') return [];
+
+    const source = await createImageBitmap(file);
     try {
+      return await this.uploadVariantsFrom(source, file.type, basePath, false, onVariantDone);
+    } finally {
+      source.close();
+    }
+  }
+
+  /**
+   * Make and upload the variants of a decoded picture. `replacesOriginal` is
+   * for rotated or cropped pictures, which the original no longer matches:
+   * they also get a full-size copy in the fallback format.
+   */
+  private async uploadVariantsFrom(
+    source: ImageBitmap | HTMLCanvasElement,
+    mimeType: string,
+    basePath: string,
+    replacesOriginal: boolean,
+    onVariantDone?: (done: number, total: number) => void
+  ): Promise<ImageVariant[]> {
+    const variants: ImageVariant[] = [];
+    const widths = IMAGE_VARIANT_WIDTHS.filter(width => width < source.width);
+    const largestWidth = IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1];
+    // A full-size copy too, unless it's larger than any screen needs. The
+    // original is one already, except in WebP or once it's been edited.
+    const fullSize = source.width <= largestWidth ? [source.width] : [];
+    const webpWidths = mimeType !== 'image/webp' || replacesOriginal ? [...widths, ...fullSize] : widths;
+    const fallbackWidths = replacesOriginal ? [...widths, ...fullSize] : widths;
+    const fallbackType = getVariantFallbackType(mimeType);
+
+    const plan = [
+      ...fallbackWidths.map(width => ({ width, variantType: fallbackType })),
+      ...webpWidths.map(width => ({ width, variantType: 'image/webp' }))
+    ];
+
+    // One at a time, to keep memory in check with large photos
+    for (const [index, { width, variantType }] of plan.entries()) {
+      try {
+        const blob = await this.resizeImage(source, width, variantType);
+        if (!blob) continue;
+
+        const storagePath = `${basePath}-${width}w.${VARIANT_EXTENSIONS[variantType]}`;
+        const { error } = await supabase.storage
+          .from(this.bucketName)
+          .upload(storagePath, blob, {
+            cacheControl: '31536000',
+            contentType: variantType,
+            upsert: false
+          });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        const { data: urlData } = supabase.storage
+          .from(this.bucketName)
+          .getPublicUrl(storagePath);
+
+        variants.push({
+          width,
+          height: Math.round(source.height * width / source.width),
+          mimeType: variantType,
+          storagePath,
+          publicUrl: urlData.publicUrl
+        });
+      } catch (error) {
+        console.warn(`Failed to create ${width}px ${variantType} variant:`, error);
+      }
+      onVariantDone?.(index + 1, plan.length);
+    }
+
+    return variants;
+  }
+
+  /**
+   * Perceptual hash of an image file, or undefined if the browser can't decode it
+   */
+  private async getPerceptualHash(file: Blob): Promise<string | undefined> {
+    try {
+      const source = await createImageBitmap(file);
+      try {
+        return computePerceptualHash(source);
+      } finally {
+        source.close();
+      }
+    } catch (error) {
+      console.warn('Failed to compute perceptual hash:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Fingerprint a file before upload, to look for it in the library. HEIC
+   * files only get a content hash, since browsers can't draw them.
+   */
+  async hashImageFile(file: File): Promise<ImageHashes | null> {
+    try {
+      const contentHash = await computeContentHash(await file.arrayBuffer());
+      const perceptualHash = this.isHeicFile(file) ? undefined : await this.getPerceptualHash(file);
+      return { contentHash, perceptualHash };
+    } catch (error) {
+      console.warn('Failed to fingerprint image:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find uploaded images matching a file's fingerprints: the same file first,
+   * then pictures that look the same, closest first
+   */
+  async findDuplicateImages(hashes: ImageHashes): Promise<ImageDuplicate[]> {
+    try {
+      const { data: exactData, error: exactError } = await supabase
+        .from('blog_images')
+        .select('*')
+        .eq('content_hash', hashes.contentHash)
+        .order('created_at', { ascending: true });
+
+      if (exactError) {
+        throw new Error(`Failed to look for duplicates: ${exactError.message}`);
+      }
+
+      const duplicates: ImageDuplicate[] = exactData.map((item: DatabaseImage) => ({
+        image: this.mapDatabaseToMetadata(item),
+        exact: true,
+        distance: 0
+      }));
+
+      if (hashes.perceptualHash) {
+        const { data: similarData, error: similarError } = await supabase.rpc('find_similar_images', {
+          search_hash: hashes.perceptualHash,
+          max_distance: SIMILAR_IMAGE_MAX_DISTANCE
+        });
+
+        if (similarError) {
+          throw new Error(`Failed to look for similar images: ${similarError.message}`);
+        }
+
+        const exactIds = new Set(duplicates.map(duplicate => duplicate.image.id));
+        const similar = (similarData as { id: string; distance: number }[])
+          .filter(match => !exactIds.has(match.id));
+        const metadataMap = similar.length > 0
+          ? await this.getImageMetadataByIds(similar.map(match => match.id))
+          : new Map<string, ImageMetadata>();
+
+        similar.forEach(match => {
+          const image = metadataMap.get(match.id);
+          if (image) {
+            duplicates.push({ image, exact: false, distance: match.distance });
+          }
+        });
+      }
+
+      return duplicates;
+    } catch (error) {
+      console.error('Failed to find duplicate images:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Describe an image that's already uploaded as if it had just been, so it
+   * can be reused wherever an upload result is expected
+   */
+  toUploadResult(image: ImageMetadata): ImageUploadResult {
+    return {
+      id: image.id,
+      filename: image.filename,
+      publicUrl: image.publicUrl,
+      width: image.width,
+      height: image.height,
+      variants: image.variants
+    };
+  }
+
+  /**
+   * Upload an image file to Supabase Storage, with responsive variants.
+   * `onProgress` is called as each step starts and as variants finish.
+   */
+  async uploadImage(
+    file: File,
+    folder?: string,
+    metadata?: ImageUploadMetadata,
+    onProgress?: (progress: ImageUploadProgress) => void
+  ): Promise<ImageUploadResult> {
+    try {
+      if (this.isHeicFile(file)) {
+        onProgress?.({ stage: 'converting', fraction: 0 });
+      }
+
+      // Read camera data from the original, since HEIC conversion drops it
+      const originalBuffer = await file.arrayBuffer();
+      let exif = readExif(originalBuffer);
+      const contentHash = metadata?.hashes?.contentHash ?? await computeContentHash(originalBuffer);
+
       // Prepare file (convert HEIC if needed)
-      const processedFile = await this.prepareFileForUpload(file);
-      
+      let processedFile = await this.prepareFileForUpload(file);
+
+      if (metadata?.stripGps) {
+        processedFile = await this.removeLocation(processedFile);
+        exif = { ...exif, gpsLatitude: undefined, gpsLongitude: undefined };
+      }
+
+      // Fingerprint the picture once it's in a format the browser can draw
+      const perceptualHash = metadata?.hashes?.perceptualHash ?? await this.getPerceptualHash(processedFile);
+
       // Generate unique filename
       const fileExt = processedFile.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+      const baseName = `${Date.now()}-${Math.random().toString(36).substring(2)}`;
+      const fileName = `${baseName}.${fileExt}`;
       const filePath = folder ? `${folder}/${fileName}` : fileName;
 
       // Upload file to storage
+      onProgress?.({ stage: 'uploading', fraction: 0.1 });
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from(this.bucketName)
         .upload(filePath, processedFile, {
@@ -127,7 +657,21 @@ class ImageService {
       // Get image dimensions
       const dimensions = await this.getImageDimensions(processedFile);
 
+      // Create smaller copies for srcset
+      let variants: ImageVariant[] = [];
+      try {
+        onProgress?.({ stage: 'variants', fraction: 0.4 });
+        variants = await this.uploadVariants(
+          processedFile,
+          folder ? `${folder}/${baseName}` : baseName,
+          (done, total) => onProgress?.({ stage: 'variants', fraction: 0.4 + 0.5 * done / total })
+        );
+      } catch (error) {
+        console.warn('Failed to create image variants, using the original only:', error);
+      }
+
       // Save metadata to database
+      onProgress?.({ stage: 'saving', fraction: 0.9 });
       const { data: metadataData, error: metadataError } = await supabase
         .from('blog_images')
         .insert({
@@ -142,14 +686,29 @@ class ImageService {
           photographer: metadata?.photographer || 'Kate Goldenring',
           copyright: metadata?.copyright || '© 2024 Continued Education Blog. All rights reserved.',
           alt_text: metadata?.altText,
-          caption: metadata?.caption
+          caption: metadata?.caption,
+          taken_at: exif.takenAt,
+          camera_make: exif.cameraMake,
+          camera_model: exif.cameraModel,
+          lens_model: exif.lensModel,
+          focal_length: exif.focalLength,
+          aperture: exif.aperture,
+          exposure_time: exif.exposureTime,
+          iso: exif.iso,
+          gps_latitude: exif.gpsLatitude,
+          gps_longitude: exif.gpsLongitude,
+          content_hash: contentHash,
+          perceptual_hash: perceptualHash,
+          album_id: metadata?.albumId || null,
+          variants: variants.map(variant => this.mapVariantToDatabase(variant))
         })
         .select()
         .single();
 
       if (metadataError) {
-        // If metadata save fails, clean up the uploaded file
+        // If metadata save fails, clean up the uploaded files
         await this.deleteImage(filePath);
+        await Promise.all(variants.map(variant => this.deleteImage(variant.storagePath)));
         throw new Error(`Metadata save failed: ${metadataError.message}`);
       }
 
@@ -158,7 +717,8 @@ class ImageService {
         filename: fileName,
         publicUrl: urlData.publicUrl,
         width: dimensions.width,
-        height: dimensions.height
+        height: dimensions.height,
+        variants
       };
     } catch (error) {
       console.error('Image upload error:', error);
@@ -171,13 +731,19 @@ class ImageService {
    */
   async deleteImage(pathOrId: string): Promise<void> {
     try {
-      let storagePath: string;
+      let storagePaths: string[];
 
       // If it looks like a UUID, treat it as an ID and get the path from database
       if (pathOrId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+        // Don't break posts that still show it
+        const usage = (await this.getImageUsage([pathOrId])).get(pathOrId) || [];
+        if (usage.length > 0) {
+          throw new ImageInUseError(usage);
+        }
+
         const { data: imageData, error: fetchError } = await supabase
           .from('blog_images')
-          .select('storage_path')
+          .select('storage_path, variants')
           .eq('id', pathOrId)
           .single();
 
@@ -185,7 +751,10 @@ class ImageService {
           throw new Error('Image not found');
         }
 
-        storagePath = imageData.storage_path;
+        storagePaths = [
+          imageData.storage_path,
+          ...((imageData.variants || []) as DatabaseImageVariant[]).map(variant => variant.storage_path)
+        ];
 
         // Delete from database
         const { error: deleteError } = await supabase
@@ -196,15 +765,16 @@ class ImageService {
         if (deleteError) {
           throw new Error(`Database deletion failed: ${deleteError.message}`);
         }
+        imageMetadataCache.remove(pathOrId);
       } else {
         // Treat as storage path
-        storagePath = pathOrId;
+        storagePaths = [pathOrId];
       }
 
       // Delete from storage
       const { error: storageError } = await supabase.storage
         .from(this.bucketName)
-        .remove([storagePath]);
+        .remove(storagePaths);
 
       if (storageError) {
         throw new Error(`Storage deletion failed: ${storageError.message}`);
@@ -230,27 +800,251 @@ class ImageService {
         throw new Error(`Failed to fetch images: ${error.message}`);
       }
 
-      return data.map(item => ({
-        id: item.id,
-        filename: item.filename,
-        originalName: item.original_name,
-        publicUrl: item.public_url,
-        fileSize: item.file_size,
-        mimeType: item.mime_type,
-        width: item.width,
-        height: item.height,
-        altText: item.alt_text,
-        caption: item.caption,
-        photographer: item.photographer,
-        copyright: item.copyright,
-        createdAt: item.created_at
-      }));
+      return data.map(this.mapDatabaseToMetadata);
     } catch (error) {
       console.error('Failed to fetch images:', error);
       throw error instanceof Error ? error : new Error('Failed to fetch images');
     }
   }
 
+  /**
+   * Get one page of the image library, filtered and sorted, with the total
+   * number of matching images
+   */
+  async searchImages(filters: ImageLibraryFilters = {}, limit = 48, offset = 0): Promise<ImageLibraryPage> {
+    try {
+      let query = supabase
+        .from('blog_image_library')
+        .select('*', { count: 'exact' });
+
+      // Commas, parentheses and quotes would break the filter syntax, and PostgREST
+      // reads * as a wildcard, so those become spaces. LIKE's own wildcards are
+      // escaped so "IMG_0042" only matches an underscore.
+      const search = filters.search?.replace(/[,()"*]/g, ' ').trim().replace(/[\\%_]/g, '\\$&');
+      if (search) {
+        query = query.or(LIBRARY_SEARCH_COLUMNS.map(column => `${column}.ilike.%${search}%`).join(','));
+      }
+
+      if (filters.uploadedFrom) {
+        query = query.gte('created_at', new Date(`${filters.uploadedFrom}T00:00`).toISOString());
+      }
+      if (filters.uploadedTo) {
+        const dayAfter = new Date(`${filters.uploadedTo}T00:00`);
+        dayAfter.setDate(dayAfter.getDate() + 1);
+        query = query.lt('created_at', dayAfter.toISOString());
+      }
+
+      if (filters.orientation) {
+        query = query.eq('orientation', filters.orientation);
+      }
+
+      if (filters.albumId === 'none') {
+        query = query.is('album_id', null);
+      } else if (filters.albumId) {
+        query = query.eq('album_id', filters.albumId);
+      }
+
+      if (filters.usage === 'used') {
+        query = query.gt('usage_count', 0);
+      } else if (filters.usage === 'unused') {
+        query = query.eq('usage_count', 0);
+      }
+
+      const { column, ascending } = LIBRARY_SORT_COLUMNS[filters.sort || 'newest'];
+      query = query.order(column, { ascending });
+      if (column !== 'created_at') {
+        query = query.order('created_at', { ascending: false });
+      }
+
+      const { data, error, count } = await query
+        .order('id', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch images: ${error.message}`);
+      }
+
+      return {
+        images: data.map((item: DatabaseImage) => this.mapDatabaseToMetadata(item)),
+        total: count ?? data.length
+      };
+    } catch (error) {
+      console.error('Failed to search images:', error);
+      throw error instanceof Error ? error : new Error('Failed to search images');
+    }
+  }
+
+  /**
+   * Get which posts use each image, keyed by image id. Images no post uses
+   * have no entry. Pass ids to limit the lookup to those images.
+   */
+  async getImageUsage(imageIds?: string[]): Promise<Map<string, ImageUsage[]>> {
+    try {
+      let query = supabase
+        .from('blog_image_usage')
+        .select('*');
+
+      if (imageIds) {
+        if (imageIds.length === 0) return new Map();
+        query = query.in('image_id', imageIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to fetch image usage: ${error.message}`);
+      }
+
+      const usageMap = new Map<string, ImageUsage[]>();
+
+      data.forEach((item: DatabaseImageUsage) => {
+        const usage = usageMap.get(item.image_id) || [];
+        usage.push({
+          postId: item.post_id,
+          postTitle: item.post_title,
+          postSlug: item.post_slug,
+          postStatus: item.post_status,
+          inMainImage: item.in_main_image,
+          inGallery: item.in_gallery,
+          inContent: item.in_content
+        });
+        usageMap.set(item.image_id, usage);
+      });
+
+      return usageMap;
+    } catch (error) {
+      console.error('Failed to fetch image usage:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch image usage');
+    }
+  }
+
+  /**
+   * Get every uploaded image, a page at a time
+   */
+  private async getAllImages(): Promise<ImageMetadata[]> {
+    const pageSize = 1000;
+    const images: ImageMetadata[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.getImages(pageSize, offset);
+      images.push(...page);
+      if (page.length < pageSize) return images;
+    }
+  }
+
+  /**
+   * Get uploaded images that no post uses, oldest first
+   */
+  async getUnusedImages(): Promise<ImageMetadata[]> {
+    try {
+      const [images, usage] = await Promise.all([this.getAllImages(), this.getImageUsage()]);
+      return images.filter(image => !usage.has(image.id)).reverse();
+    } catch (error) {
+      console.error('Failed to find unused images:', error);
+      throw error instanceof Error ? error : new Error('Failed to find unused images');
+    }
+  }
+
+  /**
+   * List every file under a folder of the bucket, including subfolders
+   */
+  private async listStorageFiles(prefix = ''): Promise<OrphanedFile[]> {
+    const pageSize = 1000;
+    const files: OrphanedFile[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await supabase.storage
+        .from(this.bucketName)
+        .list(prefix, { limit: pageSize, offset });
+
+      if (error) {
+        throw new Error(`Failed to list files: ${error.message}`);
+      }
+
+      for (const entry of data) {
+        if (entry.name === EMPTY_FOLDER_PLACEHOLDER) continue;
+
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        // Folders are listed without an id
+        if (entry.id === null) {
+          files.push(...await this.listStorageFiles(path));
+        } else {
+          files.push({ path, size: entry.metadata?.size, createdAt: entry.created_at });
+        }
+      }
+
+      if (data.length < pageSize) return files;
+    }
+  }
+
+  /**
+   * Get the storage paths of every image and its variants
+   */
+  private async getKnownStoragePaths(): Promise<Set<string>> {
+    const pageSize = 1000;
+    const paths = new Set<string>();
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await supabase
+        .from('blog_images')
+        .select('storage_path, variants')
+        .order('created_at', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch images: ${error.message}`);
+      }
+
+      data.forEach(item => {
+        paths.add(item.storage_path);
+        ((item.variants || []) as DatabaseImageVariant[]).forEach(variant => paths.add(variant.storage_path));
+      });
+
+      if (data.length < pageSize) return paths;
+    }
+  }
+
+  /**
+   * Find files in the bucket that no image (or image variant) points to,
+   * left behind by failed uploads or deletions
+   */
+  async findOrphanedFiles(): Promise<OrphanedFile[]> {
+    try {
+      const [files, knownPaths] = await Promise.all([this.listStorageFiles(), this.getKnownStoragePaths()]);
+
+      const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+      return files.filter(file =>
+        !knownPaths.has(file.path) &&
+        (!file.createdAt || new Date(file.createdAt).getTime() < cutoff)
+      );
+    } catch (error) {
+      console.error('Failed to find orphaned files:', error);
+      throw error instanceof Error ? error : new Error('Failed to find orphaned files');
+    }
+  }
+
+  /**
+   * Delete files from the bucket without touching image rows. Only for files
+   * `findOrphanedFiles` reported.
+   */
+  async deleteOrphanedFiles(paths: string[]): Promise<void> {
+    try {
+      const batchSize = 100;
+      for (let start = 0; start < paths.length; start += batchSize) {
+        const { error } = await supabase.storage
+          .from(this.bucketName)
+          .remove(paths.slice(start, start + batchSize));
+
+        if (error) {
+          throw new Error(`Storage deletion failed: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      console.error('Orphaned file deletion error:', error);
+      throw error instanceof Error ? error : new Error('Failed to delete files');
+    }
+  }
+
   /**
    * Get image metadata by URL
    */
@@ -269,21 +1063,7 @@ class ImageService {
         throw new Error(`Failed to fetch image metadata: ${error.message}`);
       }
 
-      return {
-        id: data.id,
-        filename: data.filename,
-        originalName: data.original_name,
-        publicUrl: data.public_url,
-        fileSize: data.file_size,
-        mimeType: data.mime_type,
-        width: data.width,
-        height: data.height,
-        altText: data.alt_text,
-        caption: data.caption,
-        photographer: data.photographer,
-        copyright: data.copyright,
-        createdAt: data.created_at
-      };
+      return this.mapDatabaseToMetadata(data);
     } catch (error) {
       console.error('Failed to fetch image metadata by URL:', error);
       return null;
@@ -306,22 +1086,8 @@ class ImageService {
 
       const metadataMap = new Map<string, ImageMetadata>();
       
-      data.forEach(item => {
-        metadataMap.set(item.public_url, {
-          id: item.id,
-          filename: item.filename,
-          originalName: item.original_name,
-          publicUrl: item.public_url,
-          fileSize: item.file_size,
-          mimeType: item.mime_type,
-          width: item.width,
-          height: item.height,
-          altText: item.alt_text,
-          caption: item.caption,
-          photographer: item.photographer,
-          copyright: item.copyright,
-          createdAt: item.created_at
-        });
+      data.forEach((item: DatabaseImage) => {
+        metadataMap.set(item.public_url, this.mapDatabaseToMetadata(item));
       });
 
       return metadataMap;
@@ -331,16 +1097,49 @@ class ImageService {
     }
   }
 
+  /**
+   * Get image metadata for multiple blog_images ids
+   */
+  async getImageMetadataByIds(ids: string[]): Promise<Map<string, ImageMetadata>> {
+    // Postgres rejects the whole query over one malformed id, so a typo in a
+    // shortcode would hide every other image in the post
+    const validIds = ids.filter(isImageId);
+    if (validIds.length === 0) return new Map();
+
+    try {
+      const { data, error } = await supabase
+        .from('blog_images')
+        .select('*')
+        .in('id', validIds);
+
+      if (error) {
+        throw new Error(`Failed to fetch image metadata: ${error.message}`);
+      }
+
+      const metadataMap = new Map<string, ImageMetadata>();
+
+      data.forEach((item: DatabaseImage) => {
+        metadataMap.set(item.id, this.mapDatabaseToMetadata(item));
+      });
+
+      return metadataMap;
+    } catch (error) {
+      console.error('Failed to fetch image metadata by IDs:', error);
+      return new Map();
+    }
+  }
+
   /**
    * Update image metadata
    */
-  async updateImageMetadata(id: string, metadata: Partial<Pick<ImageMetadata, 'altText' | 'caption' | 'photographer' | 'copyright'>>): Promise<void> {
+  async updateImageMetadata(id: string, metadata: Partial<Pick<ImageMetadata, 'altText' | 'caption' | 'photographer' | 'copyright' | 'albumId'>>): Promise<void> {
     try {
-      const updateData: any = {};
+      const updateData: Record<string, unknown> = {};
       if (metadata.altText !== undefined) updateData.alt_text = metadata.altText;
       if (metadata.caption !== undefined) updateData.caption = metadata.caption;
       if (metadata.photographer !== undefined) updateData.photographer = metadata.photographer;
       if (metadata.copyright !== undefined) updateData.copyright = metadata.copyright;
+      if ('albumId' in metadata) updateData.album_id = metadata.albumId || null;
 
       const { error } = await supabase
         .from('blog_images')
@@ -350,6 +1149,8 @@ class ImageService {
       if (error) {
         throw new Error(`Failed to update metadata: ${error.message}`);
       }
+      // Loaded again next time it's shown
+      imageMetadataCache.remove(id);
     } catch (error) {
       console.error('Failed to update image metadata:', error);
       throw error instanceof Error ? error : new Error('Failed to update image metadata');
@@ -357,18 +1158,158 @@ class ImageService {
   }
 
   /**
-   * Get optimized image URL with transformations
+   * Apply the same changes to many images at once, returning them as saved.
+   * The images are updated together, so a failure leaves all of them as they were.
    */
-  getOptimizedImageUrl(publicUrl: string, options: {
-    width?: number;
-    height?: number;
-    quality?: number;
-    format?: 'webp' | 'jpeg' | 'png';
-  } = {}): string {
-    // Supabase doesn't have built-in image transformations in the free tier
-    // For now, return the original URL
-    // In production, you might want to use a service like Cloudinary or ImageKit
-    return publicUrl;
+  async updateImagesMetadata(ids: string[], changes: ImageBulkUpdate): Promise<ImageMetadata[]> {
+    try {
+      const updateData: Record<string, unknown> = {};
+      if (changes.altText !== undefined) updateData.alt_text = changes.altText;
+      if (changes.photographer !== undefined) updateData.photographer = changes.photographer;
+      if (changes.copyright !== undefined) updateData.copyright = changes.copyright;
+      if (changes.albumId !== undefined) updateData.album_id = changes.albumId;
+
+      const { data, error } = await supabase.rpc('update_blog_images', {
+        image_ids: ids,
+        changes: updateData,
+        caption_prefix: changes.captionPrefix?.trim() || null
+      });
+
+      if (error) {
+        throw new Error(`Failed to update images: ${error.message}`);
+      }
+
+      const updated = (data || []).map((item: DatabaseImage) => this.mapDatabaseToMetadata(item));
+      imageMetadataCache.set(updated);
+      return updated;
+    } catch (error) {
+      console.error('Failed to update images:', error);
+      throw error instanceof Error ? error : new Error('Failed to update images');
+    }
+  }
+
+  /**
+   * Save how an image is rotated, cropped and framed. A new rotation or crop
+   * remakes its variants from the original, which stays as uploaded.
+   */
+  async saveImageEdits(id: string, edits: ImageEdits): Promise<ImageMetadata> {
+    const newVariants: ImageVariant[] = [];
+
+    try {
+      const { data: current, error: fetchError } = await supabase
+        .from('blog_images')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError || !current) {
+        throw new Error('Image not found');
+      }
+
+      const image = current as DatabaseImage;
+      const crop = isCropped(edits.crop) ? normalizeCrop(edits.crop) : undefined;
+      const updateData: Record<string, unknown> = {
+        focal_x: edits.focalPoint?.x ?? null,
+        focal_y: edits.focalPoint?.y ?? null
+      };
+
+      const reshaped = edits.rotation !== (image.rotation ?? 0) || !isSameCrop(crop, image.crop ?? undefined);
+      if (reshaped) {
+        if (image.mime_type === 'image/gif') {
+          throw new Error('GIFs can\'t be rotated or cropped without losing their animation. You can still set a focal point.');
+        }
+
+        const response = await fetch(image.public_url);
+        if (!response.ok) {
+          throw new Error(`Failed to load the original image: ${response.statusText}`);
+        }
+
+        const source = await createImageBitmap(await response.blob());
+        // New names, so browsers and the CDN don't keep showing the old variants
+        const basePath = `${image.storage_path.replace(/\.[^./]+$/, '')}-${Date.now().toString(36)}`;
+        const shapedEdits = { rotation: edits.rotation, crop };
+
+        try {
+          if (hasImageEdits(shapedEdits)) {
+            const edited = drawEditedImage(source, shapedEdits);
+            newVariants.push(...await this.uploadVariantsFrom(edited, image.mime_type, basePath, true));
+            updateData.width = edited.width;
+            updateData.height = edited.height;
+          } else {
+            newVariants.push(...await this.uploadVariantsFrom(source, image.mime_type, basePath, false));
+            updateData.width = source.width;
+            updateData.height = source.height;
+          }
+        } finally {
+          source.close();
+        }
+
+        // Without variants an edited image would show as uploaded
+        if (hasImageEdits(shapedEdits) && newVariants.length === 0) {
+          throw new Error('Failed to save the edited image');
+        }
+
+        updateData.rotation = edits.rotation;
+        updateData.crop = crop ?? null;
+        updateData.variants = newVariants.map(variant => this.mapVariantToDatabase(variant));
+      }
+
+      const { data, error } = await supabase
+        .from('blog_images')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save image edits: ${error.message}`);
+      }
+
+      if (reshaped) {
+        const oldPaths = (image.variants || []).map(variant => variant.storage_path);
+        if (oldPaths.length > 0) {
+          const { error: removeError } = await supabase.storage
+            .from(this.bucketName)
+            .remove(oldPaths);
+
+          if (removeError) {
+            // Left for "Find Unused" to clean up
+            console.warn('Failed to remove old variants:', removeError);
+          }
+        }
+      }
+
+      const saved = this.mapDatabaseToMetadata(data);
+      // The old variants are gone, so pages mustn't keep pointing at them
+      imageMetadataCache.set([saved]);
+      return saved;
+    } catch (error) {
+      console.error('Failed to save image edits:', error);
+      if (newVariants.length > 0) {
+        await supabase.storage
+          .from(this.bucketName)
+          .remove(newVariants.map(variant => variant.storagePath));
+      }
+      throw error instanceof Error ? error : new Error('Failed to save image edits');
+    }
+  }
+
+  /**
+   * Get the URL of the smallest variant at least `width` pixels wide,
+   * falling back to the original, or the largest variant of an edited
+   * image. Pass `format: 'webp'` to prefer WebP.
+   */
+  getOptimizedImageUrl(image: Pick<ImageMetadata, 'publicUrl' | 'variants' | 'rotation' | 'crop'>, options: {
+    width: number;
+    format?: 'webp';
+  }): string {
+    const candidates = image.variants
+      .filter(variant => options.format === 'webp' ? variant.mimeType === 'image/webp' : variant.mimeType !== 'image/webp')
+      .sort((a, b) => a.width - b.width);
+    const candidate = candidates.find(variant => variant.width >= options.width) ??
+      (hasImageEdits(image) ? candidates[candidates.length - 1] : undefined);
+
+    return candidate?.publicUrl || image.publicUrl;
   }
 
   /**
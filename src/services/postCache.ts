@@ -0,0 +1,205 @@
+import { BlogPost, PostSummary, PostPage } from '../types/BlogPost';
+import { isPostLive } from '../utils/postUtils';
+
+export type PostListKey = 'published' | 'all';
+
+// Which posts a gallery feed shows
+export interface PostFeedFilter {
+  category: string; // 'all' or a category slug
+  tags: string[]; // Tag slugs the posts must all have
+}
+
+// Gallery pages loaded so far for one filter
+interface PostFeed extends PostPage {
+  filter: PostFeedFilter;
+}
+
+/**
+ * Build a cache key that's the same however the filter's tags are ordered
+ */
+function getFeedKey(filter: PostFeedFilter): string {
+  return `${filter.category}|${[...filter.tags].sort().join(',')}`;
+}
+
+/**
+ * Check if a post should appear in a feed with the given filter
+ */
+function matchesFeedFilter(post: BlogPost, filter: PostFeedFilter): boolean {
+  if (filter.category !== 'all' && filter.category !== post.category) {
+    return false;
+  }
+  return filter.tags.every(slug => post.tags.some(tag => tag.slug === slug));
+}
+
+/**
+ * Reduce a full post to the fields gallery cards use
+ */
+function toPostSummary(post: BlogPost): PostSummary {
+  return {
+    id: post.id,
+    slug: post.slug,
+    title: post.title,
+    category: post.category,
+    imageUrl: post.imageUrl,
+    excerpt: post.excerpt,
+    date: post.date,
+    readTime: post.readTime,
+    publishedAt: post.publishedAt,
+    tags: post.tags,
+    imageMetadata: post.imageMetadata
+  };
+}
+
+/**
+ * In-memory cache of posts shared by the list and detail views, so opening a
+ * post from the gallery (or going back to it) doesn't download everything again.
+ */
+class PostCache {
+  private posts = new Map<string, BlogPost>();
+  private slugIndex = new Map<string, string>();
+  private lists = new Map<PostListKey, BlogPost[]>();
+  private feeds = new Map<string, PostFeed>();
+  private stale = new Set<string>();
+
+  /**
+   * Get a cached post by ID
+   */
+  get(id: string): BlogPost | undefined {
+    return this.posts.get(id);
+  }
+
+  /**
+   * Get a cached post by its current slug
+   */
+  getBySlug(slug: string): BlogPost | undefined {
+    const id = this.slugIndex.get(slug);
+    return id ? this.posts.get(id) : undefined;
+  }
+
+  /**
+   * Check if a cached post came with a prerendered page and hasn't been
+   * loaded since. It may have been edited or unpublished after the page was built.
+   */
+  isStale(id: string): boolean {
+    return this.stale.has(id);
+  }
+
+  /**
+   * Get a cached post list
+   */
+  getList(key: PostListKey): BlogPost[] | undefined {
+    return this.lists.get(key);
+  }
+
+  /**
+   * Cache a full post list and seed the single-post cache from it
+   */
+  setList(key: PostListKey, posts: BlogPost[]): void {
+    this.lists.set(key, posts);
+    posts.forEach(post => this.storePost(post));
+  }
+
+  /**
+   * Get the gallery pages loaded so far for a filter
+   */
+  getFeed(filter: PostFeedFilter): PostPage | undefined {
+    return this.feeds.get(getFeedKey(filter));
+  }
+
+  /**
+   * Cache the gallery pages loaded so far for a filter. Summaries aren't
+   * full posts, so they're kept out of the single-post cache.
+   */
+  setFeed(filter: PostFeedFilter, page: PostPage): void {
+    this.feeds.set(getFeedKey(filter), { ...page, filter });
+  }
+
+  /**
+   * Cache a created or updated post, keeping cached lists consistent
+   */
+  set(post: BlogPost): void {
+    this.storePost(post);
+
+    this.lists.forEach((list, key) => {
+      const index = list.findIndex(item => item.id === post.id);
+      const belongsInList = key === 'all' || isPostLive(post);
+
+      if (index !== -1 && belongsInList) {
+        this.lists.set(key, list.map(item => item.id === post.id ? post : item));
+      } else if (index !== -1) {
+        this.lists.set(key, list.filter(item => item.id !== post.id));
+      } else if (belongsInList) {
+        // Ordering depends on the query, so refetch the list next time it's needed
+        this.lists.delete(key);
+      }
+    });
+
+    this.feeds.forEach((feed, key) => {
+      const index = feed.posts.findIndex(item => item.id === post.id);
+      const belongsInFeed = isPostLive(post) && matchesFeedFilter(post, feed.filter);
+
+      if (index !== -1 && belongsInFeed && feed.posts[index].publishedAt === post.publishedAt) {
+        this.feeds.set(key, {
+          ...feed,
+          posts: feed.posts.map(item => item.id === post.id ? toPostSummary(post) : item)
+        });
+      } else if (index !== -1 && !belongsInFeed) {
+        this.feeds.set(key, { ...feed, posts: feed.posts.filter(item => item.id !== post.id) });
+      } else if (belongsInFeed) {
+        // The post moved or joined the feed, so its pages need loading again
+        this.feeds.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Cache the post a prerendered page came with, to show until it's loaded again
+   */
+  setPreloaded(post: BlogPost): void {
+    this.set(post);
+    this.stale.add(post.id);
+  }
+
+  /**
+   * Remove a deleted post
+   */
+  remove(id: string): void {
+    const post = this.posts.get(id);
+    if (post && this.slugIndex.get(post.slug) === id) {
+      this.slugIndex.delete(post.slug);
+    }
+    this.posts.delete(id);
+    this.stale.delete(id);
+
+    this.lists.forEach((list, key) => {
+      this.lists.set(key, list.filter(item => item.id !== id));
+    });
+
+    this.feeds.forEach((feed, key) => {
+      this.feeds.set(key, { ...feed, posts: feed.posts.filter(item => item.id !== id) });
+    });
+  }
+
+  /**
+   * Drop everything, e.g. when signing out so drafts don't linger
+   */
+  clear(): void {
+    this.posts.clear();
+    this.slugIndex.clear();
+    this.lists.clear();
+    this.feeds.clear();
+    this.stale.clear();
+  }
+
+  private storePost(post: BlogPost): void {
+    const previous = this.posts.get(post.id);
+    if (previous && previous.slug !== post.slug && this.slugIndex.get(previous.slug) === post.id) {
+      this.slugIndex.delete(previous.slug);
+    }
+    this.posts.set(post.id, post);
+    this.slugIndex.set(post.slug, post.id);
+    this.stale.delete(post.id);
+  }
+}
+
+export const postCache = new PostCache();
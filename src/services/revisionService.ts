@@ -0,0 +1,66 @@
+import { supabase } from '../lib/supabase';
+import { PostRevision } from '../types/PostRevision';
+import { DatabaseBlogPost } from './blogService';
+
+export interface DatabasePostRevision {
+  id: string;
+  post_id: string;
+  title: string;
+  slug: string;
+  category: string;
+  image_url: string;
+  images: string[] | null;
+  excerpt: string;
+  content: string;
+  image_metadata?: DatabaseBlogPost['image_metadata'];
+  author_id: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+class RevisionService {
+  /**
+   * Convert database format to app format
+   */
+  private mapDatabaseToApp(dbRevision: DatabasePostRevision): PostRevision {
+    return {
+      id: dbRevision.id,
+      postId: dbRevision.post_id,
+      title: dbRevision.title,
+      slug: dbRevision.slug,
+      category: dbRevision.category,
+      imageUrl: dbRevision.image_url,
+      images: dbRevision.images || [],
+      excerpt: dbRevision.excerpt,
+      content: dbRevision.content,
+      imageMetadata: dbRevision.image_metadata,
+      authorEmail: dbRevision.author_email || undefined,
+      createdAt: dbRevision.created_at
+    };
+  }
+
+  /**
+   * Get a post's revisions, newest first. Revisions are recorded by the
+   * database each time the post is saved.
+   */
+  async getRevisions(postId: string): Promise<PostRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blog_post_revisions')
+        .select('*')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch post revisions: ${error.message}`);
+      }
+
+      return data.map(this.mapDatabaseToApp);
+    } catch (error) {
+      console.error('Error fetching post revisions:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch post revisions');
+    }
+  }
+}
+
+export const revisionService = new RevisionService();
@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase';
+import { Tag, TagWithCount } from '../types/Tag';
+
+export interface DatabaseTag {
+  id: string;
+  slug: string;
+  name: string;
+  created_at?: string;
+}
+
+/**
+ * Convert database format to app format
+ */
+export function mapDatabaseToTag(dbTag: DatabaseTag): Tag {
+  return {
+    id: dbTag.id,
+    slug: dbTag.slug,
+    name: dbTag.name
+  };
+}
+
+class TagService {
+  /**
+   * Get all tags with the number of posts using each, most used first
+   */
+  async getTags(): Promise<TagWithCount[]> {
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, slug, name, blog_post_tags(count)')
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch tags: ${error.message}`);
+      }
+
+      return data
+        .map((row: DatabaseTag & { blog_post_tags: { count: number }[] }) => ({
+          ...mapDatabaseToTag(row),
+          postCount: row.blog_post_tags[0]?.count || 0
+        }))
+        .sort((a, b) => b.postCount - a.postCount || a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch tags');
+    }
+  }
+
+  /**
+   * Get a single tag by slug
+   */
+  async getTagBySlug(slug: string): Promise<Tag | null> {
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, slug, name')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch tag: ${error.message}`);
+      }
+
+      return data ? mapDatabaseToTag(data) : null;
+    } catch (error) {
+      console.error('Error fetching tag:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch tag');
+    }
+  }
+
+  /**
+   * Get IDs of posts that have every one of the given tags
+   */
+  async getPostIdsWithTags(tagSlugs: string[]): Promise<string[]> {
+    try {
+      const { data, error } = await supabase.rpc('blog_post_ids_with_tags', {
+        tag_slugs: tagSlugs
+      });
+
+      if (error) {
+        throw new Error(`Failed to filter posts by tag: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error filtering posts by tag:', error);
+      throw error instanceof Error ? error : new Error('Failed to filter posts by tag');
+    }
+  }
+}
+
+export const tagService = new TagService();
@@ -1,24 +1,58 @@
+import { Tag } from './Tag';
+
+export type PostStatus = 'draft' | 'published' | 'scheduled' | 'archived';
+
 export interface BlogPost {
   id: string;
+  slug: string;
   title: string;
-  category: string;
+  category: string; // Category slug
   imageUrl: string;
   images: string[];
   excerpt: string;
   content: string;
   date: string;
   readTime: string;
+  status: PostStatus;
+  publishedAt?: string;
+  updatedAt?: string;
+  tags: Tag[];
   imageMetadata?: any; // Store Flickr or other image metadata
 }
 
-export type Category = 'all' | 'hiking' | 'travel' | 'food' | 'mountaineering' ;
+// Lightweight projection of a post used by gallery cards (no content or image list)
+export type PostSummary = Pick<
+  BlogPost,
+  'id' | 'slug' | 'title' | 'category' | 'imageUrl' | 'excerpt' | 'date' | 'readTime' | 'publishedAt' | 'tags' | 'imageMetadata'
+>;
+
+// Position in the published feed to continue loading from
+export interface PostCursor {
+  publishedAt: string;
+  id: string;
+}
+
+export interface PostPage {
+  posts: PostSummary[];
+  nextCursor: PostCursor | null; // null when there are no more posts
+}
+
+// A search match, with the matching passage marked by the SEARCH_HIGHLIGHT_* characters
+export interface PostSearchResult extends PostSummary {
+  rank: number;
+  snippet: string;
+}
 
 export interface BlogFormData {
   title: string;
-  category: string;
+  slug: string;
+  category: string; // Category slug
   imageUrl: string;
   images: string[];
   excerpt: string;
   content: string;
+  status: PostStatus;
+  publishedAt?: string;
+  tags: string[]; // Tag names; new names create tags when the post is saved
   imageMetadata?: any; // Store Flickr or other image metadata
 }
\ No newline at end of file
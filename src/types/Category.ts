@@ -0,0 +1,15 @@
+export interface Category {
+  id: string;
+  slug: string; // Stored in each post's `category`
+  label: string;
+  color: string; // Hex color for category badges
+  sortOrder: number;
+}
+
+export interface CategoryFormData {
+  slug: string;
+  label: string;
+  color: string;
+}
+
+export type CategoryFilter = 'all' | string; // 'all' or a category slug
@@ -0,0 +1,12 @@
+export interface ImageAlbum {
+  id: string;
+  name: string;
+  description?: string;
+  imageCount: number;
+  createdAt: string;
+}
+
+export interface ImageAlbumFormData {
+  name: string;
+  description: string;
+}
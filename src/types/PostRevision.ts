@@ -0,0 +1,15 @@
+import { BlogPost } from './BlogPost';
+
+// Post fields recorded in each revision
+export type RevisionContent = Pick<
+  BlogPost,
+  'title' | 'slug' | 'category' | 'imageUrl' | 'images' | 'excerpt' | 'content' | 'imageMetadata'
+>;
+
+// A post's content as it was saved at one point in time
+export interface PostRevision extends RevisionContent {
+  id: string;
+  postId: string;
+  authorEmail?: string; // Missing for revisions recorded before history was kept
+  createdAt: string;
+}
@@ -0,0 +1,9 @@
+export interface Tag {
+  id: string;
+  slug: string; // Used in /tag/:tag URLs
+  name: string;
+}
+
+export interface TagWithCount extends Tag {
+  postCount: number; // Posts the current user can see with this tag
+}
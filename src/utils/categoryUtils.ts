@@ -0,0 +1,60 @@
+/**
+ * Utility functions for post categories
+ */
+
+import { Category, CategoryFilter } from '../types/Category';
+import { SITE_TITLE } from './headUtils';
+
+export const DEFAULT_CATEGORY_COLOR = '#2563eb';
+
+/**
+ * Find a category by slug
+ */
+export function findCategory(categories: Category[], slug: string): Category | undefined {
+  return categories.find(category => category.slug === slug);
+}
+
+/**
+ * Get the gallery path showing a category's posts
+ */
+export function getCategoryPath(category: CategoryFilter): string {
+  return category === 'all' ? '/' : `/category/${category}`;
+}
+
+/**
+ * Describe a category's page for search results and link previews
+ */
+export function getCategoryDescription(category: Pick<Category, 'label'>): string {
+  return `${category.label} posts from ${SITE_TITLE}`;
+}
+
+/**
+ * Get the label for a category slug, falling back to a title-cased slug
+ * while categories are still loading
+ */
+export function getCategoryLabel(categories: Category[], slug: string): string {
+  const category = findCategory(categories, slug);
+  if (category) {
+    return category.label;
+  }
+  return slug
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Pick black or white text, whichever reads better on the given hex color
+ */
+export function getContrastTextColor(hexColor: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hexColor);
+  if (!match) {
+    return '#ffffff';
+  }
+
+  const [r, g, b] = match.slice(1).map(channel => parseInt(channel, 16) / 255);
+  // Perceived brightness (ITU-R BT.601)
+  const brightness = 0.299 * r + 0.587 * g + 0.114 * b;
+  return brightness > 0.6 ? '#111827' : '#ffffff';
+}
+
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import siteFixtures from '../build/fixtures/site';
+import {
+  getContentImageRefs,
+  getMarkdownImageUrls,
+  isImageId,
+  parseContentBlocks,
+  resolveContentImage,
+  resolveContentImageUrl
+} from './contentUtils';
+
+const summit = siteFixtures.images![0];
+const imageIdMap = new Map([[summit.id, summit]]);
+
+describe('isImageId', () => {
+  it('recognises blog_images ids but not URLs', () => {
+    expect(isImageId(` ${summit.id} `)).toBe(true);
+    expect(isImageId('https://images.example.com/summit.jpg')).toBe(false);
+    expect(isImageId('0b6c8a52')).toBe(false);
+  });
+});
+
+describe('parseContentBlocks', () => {
+  it('splits Markdown around image shortcodes', () => {
+    const content = [
+      'Before.',
+      '{{image src="https://example.com/a.jpg" caption="First light" alt="A ridge"}}',
+      `{{ image id="${summit.id}" }}`,
+      'After.'
+    ].join('\n');
+
+    expect(parseContentBlocks(content)).toEqual([
+      { type: 'markdown', text: 'Before.' },
+      { type: 'image', image: { src: 'https://example.com/a.jpg', caption: 'First light', alt: 'A ridge' } },
+      { type: 'image', image: { id: summit.id, caption: undefined, alt: undefined } },
+      { type: 'markdown', text: 'After.' }
+    ]);
+  });
+
+  it('reads gallery lines as ids, URLs or shortcodes, with optional captions', () => {
+    const content = [
+      '{{gallery}}',
+      'https://example.com/a.jpg | Sunrise | late',
+      summit.id,
+      '',
+      '{{image src="https://example.com/b.jpg" alt="Camp"}}',
+      '{{/gallery}}'
+    ].join('\n');
+
+    expect(parseContentBlocks(content)).toEqual([
+      {
+        type: 'gallery',
+        images: [
+          { src: 'https://example.com/a.jpg', caption: 'Sunrise | late' },
+          { id: summit.id, caption: undefined },
+          { src: 'https://example.com/b.jpg', caption: undefined, alt: 'Camp' }
+        ]
+      }
+    ]);
+  });
+
+  it('leaves shortcodes in code fences, unterminated galleries and incomplete shortcodes as Markdown', () => {
+    const fenced = '```\n{{image src="https://example.com/a.jpg"}}\n```';
+    expect(parseContentBlocks(fenced)).toEqual([{ type: 'markdown', text: fenced }]);
+
+    expect(parseContentBlocks('{{gallery}}\nhttps://example.com/a.jpg')).toEqual([
+      { type: 'markdown', text: '{{gallery}}\nhttps://example.com/a.jpg' }
+    ]);
+
+    expect(parseContentBlocks('{{image caption="No source"}}')).toEqual([
+      { type: 'markdown', text: '{{image caption="No source"}}' }
+    ]);
+  });
+});
+
+describe('content images', () => {
+  const blocks = parseContentBlocks([
+    'An early start. ![Trailhead](https://example.com/trailhead.jpg)',
+    `{{image id="${summit.id}"}}`,
+    '{{gallery}}\nhttps://example.com/a.jpg\n{{/gallery}}',
+    '![Again](<https://example.com/trailhead.jpg>) and ![Lake](https://example.com/lake.jpg "Lake")'
+  ].join('\n'));
+
+  it('lists shortcode images in reading order', () => {
+    expect(getContentImageRefs(blocks)).toEqual([
+      { id: summit.id, caption: undefined, alt: undefined },
+      { src: 'https://example.com/a.jpg', caption: undefined }
+    ]);
+  });
+
+  it('lists Markdown images once each', () => {
+    expect(getMarkdownImageUrls(blocks)).toEqual([
+      'https://example.com/trailhead.jpg',
+      'https://example.com/lake.jpg'
+    ]);
+  });
+
+  it('resolves ids to their library URL', () => {
+    expect(resolveContentImageUrl({ id: summit.id }, imageIdMap)).toBe(summit.publicUrl);
+    expect(resolveContentImageUrl({ id: '00000000-0000-4000-8000-000000000000' }, imageIdMap)).toBeUndefined();
+    expect(resolveContentImageUrl({ src: 'https://example.com/a.jpg' }, imageIdMap)).toBe('https://example.com/a.jpg');
+  });
+
+  it('fills in the caption, alt text and photographer from the library', () => {
+    expect(resolveContentImage({ id: summit.id }, imageIdMap, new Map())).toEqual({
+      url: summit.publicUrl,
+      alt: 'The summit at sunrise',
+      caption: 'Sunrise from the summit',
+      photographer: 'Kate Goldenring',
+      metadata: summit
+    });
+  });
+
+  it('prefers what the shortcode says', () => {
+    const image = resolveContentImage({ id: summit.id, caption: 'Made it', alt: 'Summit sign' }, imageIdMap, new Map());
+    expect(image?.caption).toBe('Made it');
+    expect(image?.alt).toBe('Summit sign');
+  });
+
+  it('credits Flickr photos to their photographer', () => {
+    const url = 'https://live.staticflickr.com/1/2_abc_b.jpg';
+    const image = resolveContentImage({ src: url }, new Map(), new Map(), { [url]: { photographer: 'Jo Hiker' } });
+    expect(image?.photographer).toBe('Jo Hiker');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Utility functions for parsing image shortcodes in post content
+ *
+ * Post content is Markdown with two block-level shortcodes, each on its own line:
+ *
+ *   {{image src="https://..." caption="Sunrise from the summit" alt="..."}}
+ *   {{image id="<blog_images id>"}}
+ *
+ *   {{gallery}}
+ *   https://example.com/first.jpg | Optional caption
+ *   <blog_images id>
+ *   {{/gallery}}
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import { isFlickrImageUrl } from './flickrUtils';
+
+export interface ContentImageRef {
+  src?: string;  // Direct image URL
+  id?: string;   // blog_images row id
+  caption?: string;
+  alt?: string;
+}
+
+export type ContentBlock =
+  | { type: 'markdown'; text: string }
+  | { type: 'image'; image: ContentImageRef }
+  | { type: 'gallery'; images: ContentImageRef[] };
+
+const IMAGE_SHORTCODE = /^\s*\{\{\s*image\s+(.*?)\s*\}\}\s*$/;
+const GALLERY_OPEN = /^\s*\{\{\s*gallery\s*\}\}\s*$/;
+const GALLERY_CLOSE = /^\s*\{\{\s*\/gallery\s*\}\}\s*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\(\s*<?([^\s)>]+)/g;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check if a shortcode reference is a blog_images id rather than a URL
+ */
+export function isImageId(value: string): boolean {
+  return UUID_PATTERN.test(value.trim());
+}
+
+/**
+ * Parse `key="value"` attribute pairs from a shortcode
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /(\w+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1].toLowerCase()] = match[2];
+  }
+
+  return attributes;
+}
+
+/**
+ * Build an image reference from shortcode attributes
+ */
+function attributesToImageRef(attributes: Record<string, string>): ContentImageRef | null {
+  const ref: ContentImageRef = {
+    caption: attributes.caption || undefined,
+    alt: attributes.alt || undefined
+  };
+
+  // A mistyped id stays an id: it resolves to nothing, without affecting the other images
+  if (attributes.id) {
+    ref.id = attributes.id.trim();
+  } else if (attributes.src) {
+    ref.src = attributes.src.trim();
+  } else {
+    return null;
+  }
+
+  return ref;
+}
+
+/**
+ * Parse a single line inside a gallery block
+ */
+function parseGalleryLine(line: string): ContentImageRef | null {
+  const imageMatch = line.match(IMAGE_SHORTCODE);
+  if (imageMatch) {
+    return attributesToImageRef(parseAttributes(imageMatch[1]));
+  }
+
+  const [reference, ...captionParts] = line.split('|');
+  const value = reference.trim();
+  if (!value) return null;
+
+  const caption = captionParts.join('|').trim() || undefined;
+  return isImageId(value) ? { id: value, caption } : { src: value, caption };
+}
+
+/**
+ * Split post content into Markdown blocks and image/gallery shortcode blocks.
+ * Shortcodes inside fenced code blocks are left as Markdown.
+ */
+export function parseContentBlocks(content: string): ContentBlock[] {
+  const lines = content.split('\n');
+  const blocks: ContentBlock[] = [];
+  let markdownLines: string[] = [];
+  let inCodeFence = false;
+
+  const flushMarkdown = () => {
+    if (markdownLines.some(line => line.trim() !== '')) {
+      blocks.push({ type: 'markdown', text: markdownLines.join('\n') });
+    }
+    markdownLines = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (CODE_FENCE.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+
+    if (inCodeFence) {
+      markdownLines.push(line);
+      continue;
+    }
+
+    const imageMatch = line.match(IMAGE_SHORTCODE);
+    if (imageMatch) {
+      const image = attributesToImageRef(parseAttributes(imageMatch[1]));
+      if (image) {
+        flushMarkdown();
+        blocks.push({ type: 'image', image });
+        continue;
+      }
+    }
+
+    if (GALLERY_OPEN.test(line)) {
+      const closeIndex = lines.findIndex((candidate, index) => index > i && GALLERY_CLOSE.test(candidate));
+
+      // Leave an unterminated gallery as plain text
+      if (closeIndex !== -1) {
+        const images = lines
+          .slice(i + 1, closeIndex)
+          .map(parseGalleryLine)
+          .filter((image): image is ContentImageRef => image !== null);
+
+        flushMarkdown();
+        if (images.length > 0) {
+          blocks.push({ type: 'gallery', images });
+        }
+        i = closeIndex;
+        continue;
+      }
+    }
+
+    markdownLines.push(line);
+  }
+
+  flushMarkdown();
+  return blocks;
+}
+
+/**
+ * Get every image reference in the content, in reading order
+ */
+export function getContentImageRefs(blocks: ContentBlock[]): ContentImageRef[] {
+  return blocks.flatMap(block => {
+    if (block.type === 'image') return [block.image];
+    if (block.type === 'gallery') return block.images;
+    return [];
+  });
+}
+
+/**
+ * Get the URLs of images placed with Markdown (`![alt](url)`) rather than
+ * shortcodes, without duplicates
+ */
+export function getMarkdownImageUrls(blocks: ContentBlock[]): string[] {
+  const urls = blocks.flatMap(block =>
+    block.type === 'markdown' ? [...block.text.matchAll(MARKDOWN_IMAGE)].map(match => match[1]) : []
+  );
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Resolve an image reference to a URL using metadata looked up by id
+ */
+export function resolveContentImageUrl(
+  ref: ContentImageRef,
+  imageIdMap: Map<string, { publicUrl: string }>
+): string | undefined {
+  if (ref.src) return ref.src;
+  return ref.id ? imageIdMap.get(ref.id)?.publicUrl : undefined;
+}
+
+export interface ResolvedContentImage {
+  url: string;
+  alt: string;
+  caption?: string;
+  photographer: string;
+  metadata?: ImageMetadata; // For uploaded images, including their size variants
+}
+
+/**
+ * Resolve a shortcode image to its URL, alt text, caption and photographer
+ */
+export function resolveContentImage(
+  ref: ContentImageRef,
+  imageIdMap: Map<string, ImageMetadata>,
+  metadataMap: Map<string, ImageMetadata>,
+  imageMetadata?: Record<string, { photographer?: string }>
+): ResolvedContentImage | null {
+  const url = resolveContentImageUrl(ref, imageIdMap);
+  if (!url) return null;
+
+  const metadata = (ref.id && imageIdMap.get(ref.id)) || metadataMap.get(url);
+
+  // Determine photographer based on image source
+  let photographer = 'Kate Goldenring';
+  if (isFlickrImageUrl(url)) {
+    photographer = imageMetadata?.[url]?.photographer || 'Flickr User';
+  } else if (metadata?.photographer) {
+    photographer = metadata.photographer;
+  }
+
+  const caption = ref.caption || metadata?.caption;
+
+  return {
+    url,
+    alt: ref.alt || metadata?.altText || caption || '',
+    caption,
+    photographer,
+    metadata
+  };
+}
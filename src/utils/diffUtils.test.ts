@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, hasChanges } from './diffUtils';
+
+/**
+ * Put a diff back together as either side of the comparison
+ */
+function rebuild(parts: ReturnType<typeof diffWords>, side: 'before' | 'after'): string {
+  const skipped = side === 'before' ? 'added' : 'removed';
+  return parts.filter(part => part.type !== skipped).map(part => part.text).join('');
+}
+
+describe('diffWords', () => {
+  it('marks the words that changed', () => {
+    expect(diffWords('the quick brown fox', 'the slow brown fox')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' brown fox' }
+    ]);
+  });
+
+  it('handles words added at either end', () => {
+    expect(diffWords('brown fox', 'the brown fox jumps')).toEqual([
+      { type: 'added', text: 'the ' },
+      { type: 'equal', text: 'brown fox' },
+      { type: 'added', text: ' jumps' }
+    ]);
+  });
+
+  it('keeps line breaks and spacing', () => {
+    const before = 'First line.\n\nSecond  line.';
+    const after = 'First line.\nSecond  line, edited.';
+    const parts = diffWords(before, after);
+
+    expect(rebuild(parts, 'before')).toBe(before);
+    expect(rebuild(parts, 'after')).toBe(after);
+  });
+
+  it('rebuilds both texts after scattered edits', () => {
+    const before = 'a b c d e f g h i j';
+    const after = 'a x c d y e f h i j k';
+    const parts = diffWords(before, after);
+
+    expect(rebuild(parts, 'before')).toBe(before);
+    expect(rebuild(parts, 'after')).toBe(after);
+  });
+
+  it('diffs from and to empty text', () => {
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('hasChanges', () => {
+  it('is false only when nothing was added or removed', () => {
+    expect(hasChanges(diffWords('same words', 'same words'))).toBe(false);
+    expect(hasChanges(diffWords('same words', 'same word'))).toBe(true);
+  });
+});
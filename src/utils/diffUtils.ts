@@ -0,0 +1,148 @@
+/**
+ * Utility functions for word-level text diffs, used to compare post revisions
+ */
+
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+/**
+ * Split text into words and the whitespace between them, so a diff keeps
+ * line breaks and spacing intact
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+/**
+ * Append a token to the diff, merging it into the previous part when the
+ * type matches
+ */
+function pushPart(parts: DiffPart[], type: DiffPartType, text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Find the shortest edit script between two token lists (Myers' algorithm).
+ * Returns the edits in order, without the shared prefix and suffix handled
+ * by the caller.
+ */
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const n = before.length;
+  const m = after.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Furthest x reached on each diagonal, saved after every edit distance
+  const trace: Int32Array[] = [];
+
+  let distance = 0;
+  search:
+  for (; distance <= max; distance++) {
+    for (let k = -distance; k <= distance; k += 2) {
+      let x = k === -distance || (k !== distance && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - distance - 1, offset + distance + 2));
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - distance - 1, offset + distance + 2));
+  }
+
+  // Walk back from the end, collecting edits in reverse
+  const reversed: DiffPart[] = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d > 0; d--) {
+    const previous = trace[d - 1];
+    // Index into the saved slice for diagonal k at distance d - 1
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      reversed.push({ type: 'equal', text: before[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === previousX) {
+      reversed.push({ type: 'added', text: after[y - 1] });
+    } else {
+      reversed.push({ type: 'removed', text: before[x - 1] });
+    }
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    reversed.push({ type: 'equal', text: before[x - 1] });
+    x--;
+    y--;
+  }
+
+  return reversed.reverse();
+}
+
+/**
+ * Compare two texts word by word
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+
+  // Edits are usually small, so only diff what's between the common ends
+  let start = 0;
+  while (
+    start < beforeTokens.length &&
+    start < afterTokens.length &&
+    beforeTokens[start] === afterTokens[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < beforeTokens.length - start &&
+    end < afterTokens.length - start &&
+    beforeTokens[beforeTokens.length - 1 - end] === afterTokens[afterTokens.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) {
+    pushPart(parts, 'equal', beforeTokens.slice(0, start).join(''));
+  }
+  diffTokens(
+    beforeTokens.slice(start, beforeTokens.length - end),
+    afterTokens.slice(start, afterTokens.length - end)
+  ).forEach(part => pushPart(parts, part.type, part.text));
+  if (end > 0) {
+    pushPart(parts, 'equal', beforeTokens.slice(beforeTokens.length - end).join(''));
+  }
+
+  return parts;
+}
+
+/**
+ * Check if a diff contains any changes
+ */
+export function hasChanges(parts: DiffPart[]): boolean {
+  return parts.some(part => part.type !== 'equal');
+}
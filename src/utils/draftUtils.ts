@@ -0,0 +1,90 @@
+/**
+ * Utility functions for keeping unsaved post edits in local storage, so work
+ * survives a closed tab or an expired session
+ */
+
+import { BlogFormData } from '../types/BlogPost';
+
+export interface PostDraft {
+  formData: BlogFormData;
+  savedAt: string;
+  baseUpdatedAt?: string; // When the post the draft started from was last saved
+}
+
+const DRAFT_KEY_PREFIX = 'post-draft:';
+
+/**
+ * Storage key for a post's draft. New posts share a single draft.
+ */
+function getDraftKey(postId?: string): string {
+  return `${DRAFT_KEY_PREFIX}${postId || 'new'}`;
+}
+
+/**
+ * Read the draft saved for a post, if there is one
+ */
+export function loadDraft(postId?: string): PostDraft | null {
+  try {
+    const stored = window.localStorage.getItem(getDraftKey(postId));
+    return stored ? JSON.parse(stored) as PostDraft : null;
+  } catch (error) {
+    console.error('Failed to read post draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a draft of a post's form. Failures are logged, not thrown, since
+ * autosave shouldn't interrupt editing.
+ */
+export function saveDraft(postId: string | undefined, formData: BlogFormData, baseUpdatedAt?: string): PostDraft | null {
+  const draft: PostDraft = { formData, savedAt: new Date().toISOString(), baseUpdatedAt };
+
+  try {
+    window.localStorage.setItem(getDraftKey(postId), JSON.stringify(draft));
+    return draft;
+  } catch (error) {
+    console.error('Failed to save post draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove a post's draft once it's been saved or discarded
+ */
+export function clearDraft(postId?: string) {
+  try {
+    window.localStorage.removeItem(getDraftKey(postId));
+  } catch (error) {
+    console.error('Failed to clear post draft:', error);
+  }
+}
+
+/**
+ * Check if two versions of the form hold the same values
+ */
+export function isSameFormData(a: BlogFormData, b: BlogFormData): boolean {
+  return JSON.stringify(normalizeFormData(a)) === JSON.stringify(normalizeFormData(b));
+}
+
+/**
+ * Put form fields in a fixed order, with empty optional fields dropped, so
+ * equal forms serialize the same way
+ */
+function normalizeFormData(formData: BlogFormData) {
+  return {
+    title: formData.title,
+    slug: formData.slug,
+    category: formData.category,
+    imageUrl: formData.imageUrl,
+    images: formData.images,
+    excerpt: formData.excerpt,
+    content: formData.content,
+    status: formData.status,
+    publishedAt: formData.publishedAt || null,
+    tags: formData.tags,
+    imageMetadata: formData.imageMetadata && Object.keys(formData.imageMetadata).length > 0
+      ? formData.imageMetadata
+      : null
+  };
+}
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  formatAperture,
+  formatCamera,
+  formatExposureTime,
+  formatFocalLength,
+  hasEmbeddedMetadata,
+  hasGps,
+  readExif,
+  stripJpegGps
+} from './exifUtils';
+
+// A directory entry; `pointer` values are the offset of another directory
+type Entry =
+  | { tag: number; type: 2; value: string }
+  | { tag: number; type: 3 | 4 | 5; value: number[] }
+  | { tag: number; type: 4; pointer: number };
+
+const TYPE_SIZES = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+function valueSize(entry: Entry): number {
+  if (entry.type === 2) return entry.value.length + 1;
+  return TYPE_SIZES[entry.type] * ('pointer' in entry ? 1 : entry.value.length);
+}
+
+/**
+ * Lay out little-endian TIFF directories one after another, each followed
+ * by its values that don't fit in an entry
+ */
+function buildTiff(directories: Entry[][]): Uint8Array {
+  const sizes = directories.map(entries =>
+    2 + entries.length * 12 + 4 + entries.reduce((total, entry) => total + (valueSize(entry) > 4 ? valueSize(entry) : 0), 0)
+  );
+  const offsets = sizes.reduce((list, size) => [...list, list[list.length - 1] + size], [8]);
+  const bytes = new Uint8Array(offsets[directories.length]);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  directories.forEach((entries, index) => {
+    let dataOffset = offsets[index] + 2 + entries.length * 12 + 4;
+    view.setUint16(offsets[index], entries.length, true);
+
+    entries.forEach((entry, entryIndex) => {
+      const entryStart = offsets[index] + 2 + entryIndex * 12;
+      const size = valueSize(entry);
+      const valueStart = size > 4 ? dataOffset : entryStart + 8;
+      if (size > 4) {
+        view.setUint32(entryStart + 8, dataOffset, true);
+        dataOffset += size;
+      }
+
+      view.setUint16(entryStart, entry.tag, true);
+      view.setUint16(entryStart + 2, entry.type, true);
+      view.setUint32(entryStart + 4, entry.type === 2 ? size : size / TYPE_SIZES[entry.type], true);
+
+      if (entry.type === 2) {
+        bytes.set([...entry.value].map(char => char.charCodeAt(0)), valueStart);
+      } else if ('pointer' in entry) {
+        view.setUint32(valueStart, offsets[entry.pointer], true);
+      } else {
+        entry.value.forEach((value, i) => {
+          if (entry.type === 3) view.setUint16(valueStart + i * 2, value, true);
+          if (entry.type === 4) view.setUint32(valueStart + i * 4, value, true);
+          if (entry.type === 5) {
+            view.setUint32(valueStart + i * 8, Math.round(value * 1000), true);
+            view.setUint32(valueStart + i * 8 + 4, 1000, true);
+          }
+        });
+      }
+    });
+  });
+
+  return bytes;
+}
+
+function segment(marker: number, body: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(4 + body.length);
+  new DataView(bytes.buffer).setUint16(0, marker);
+  new DataView(bytes.buffer).setUint16(2, body.length + 2);
+  bytes.set(body, 4);
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return new Uint8Array([...text].map(char => char.charCodeAt(0)));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+}
+
+function buildJpeg(): ArrayBuffer {
+  const tiff = buildTiff([
+    [
+      { tag: 0x010f, type: 2, value: 'Canon' },
+      { tag: 0x0110, type: 2, value: 'Canon EOS R6' },
+      { tag: 0x8769, type: 4, pointer: 1 },
+      { tag: 0x8825, type: 4, pointer: 2 }
+    ],
+    [
+      { tag: 0x829a, type: 5, value: [0.004] },
+      { tag: 0x829d, type: 5, value: [8] },
+      { tag: 0x8827, type: 3, value: [200] },
+      { tag: 0x9003, type: 2, value: '2024:06:01 14:23:05' },
+      { tag: 0x9011, type: 2, value: '-07:00' },
+      { tag: 0x920a, type: 5, value: [35] }
+    ],
+    [
+      { tag: 0x0001, type: 2, value: 'N' },
+      { tag: 0x0002, type: 5, value: [37, 30, 0] },
+      { tag: 0x0003, type: 2, value: 'W' },
+      { tag: 0x0004, type: 5, value: [122, 15, 0] }
+    ]
+  ]);
+
+  return concat(
+    new Uint8Array([0xff, 0xd8]),
+    segment(0xffe1, concat(ascii('Exif\0\0'), tiff)),
+    segment(0xffe1, ascii('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>37.5N</x:xmpmeta>')),
+    new Uint8Array([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9])
+  ).buffer;
+}
+
+describe('readExif', () => {
+  it('reads camera settings, capture time and location from a JPEG', () => {
+    expect(readExif(buildJpeg())).toEqual({
+      takenAt: '2024-06-01T14:23:05-07:00',
+      cameraMake: 'Canon',
+      cameraModel: 'Canon EOS R6',
+      focalLength: 35,
+      aperture: 8,
+      exposureTime: 0.004,
+      iso: 200,
+      gpsLatitude: 37.5,
+      gpsLongitude: -122.25
+    });
+  });
+
+  it('treats other files as having no camera data', () => {
+    expect(readExif(ascii('\x89PNG\r\n\x1a\n').buffer)).toEqual({});
+  });
+
+  it('survives truncated metadata', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(readExif(buildJpeg().slice(0, 40))).toEqual({});
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('stripJpegGps', () => {
+  it('removes the location and XMP but keeps the camera settings', () => {
+    const stripped = stripJpegGps(buildJpeg());
+    const exif = readExif(stripped);
+
+    expect(hasGps(exif)).toBe(false);
+    expect(exif.cameraModel).toBe('Canon EOS R6');
+    expect(exif.iso).toBe(200);
+    expect(new TextDecoder('latin1').decode(stripped)).not.toContain('xmpmeta');
+  });
+
+  it('returns other files unchanged', () => {
+    const png = ascii('\x89PNG\r\n\x1a\n').buffer;
+    expect(stripJpegGps(png)).toBe(png);
+  });
+});
+
+describe('hasEmbeddedMetadata', () => {
+  it('finds EXIF and XMP blocks in any format', () => {
+    expect(hasEmbeddedMetadata(buildJpeg())).toBe(true);
+    expect(hasEmbeddedMetadata(ascii('\x89PNG\r\n\x1a\n\0\0\0\x10eXIfII*\0').buffer)).toBe(true);
+    expect(hasEmbeddedMetadata(ascii('RIFF\0\0\0\0WEBPVP8X').buffer)).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('leaves the make out when the model repeats it', () => {
+    expect(formatCamera({ cameraMake: 'Canon', cameraModel: 'Canon EOS R6' })).toBe('Canon EOS R6');
+    expect(formatCamera({ cameraMake: 'FUJIFILM', cameraModel: 'X-T5' })).toBe('FUJIFILM X-T5');
+    expect(formatCamera({})).toBeUndefined();
+  });
+
+  it('formats exposure settings', () => {
+    expect(formatExposureTime(0.004)).toBe('1/250s');
+    expect(formatExposureTime(2)).toBe('2s');
+    expect(formatAperture(2.8)).toBe('f/2.8');
+    expect(formatFocalLength(35)).toBe('35mm');
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * Utility functions for reading camera data (EXIF) from photos
+ *
+ * Handles JPEG, and HEIC/HEIF as they come off phones. Other formats rarely
+ * carry camera data and are treated as having none.
+ */
+
+export interface ExifData {
+  takenAt?: string; // Camera clock time, "YYYY-MM-DDTHH:mm:ss", with an offset if the camera recorded one
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  focalLength?: number; // Millimetres
+  aperture?: number; // f-number
+  exposureTime?: number; // Seconds
+  iso?: number;
+  gpsLatitude?: number; // Decimal degrees, negative south
+  gpsLongitude?: number; // Decimal degrees, negative west
+}
+
+type TagValue = string | number | number[];
+
+// Tags read from each directory
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  exifPointer: 0x8769,
+  gpsPointer: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004
+};
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/**
+ * A TIFF structure (the body of an EXIF block) within a file
+ */
+interface Tiff {
+  view: DataView;
+  start: number;
+  littleEndian: boolean;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute position of the value in the file
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+/**
+ * Read the header of the TIFF structure starting at `start`
+ */
+function openTiff(view: DataView, start: number): Tiff | null {
+  const byteOrder = view.getUint16(start);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(start + 2, littleEndian) !== 42) return null;
+
+  return { view, start, littleEndian };
+}
+
+/**
+ * List the entries of the image file directory at `offset` (relative to the TIFF start)
+ */
+function readIfdEntries(tiff: Tiff, offset: number): IfdEntry[] {
+  const { view, start, littleEndian } = tiff;
+  const ifdStart = start + offset;
+  const count = view.getUint16(ifdStart, littleEndian);
+  const entries: IfdEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const entryStart = ifdStart + 2 + i * 12;
+    const type = view.getUint16(entryStart + 2, littleEndian);
+    const valueCount = view.getUint32(entryStart + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 1) * valueCount;
+
+    entries.push({
+      tag: view.getUint16(entryStart, littleEndian),
+      type,
+      count: valueCount,
+      // Values of up to four bytes are stored in the entry itself
+      valueOffset: size <= 4 ? entryStart + 8 : start + view.getUint32(entryStart + 8, littleEndian)
+    });
+  }
+
+  return entries;
+}
+
+function readValue(tiff: Tiff, entry: IfdEntry): TagValue | undefined {
+  const { view, littleEndian } = tiff;
+
+  if (entry.type === 2) {
+    return readAscii(view, entry.valueOffset, entry.count).trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const offset = entry.valueOffset + i * (TYPE_SIZES[entry.type] || 1);
+    switch (entry.type) {
+      case 1:
+      case 7:
+        values.push(view.getUint8(offset));
+        break;
+      case 3:
+        values.push(view.getUint16(offset, littleEndian));
+        break;
+      case 4:
+        values.push(view.getUint32(offset, littleEndian));
+        break;
+      case 9:
+        values.push(view.getInt32(offset, littleEndian));
+        break;
+      case 5:
+      case 10: {
+        const read = entry.type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const denominator = read(offset + 4, littleEndian);
+        values.push(denominator === 0 ? 0 : read(offset, littleEndian) / denominator);
+        break;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  return values.length === 1 ? values[0] : values;
+}
+
+// Skips maker notes and other large values nothing here uses
+const WANTED_TAGS = new Set(Object.values(TAGS));
+
+function readIfd(tiff: Tiff, offset: number): Map<number, TagValue> {
+  const values = new Map<number, TagValue>();
+  readIfdEntries(tiff, offset).forEach(entry => {
+    if (!WANTED_TAGS.has(entry.tag)) return;
+    const value = readValue(tiff, entry);
+    if (value !== undefined && value !== '') {
+      values.set(entry.tag, value);
+    }
+  });
+  return values;
+}
+
+/**
+ * Find the EXIF TIFF structure in a JPEG's APP1 segment
+ */
+function findJpegTiffStart(view: DataView): number | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Image data starts
+
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && readAscii(view, offset + 4, 4) === 'Exif') {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * List the child boxes of an ISO media box (the HEIF container format)
+ */
+function readBoxes(view: DataView, start: number, end: number): { type: string; start: number; end: number }[] {
+  const boxes: { type: string; start: number; end: number }[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readAscii(view, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+
+    boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function readSizedInt(view: DataView, offset: number, size: number): number {
+  if (size === 0) return 0;
+  if (size === 4) return view.getUint32(offset);
+  if (size === 8) return Number(view.getBigUint64(offset));
+  return view.getUint16(offset);
+}
+
+/**
+ * Find the EXIF TIFF structure in a HEIC/HEIF file. It's stored as an item
+ * of type "Exif", located through the item info and item location boxes.
+ */
+function findHeifTiffStart(view: DataView): number | null {
+  const meta = readBoxes(view, 0, view.byteLength).find(box => box.type === 'meta');
+  if (!meta) return null;
+
+  // `meta` is a full box: skip its version and flags
+  const children = readBoxes(view, meta.start + 4, meta.end);
+  const iinf = children.find(box => box.type === 'iinf');
+  const iloc = children.find(box => box.type === 'iloc');
+  if (!iinf || !iloc) return null;
+
+  // Item info: find the id of the Exif item
+  const iinfVersion = view.getUint8(iinf.start);
+  const entriesStart = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4);
+  let exifItemId: number | null = null;
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const version = view.getUint8(infe.start);
+    if (version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const itemId = readSizedInt(view, infe.start + 4, idSize);
+    const itemType = readAscii(view, infe.start + 4 + idSize + 2, 4);
+    if (itemType === 'Exif') {
+      exifItemId = itemId;
+      break;
+    }
+  }
+  if (exifItemId === null) return null;
+
+  // Item location: find where the Exif item's data is in the file
+  const version = view.getUint8(iloc.start);
+  const sizes = view.getUint16(iloc.start + 4);
+  const offsetSize = (sizes >> 12) & 0xf;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+  const idSize = version < 2 ? 2 : 4;
+
+  let offset = iloc.start + 6;
+  const itemCount = readSizedInt(view, offset, idSize);
+  offset += idSize;
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = readSizedInt(view, offset, idSize);
+    offset += idSize;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0xf;
+      offset += 2;
+    }
+    offset += 2; // Data reference index
+    const baseOffset = readSizedInt(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    let firstExtentOffset = 0;
+    for (let j = 0; j < extentCount; j++) {
+      offset += indexSize;
+      const extentOffset = readSizedInt(view, offset, offsetSize);
+      offset += offsetSize + lengthSize;
+      if (j === 0) firstExtentOffset = extentOffset;
+    }
+
+    if (itemId === exifItemId) {
+      // Only items stored directly in the file are supported
+      if (constructionMethod !== 0) return null;
+      // The item starts with the offset of the TIFF header within it
+      const itemStart = baseOffset + firstExtentOffset;
+      return itemStart + 4 + view.getUint32(itemStart);
+    }
+  }
+
+  return null;
+}
+
+function isJpeg(view: DataView): boolean {
+  return view.byteLength > 2 && view.getUint16(0) === 0xffd8;
+}
+
+function isHeif(view: DataView): boolean {
+  return view.byteLength > 12 && readAscii(view, 4, 4) === 'ftyp';
+}
+
+function toNumber(value: TagValue | undefined): number | undefined {
+  const number = Array.isArray(value) ? value[0] : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function toText(value: TagValue | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Convert degrees/minutes/seconds and a hemisphere to decimal degrees
+ */
+function toDegrees(value: TagValue | undefined, ref: TagValue | undefined, negativeRef: string): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+}
+
+/**
+ * Convert an EXIF date ("2024:06:01 14:23:05") to ISO format
+ */
+function toIsoDate(value: TagValue | undefined, offset: TagValue | undefined): string | undefined {
+  const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+/**
+ * Read camera data from a JPEG or HEIC file. Returns an empty object when the
+ * file has none or it can't be read.
+ */
+export function readExif(buffer: ArrayBuffer): ExifData {
+  try {
+    const view = new DataView(buffer);
+    const tiffStart = isJpeg(view) ? findJpegTiffStart(view) : isHeif(view) ? findHeifTiffStart(view) : null;
+    const tiff = tiffStart !== null ? openTiff(view, tiffStart) : null;
+    if (!tiff) return {};
+
+    const ifd0 = readIfd(tiff, view.getUint32(tiff.start + 4, tiff.littleEndian));
+    const exifPointer = toNumber(ifd0.get(TAGS.exifPointer));
+    const gpsPointer = toNumber(ifd0.get(TAGS.gpsPointer));
+    const exif = exifPointer ? readIfd(tiff, exifPointer) : new Map<number, TagValue>();
+    const gps = gpsPointer ? readIfd(tiff, gpsPointer) : new Map<number, TagValue>();
+
+    const data: ExifData = {
+      takenAt: toIsoDate(exif.get(TAGS.dateTimeOriginal), exif.get(TAGS.offsetTimeOriginal)),
+      cameraMake: toText(ifd0.get(TAGS.make)),
+      cameraModel: toText(ifd0.get(TAGS.model)),
+      lensModel: toText(exif.get(TAGS.lensModel)),
+      focalLength: toNumber(exif.get(TAGS.focalLength)),
+      aperture: toNumber(exif.get(TAGS.fNumber)),
+      exposureTime: toNumber(exif.get(TAGS.exposureTime)),
+      iso: toNumber(exif.get(TAGS.iso)),
+      gpsLatitude: toDegrees(gps.get(TAGS.gpsLatitude), gps.get(TAGS.gpsLatitudeRef), 'S'),
+      gpsLongitude: toDegrees(gps.get(TAGS.gpsLongitude), gps.get(TAGS.gpsLongitudeRef), 'W')
+    };
+
+    // Drop fields the photo doesn't have
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as ExifData;
+  } catch (error) {
+    // Truncated or malformed metadata reads past the end of the buffer
+    console.warn('Failed to read EXIF data:', error);
+    return {};
+  }
+}
+
+/**
+ * Remove location data from a JPEG. The GPS directory is blanked in place,
+ * and XMP metadata (which can repeat the location) is dropped. Returns the
+ * file unchanged if it isn't a JPEG.
+ */
+export function stripJpegGps(buffer: ArrayBuffer): ArrayBuffer {
+  const bytes = new Uint8Array(buffer.slice(0));
+  const view = new DataView(bytes.buffer);
+  if (!isJpeg(view)) return buffer;
+
+  const keptRanges: [number, number][] = [];
+  let keptFrom = 0;
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+
+    const segmentEnd = offset + 2 + view.getUint16(offset + 2);
+
+    if (marker === 0xffe1 && readAscii(view, offset + 4, 4) === 'Exif') {
+      const tiff = openTiff(view, offset + 10);
+      if (tiff) {
+        const ifd0Entries = readIfdEntries(tiff, view.getUint32(tiff.start + 4, tiff.littleEndian));
+        const gpsEntry = ifd0Entries.find(entry => entry.tag === TAGS.gpsPointer);
+        if (gpsEntry) {
+          const gpsOffset = view.getUint32(gpsEntry.valueOffset, tiff.littleEndian);
+          const gpsStart = tiff.start + gpsOffset;
+          const gpsEntries = readIfdEntries(tiff, gpsOffset);
+
+          // Blank the values stored outside the directory, then the
+          // directory itself, leaving a valid empty one
+          gpsEntries.forEach(entry => {
+            const size = (TYPE_SIZES[entry.type] || 1) * entry.count;
+            if (size > 4) {
+              bytes.fill(0, entry.valueOffset, Math.min(entry.valueOffset + size, segmentEnd));
+            }
+          });
+          bytes.fill(0, gpsStart, gpsStart + 2 + gpsEntries.length * 12 + 4);
+        }
+      }
+    } else if (marker === 0xffe1 && readAscii(view, offset + 4, 28) === 'http://ns.adobe.com/xap/1.0/') {
+      keptRanges.push([keptFrom, offset]);
+      keptFrom = segmentEnd;
+    }
+
+    offset = segmentEnd;
+  }
+  keptRanges.push([keptFrom, bytes.length]);
+
+  const stripped = new Uint8Array(keptRanges.reduce((total, [from, to]) => total + to - from, 0));
+  let position = 0;
+  keptRanges.forEach(([from, to]) => {
+    stripped.set(bytes.subarray(from, to), position);
+    position += to - from;
+  });
+  return stripped.buffer;
+}
+
+// Names of the blocks that can hold a location: EXIF in JPEG and HEIC
+// ("Exif"), PNG ("eXIf") and WebP ("EXIF"), and XMP in any of them
+const METADATA_MARKERS = ['Exif', 'eXIf', 'EXIF', 'http://ns.adobe.com/xap/1.0/'];
+
+/**
+ * Check if a file of any format carries EXIF or XMP metadata, which may hold
+ * its location even when `readExif` can't read it
+ */
+export function hasEmbeddedMetadata(buffer: ArrayBuffer): boolean {
+  const text = new TextDecoder('latin1').decode(buffer);
+  return METADATA_MARKERS.some(marker => text.includes(marker));
+}
+
+/**
+ * Check if a photo recorded where it was taken
+ */
+export function hasGps(exif: ExifData): boolean {
+  return exif.gpsLatitude !== undefined && exif.gpsLongitude !== undefined;
+}
+
+/**
+ * Describe the camera, without repeating the make when the model includes it
+ */
+export function formatCamera(exif: ExifData): string | undefined {
+  const { cameraMake: make, cameraModel: model } = exif;
+  if (make && model) {
+    return model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? model : `${make} ${model}`;
+  }
+  return model || make;
+}
+
+/**
+ * Format a shutter speed, e.g. 1/250s or 2s
+ */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) {
+    return `${Number(seconds.toFixed(1))}s`;
+  }
+  return `1/${Math.round(1 / seconds)}s`;
+}
+
+/**
+ * Format an aperture, e.g. f/2.8
+ */
+export function formatAperture(fNumber: number): string {
+  return `f/${Number(fNumber.toFixed(1))}`;
+}
+
+/**
+ * Format a focal length, e.g. 35mm
+ */
+export function formatFocalLength(millimetres: number): string {
+  return `${Number(millimetres.toFixed(1))}mm`;
+}
+
+/**
+ * Check if a photo has anything to show in a details panel. Location isn't
+ * shown publicly, so it doesn't count.
+ */
+export function hasCameraDetails(exif: ExifData): boolean {
+  return Boolean(
+    exif.takenAt || exif.cameraMake || exif.cameraModel || exif.lensModel ||
+    exif.focalLength || exif.aperture || exif.exposureTime || exif.iso
+  );
+}
+
+/**
+ * Format a capture time as the camera's clock showed it, whatever the
+ * reader's time zone
+ */
+export function formatTakenAt(takenAt: string): string {
+  const [year, month, day, hour, minute] = takenAt.split(/[-T:]/).map(Number);
+  return new Date(year, month - 1, day, hour, minute).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+}
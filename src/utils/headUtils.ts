@@ -0,0 +1,137 @@
+/**
+ * Utility functions for describing a page in the document <head>
+ *
+ * Pages describe themselves with a DocumentHead. The app applies it with
+ * useDocumentHead, and the build writes the same tags into prerendered pages.
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import { BlogPost } from '../types/BlogPost';
+import { getImageDisplayUrl } from './imageUtils';
+import { getPostPath } from './postUtils';
+
+export const SITE_TITLE = 'Continued Education';
+export const SITE_DESCRIPTION = "Field notes from nature's lecture hall";
+export const SITE_AUTHOR = 'Kate Goldenring';
+
+// Marks the tags a page added, so they can be swapped out for the next page's
+export const HEAD_TAG_ATTRIBUTE = 'data-page-head';
+
+// Details of a page that's a blog post
+export interface ArticleHead {
+  publishedAt: string;
+  modifiedAt: string;
+  author: string;
+  section: string; // Category slug
+  tags: string[];
+}
+
+export interface DocumentHead {
+  title?: string; // Without the site name; omit for the home page
+  description?: string;
+  path?: string; // Canonical path
+  imageUrl?: string;
+  article?: ArticleHead; // Adds article tags and BlogPosting structured data
+  noIndex?: boolean; // Keep search engines away, e.g. admin pages
+}
+
+export type HeadTag =
+  | { name: 'meta' | 'link'; attributes: Record<string, string> }
+  | { name: 'script'; attributes: Record<string, string>; content: string };
+
+/**
+ * Build the document title for a page
+ */
+export function formatDocumentTitle(title?: string): string {
+  return title ? `${title} - ${SITE_TITLE}` : `${SITE_TITLE} - Personal Blog`;
+}
+
+/**
+ * Build the <head> tags for a page. `siteUrl` makes links absolute, as
+ * crawlers and link previews require.
+ */
+export function getHeadTags(head: DocumentHead, siteUrl: string): HeadTag[] {
+  const description = head.description || SITE_DESCRIPTION;
+  const url = head.path ? new URL(head.path, siteUrl).href : undefined;
+  const imageUrl = head.imageUrl ? new URL(head.imageUrl, siteUrl).href : undefined;
+  const title = head.title || SITE_TITLE;
+
+  const meta = (attribute: 'name' | 'property', key: string, content: string): HeadTag => ({
+    name: 'meta',
+    attributes: { [attribute]: key, content }
+  });
+
+  const tags: HeadTag[] = [meta('name', 'description', description)];
+
+  if (head.noIndex) {
+    tags.push(meta('name', 'robots', 'noindex'));
+    return tags;
+  }
+
+  if (url) {
+    tags.push({ name: 'link', attributes: { rel: 'canonical', href: url } });
+  }
+
+  tags.push(
+    meta('property', 'og:type', head.article ? 'article' : 'website'),
+    meta('property', 'og:site_name', SITE_TITLE),
+    meta('property', 'og:title', title),
+    meta('property', 'og:description', description),
+    ...(url ? [meta('property', 'og:url', url)] : []),
+    ...(imageUrl ? [meta('property', 'og:image', imageUrl)] : []),
+    ...(head.article ? [
+      meta('property', 'article:published_time', head.article.publishedAt),
+      meta('property', 'article:modified_time', head.article.modifiedAt)
+    ] : []),
+    meta('name', 'twitter:card', imageUrl ? 'summary_large_image' : 'summary'),
+    meta('name', 'twitter:title', title),
+    meta('name', 'twitter:description', description),
+    ...(imageUrl ? [meta('name', 'twitter:image', imageUrl)] : [])
+  );
+
+  if (head.article) {
+    const structuredData = {
+      '@context': 'https://schema.org',
+      '@type': 'BlogPosting',
+      headline: title,
+      description,
+      ...(url ? { url, mainEntityOfPage: url } : {}),
+      ...(imageUrl ? { image: [imageUrl] } : {}),
+      datePublished: head.article.publishedAt,
+      dateModified: head.article.modifiedAt,
+      author: { '@type': 'Person', name: head.article.author },
+      articleSection: head.article.section,
+      ...(head.article.tags.length > 0 ? { keywords: head.article.tags.join(', ') } : {})
+    };
+
+    tags.push({
+      name: 'script',
+      attributes: { type: 'application/ld+json' },
+      content: JSON.stringify(structuredData)
+    });
+  }
+
+  return tags;
+}
+
+/**
+ * Describe a post's page. With the hero image's metadata, previews show it
+ * as edited.
+ */
+export function getPostHead(post: BlogPost, imageMetadata?: ImageMetadata | null): DocumentHead {
+  const publishedAt = post.publishedAt || post.date;
+
+  return {
+    title: post.title,
+    description: post.excerpt,
+    path: getPostPath(post),
+    imageUrl: post.imageUrl && getImageDisplayUrl(post.imageUrl, imageMetadata),
+    article: {
+      publishedAt,
+      modifiedAt: post.updatedAt || publishedAt,
+      author: SITE_AUTHOR,
+      section: post.category,
+      tags: post.tags.map(tag => tag.name)
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getCenteredCrop,
+  getEditedSize,
+  getObjectPosition,
+  getRotatedSize,
+  hasImageEdits,
+  isCropped,
+  isSameCrop,
+  normalizeCrop,
+  rotateBy
+} from './imageEditUtils';
+
+describe('rotation', () => {
+  it('turns a quarter turn either way, wrapping around', () => {
+    expect(rotateBy(0, 90)).toBe(90);
+    expect(rotateBy(270, 90)).toBe(0);
+    expect(rotateBy(0, -90)).toBe(270);
+  });
+
+  it('swaps width and height for quarter turns', () => {
+    expect(getRotatedSize(4000, 3000, 90)).toEqual({ width: 3000, height: 4000 });
+    expect(getRotatedSize(4000, 3000, 180)).toEqual({ width: 4000, height: 3000 });
+  });
+});
+
+describe('cropping', () => {
+  it('keeps a crop inside the picture and at least the minimum size', () => {
+    expect(normalizeCrop({ x: 0.9, y: -0.2, width: 0.5, height: 0.01 })).toEqual({
+      x: 0.5,
+      y: 0,
+      width: 0.5,
+      height: 0.05
+    });
+  });
+
+  it('centres the largest crop with an aspect ratio', () => {
+    expect(getCenteredCrop(1, 4000, 2000)).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+    expect(getCenteredCrop(2, 2000, 2000)).toEqual({ x: 0, y: 0.25, width: 1, height: 0.5 });
+  });
+
+  it('treats a crop of the whole picture as no crop', () => {
+    expect(isCropped(undefined)).toBe(false);
+    expect(isCropped({ x: 0, y: 0, width: 1, height: 1 })).toBe(false);
+    expect(isCropped({ x: 0, y: 0, width: 1, height: 0.5 })).toBe(true);
+  });
+
+  it('compares crops allowing for rounding in storage', () => {
+    const crop = { x: 0.1, y: 0.2, width: 0.5, height: 0.5 };
+    expect(isSameCrop(crop, { ...crop, x: 0.1001 })).toBe(true);
+    expect(isSameCrop(crop, { ...crop, x: 0.11 })).toBe(false);
+    expect(isSameCrop(undefined, { x: 0, y: 0, width: 1, height: 1 })).toBe(true);
+    expect(isSameCrop(undefined, crop)).toBe(false);
+  });
+});
+
+describe('edited images', () => {
+  it('counts a rotation or crop as an edit', () => {
+    expect(hasImageEdits({ rotation: 0 })).toBe(false);
+    expect(hasImageEdits({ rotation: 90 })).toBe(true);
+    expect(hasImageEdits({ rotation: 0, crop: { x: 0, y: 0, width: 0.5, height: 1 } })).toBe(true);
+  });
+
+  it('measures the crop on the rotated picture', () => {
+    expect(getEditedSize(4000, 3000, { rotation: 90, crop: { x: 0, y: 0, width: 0.5, height: 0.25 } }))
+      .toEqual({ width: 1500, height: 1000 });
+  });
+
+  it('positions the focal point as percentages', () => {
+    expect(getObjectPosition({ x: 0.333, y: 0.8 })).toBe('33% 80%');
+    expect(getObjectPosition(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Utility functions for rotating, cropping and framing uploaded images
+ *
+ * Edits never touch the uploaded original. They're stored with the image and
+ * applied when its variants are made: first the rotation, then the crop,
+ * which is measured on the rotated picture. The focal point is measured on
+ * the finished picture and decides which part stays in view when a layout
+ * crops it further with `object-fit: cover`.
+ */
+
+export type ImageRotation = 0 | 90 | 180 | 270; // Clockwise
+
+// A region of the rotated picture, as fractions of its width and height
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The subject of the picture, as fractions from the top left
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface ImageEdits {
+  rotation: ImageRotation;
+  crop?: ImageCrop;
+  focalPoint?: FocalPoint;
+}
+
+// Crops smaller than this would leave too few pixels to be useful
+export const MIN_CROP_FRACTION = 0.05;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Turn a rotation by a quarter turn either way
+ */
+export function rotateBy(rotation: ImageRotation, degrees: 90 | -90): ImageRotation {
+  return ((rotation + degrees + 360) % 360) as ImageRotation;
+}
+
+/**
+ * Size of a picture once rotated
+ */
+export function getRotatedSize(width: number, height: number, rotation: ImageRotation): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Keep a crop inside the picture and at least the minimum size
+ */
+export function normalizeCrop(crop: ImageCrop): ImageCrop {
+  const width = clamp(crop.width, MIN_CROP_FRACTION, 1);
+  const height = clamp(crop.height, MIN_CROP_FRACTION, 1);
+  return {
+    x: clamp(crop.x, 0, 1 - width),
+    y: clamp(crop.y, 0, 1 - height),
+    width,
+    height
+  };
+}
+
+/**
+ * The largest centred crop with an aspect ratio (width / height), for a
+ * picture of the given size
+ */
+export function getCenteredCrop(aspectRatio: number, width: number, height: number): ImageCrop {
+  const cropWidth = Math.min(1, aspectRatio * height / width);
+  const cropHeight = Math.min(1, width / (aspectRatio * height));
+  return {
+    x: (1 - cropWidth) / 2,
+    y: (1 - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight
+  };
+}
+
+/**
+ * Whether a crop leaves out any of the picture
+ */
+export function isCropped(crop: ImageCrop | undefined): crop is ImageCrop {
+  return Boolean(crop && (crop.width < 1 || crop.height < 1));
+}
+
+/**
+ * Whether two crops cover the same region, allowing for rounding in storage
+ */
+export function isSameCrop(a: ImageCrop | undefined, b: ImageCrop | undefined): boolean {
+  if (!isCropped(a) || !isCropped(b)) return !isCropped(a) && !isCropped(b);
+  const tolerance = 0.0005;
+  return Math.abs(a.x - b.x) < tolerance &&
+    Math.abs(a.y - b.y) < tolerance &&
+    Math.abs(a.width - b.width) < tolerance &&
+    Math.abs(a.height - b.height) < tolerance;
+}
+
+/**
+ * Whether an image is shown rotated or cropped rather than as uploaded
+ */
+export function hasImageEdits(edits: Pick<ImageEdits, 'rotation' | 'crop'>): boolean {
+  return edits.rotation !== 0 || isCropped(edits.crop);
+}
+
+/**
+ * Pixel size of a picture after rotating and cropping
+ */
+export function getEditedSize(
+  width: number,
+  height: number,
+  edits: Pick<ImageEdits, 'rotation' | 'crop'>
+): { width: number; height: number } {
+  const rotated = getRotatedSize(width, height, edits.rotation);
+  if (!isCropped(edits.crop)) return rotated;
+  return {
+    width: Math.max(1, Math.round(rotated.width * edits.crop.width)),
+    height: Math.max(1, Math.round(rotated.height * edits.crop.height))
+  };
+}
+
+/**
+ * Draw a picture rotated and cropped, scaled down to at most `maxWidth`
+ */
+export function drawEditedImage(
+  source: ImageBitmap,
+  edits: Pick<ImageEdits, 'rotation' | 'crop'>,
+  maxWidth = Infinity
+): HTMLCanvasElement {
+  const rotated = getRotatedSize(source.width, source.height, edits.rotation);
+  const crop = isCropped(edits.crop) ? edits.crop : { x: 0, y: 0, width: 1, height: 1 };
+  const edited = getEditedSize(source.width, source.height, edits);
+  const scale = Math.min(1, maxWidth / edited.width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(edited.width * scale));
+  canvas.height = Math.max(1, Math.round(edited.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.imageSmoothingQuality = 'high';
+
+  // Work in the rotated picture's coordinates, shifted so the crop starts at 0,0
+  context.scale(scale, scale);
+  context.translate(-crop.x * rotated.width, -crop.y * rotated.height);
+  context.translate(rotated.width / 2, rotated.height / 2);
+  context.rotate(edits.rotation * Math.PI / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+
+  return canvas;
+}
+
+/**
+ * CSS `object-position` that keeps the focal point in view, or undefined
+ * to leave the browser's centred default
+ */
+export function getObjectPosition(focalPoint: FocalPoint | undefined): string | undefined {
+  if (!focalPoint) return undefined;
+  return `${Math.round(focalPoint.x * 100)}% ${Math.round(focalPoint.y * 100)}%`;
+}
@@ -0,0 +1,53 @@
+import { webcrypto } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { computeContentHash, computeDifferenceHash } from './imageHashUtils';
+
+// Node 18, which CI runs on, has no global Web Crypto
+beforeAll(() => {
+  if (!globalThis.crypto?.subtle) vi.stubGlobal('crypto', webcrypto);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+/**
+ * RGBA pixels of a 9×8 gray thumbnail, brightness picked per pixel
+ */
+function thumbnail(brightness: (x: number, y: number) => number): Uint8Array {
+  const data = new Uint8Array(9 * 8 * 4);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 9; x++) {
+      const value = brightness(x, y);
+      data.set([value, value, value, 255], (y * 9 + x) * 4);
+    }
+  }
+  return data;
+}
+
+describe('computeContentHash', () => {
+  it('hashes the bytes with SHA-256', async () => {
+    const bytes = new TextEncoder().encode('abc');
+    expect(await computeContentHash(bytes.buffer)).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+});
+
+describe('computeDifferenceHash', () => {
+  it('sets a bit wherever a pixel is brighter than the next', () => {
+    expect(computeDifferenceHash(thumbnail(x => 255 - x * 20))).toBe('ffffffffffffffff');
+    expect(computeDifferenceHash(thumbnail(x => x * 20))).toBe('0000000000000000');
+  });
+
+  it('reads the rows top to bottom and each row left to right', () => {
+    const firstPixelOfSecondRow = thumbnail((x, y) => (x === 0 && y === 1 ? 200 : 100));
+    expect(computeDifferenceHash(firstPixelOfSecondRow)).toBe('0080000000000000');
+  });
+
+  it('ignores overall brightness and contrast', () => {
+    const photo = (x: number, y: number) => (x * 7 + y * 13) % 50;
+    expect(computeDifferenceHash(thumbnail((x, y) => photo(x, y) * 2 + 40)))
+      .toBe(computeDifferenceHash(thumbnail(photo)));
+  });
+});
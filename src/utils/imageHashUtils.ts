@@ -0,0 +1,71 @@
+/**
+ * Utility functions for recognising photos that are already uploaded
+ *
+ * Two fingerprints are kept per image:
+ * - a SHA-256 of the file as chosen, which matches only the very same file
+ * - a 64-bit difference hash of the picture, which still matches after the
+ *   photo is resized, recompressed or re-exported
+ */
+
+export interface ImageHashes {
+  contentHash: string; // 64 hex digits
+  perceptualHash?: string; // 16 hex digits; missing when the browser can't decode the file
+}
+
+// Most re-exports differ by a few bits; unrelated photos differ by ~32
+export const SIMILAR_IMAGE_MAX_DISTANCE = 6;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a file's bytes, as hex
+ */
+export async function computeContentHash(buffer: ArrayBuffer): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', buffer)));
+}
+
+// The difference hash compares neighbouring pixels of a 9×8 thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Difference hash of a 9×8 thumbnail's RGBA pixels: one bit per pixel that's
+ * brighter than its right-hand neighbour
+ */
+export function computeDifferenceHash(data: ArrayLike<number>): string {
+  const luminance = (x: number, y: number) => {
+    const offset = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  };
+
+  const bytes = new Uint8Array(HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      if (luminance(x, y) > luminance(x + 1, y)) {
+        bytes[y] |= 1 << (7 - x);
+      }
+    }
+  }
+
+  return toHex(bytes);
+}
+
+/**
+ * Difference hash of a picture: shrink it to 9×8 and hash the thumbnail
+ */
+export function computePerceptualHash(source: ImageBitmap): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  return computeDifferenceHash(context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data);
+}
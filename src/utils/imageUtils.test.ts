@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageVariant } from '../services/imageService';
+import { getEditedImageVariant, getImageDisplayUrl, getResponsiveImageSources } from './imageUtils';
+
+const ORIGINAL = 'https://images.example.com/summit.jpg';
+
+function variant(width: number, mimeType: string): ImageVariant {
+  const extension = mimeType === 'image/webp' ? 'webp' : 'jpg';
+  return {
+    width,
+    height: Math.round(width * 2 / 3),
+    mimeType,
+    storagePath: `summit-${width}w.${extension}`,
+    publicUrl: `https://images.example.com/summit-${width}w.${extension}`
+  };
+}
+
+const variants = [
+  variant(800, 'image/jpeg'),
+  variant(400, 'image/jpeg'),
+  variant(400, 'image/webp'),
+  variant(800, 'image/webp')
+];
+
+describe('getResponsiveImageSources', () => {
+  it('lists the variants smallest first, leaving the original out', () => {
+    expect(getResponsiveImageSources({ variants, rotation: 0 })).toEqual({
+      srcSet: 'https://images.example.com/summit-400w.jpg 400w, https://images.example.com/summit-800w.jpg 800w',
+      webpSrcSet: 'https://images.example.com/summit-400w.webp 400w, https://images.example.com/summit-800w.webp 800w'
+    });
+  });
+
+  it('has nothing for images without variants', () => {
+    expect(getResponsiveImageSources({ variants: [], rotation: 0 })).toEqual({});
+    expect(getResponsiveImageSources(null)).toEqual({});
+  });
+});
+
+describe('getImageDisplayUrl', () => {
+  it('shows an edited image by its largest JPEG or PNG variant', () => {
+    const rotated = { variants, rotation: 90 as const };
+    expect(getEditedImageVariant(rotated)?.width).toBe(800);
+    expect(getImageDisplayUrl(ORIGINAL, rotated)).toBe('https://images.example.com/summit-800w.jpg');
+  });
+
+  it('keeps the stored URL for unedited and unknown images', () => {
+    expect(getImageDisplayUrl(ORIGINAL, { variants, rotation: 0 })).toBe(ORIGINAL);
+    expect(getImageDisplayUrl(ORIGINAL, null)).toBe(ORIGINAL);
+    expect(getImageDisplayUrl(ORIGINAL)).toBe(ORIGINAL);
+  });
+});
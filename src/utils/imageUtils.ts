@@ -0,0 +1,102 @@
+/**
+ * Utility functions for serving uploaded images at the right size
+ *
+ * Uploads are stored with downscaled JPEG (or PNG) and WebP variants. Pages
+ * list them in `srcset` with a `sizes` hint for the layout, and the browser
+ * downloads the smallest file that looks sharp.
+ */
+
+import type { ImageMetadata, ImageVariant } from '../services/imageService';
+import { hasImageEdits } from './imageEditUtils';
+
+// Widths of the variants made on upload; smaller originals skip the larger ones
+export const IMAGE_VARIANT_WIDTHS = [400, 800, 1600, 2400];
+
+// How wide each kind of image is drawn, for the `sizes` attribute
+export const IMAGE_SIZES = {
+  card: '(min-width: 1280px) 300px, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw',
+  hero: '100vw',
+  postGallery: '(min-width: 1024px) 280px, (min-width: 640px) 50vw, 100vw',
+  contentFigure: '(min-width: 896px) 832px, 100vw',
+  contentGallery: '(min-width: 896px) 270px, (min-width: 640px) 33vw, 50vw',
+  lightbox: '100vw'
+} as const;
+
+export interface ResponsiveImageSources {
+  srcSet?: string; // In the original's format family (JPEG or PNG)
+  webpSrcSet?: string;
+}
+
+/**
+ * Format the variants of an image are saved in for browsers without WebP.
+ * PNGs stay PNG to keep transparency.
+ */
+export function getVariantFallbackType(mimeType: string): string {
+  return mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+}
+
+/**
+ * Build a srcset from candidates, smallest first
+ */
+function formatSrcSet(candidates: { url: string; width: number }[]): string {
+  return [...candidates]
+    .sort((a, b) => a.width - b.width)
+    .map(candidate => `${candidate.url} ${candidate.width}w`)
+    .join(', ');
+}
+
+/**
+ * Get the variant that stands in for an image once it's been rotated or
+ * cropped: the largest one in the original's format family. Unedited images
+ * have none, as the original shows them as they are.
+ */
+export function getEditedImageVariant(
+  metadata: Pick<ImageMetadata, 'variants' | 'rotation' | 'crop'>
+): ImageVariant | undefined {
+  if (!hasImageEdits(metadata)) return undefined;
+
+  return metadata.variants
+    .filter(variant => variant.mimeType !== 'image/webp')
+    .reduce<ImageVariant | undefined>(
+      (largest, variant) => !largest || variant.width > largest.width ? variant : largest,
+      undefined
+    );
+}
+
+/**
+ * Get the single URL to show or share an image by, such as in link previews,
+ * feeds and copied links, so it looks the same there as on the page. That's
+ * the stored URL unless the image has been edited.
+ */
+export function getImageDisplayUrl(
+  url: string,
+  metadata?: Pick<ImageMetadata, 'variants' | 'rotation' | 'crop'> | null
+): string {
+  return (metadata && getEditedImageVariant(metadata)?.publicUrl) || url;
+}
+
+/**
+ * Get the srcsets for an uploaded image. Images without variants (older
+ * uploads, Flickr photos) get none and are served as they are.
+ */
+export function getResponsiveImageSources(
+  metadata: Pick<ImageMetadata, 'variants' | 'rotation' | 'crop'> | null | undefined
+): ResponsiveImageSources {
+  if (!metadata || metadata.variants.length === 0) return {};
+
+  // Only the variants: the original can be many times the size of the
+  // largest one, and once it's been edited it no longer shows the picture
+  const candidates = metadata.variants.map(variant => ({
+    url: variant.publicUrl,
+    width: variant.width,
+    mimeType: variant.mimeType
+  }));
+
+  const webp = candidates.filter(candidate => candidate.mimeType === 'image/webp');
+  const fallback = candidates.filter(candidate => candidate.mimeType !== 'image/webp');
+
+  return {
+    srcSet: fallback.length > 0 ? formatSrcSet(fallback) : undefined,
+    webpSrcSet: webp.length > 0 ? formatSrcSet(webp) : undefined
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Utility functions for rendering post Markdown
+ *
+ * The post page (MarkdownContent) and the feeds (renderPostHtml) render
+ * Markdown with the same plugins and sanitizing, so a post reads the same
+ * in both. Only the element styling differs.
+ */
+
+import type { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import type { ImageMetadata } from '../services/imageService';
+import { getImageDisplayUrl } from './imageUtils';
+
+// CommonMark plus GFM tables and strikethrough
+export const MARKDOWN_REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm];
+
+// What raw HTML in a post may keep; anything else is stripped, so a post
+// can't inject script
+export const MARKDOWN_SANITIZE_SCHEMA = defaultSchema;
+
+export const MARKDOWN_REHYPE_PLUGINS: Options['rehypePlugins'] = [[rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA]];
+
+/**
+ * Get the URL to show a Markdown image by, so edited library images show
+ * as edited
+ */
+export function getMarkdownImageSrc(
+  src: string | undefined,
+  metadataMap?: Map<string, ImageMetadata>
+): string | undefined {
+  return src && getImageDisplayUrl(src, metadataMap?.get(src));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { formatPostDate, formatPostDateTime, isValidSlug, slugify } from './postUtils';
+
+describe('slugify', () => {
+  it('lowercases and joins words with single hyphens', () => {
+    expect(slugify('  Mount Whitney & Back, Again!  ')).toBe('mount-whitney-back-again');
+  });
+
+  it('strips accents rather than dropping the letters', () => {
+    expect(slugify('Jökulsárlón')).toBe('jokulsarlon');
+    expect(slugify('Crème Brûlée')).toBe('creme-brulee');
+  });
+
+  it('falls back to "post" when nothing is left', () => {
+    expect(slugify('')).toBe('post');
+    expect(slugify('日本')).toBe('post');
+  });
+
+  it('caps the length at 80 without a trailing hyphen', () => {
+    const slug = slugify(`${'a'.repeat(79)} b`);
+    expect(slug).toBe('a'.repeat(79));
+    expect(slugify('x'.repeat(100))).toHaveLength(80);
+  });
+
+  it('always makes valid slugs', () => {
+    ['Hello, World', '--Día de los Muertos--', 'ﬁre & ice', 'K2 (8,611 m)'].forEach(title => {
+      expect(isValidSlug(slugify(title))).toBe(true);
+    });
+  });
+});
+
+describe('isValidSlug', () => {
+  it('rejects uppercase, spaces and stray hyphens', () => {
+    expect(isValidSlug('trip-2024')).toBe(true);
+    expect(isValidSlug('Trip')).toBe(false);
+    expect(isValidSlug('a b')).toBe(false);
+    expect(isValidSlug('-a')).toBe(false);
+    expect(isValidSlug('a--b')).toBe(false);
+  });
+});
+
+describe('formatPostDate', () => {
+  it('formats the calendar date in UTC, whatever the local time zone', () => {
+    expect(formatPostDate('2024-06-02')).toBe('June 2, 2024');
+    expect(formatPostDate('2024-06-02T23:30:00Z')).toBe('June 2, 2024');
+  });
+});
+
+describe('formatPostDateTime', () => {
+  it('labels the time as UTC', () => {
+    expect(formatPostDateTime('2024-06-02T18:05:00Z')).toBe('June 2, 2024 at 6:05 PM UTC');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Utility functions for post publishing state
+ */
+
+import { BlogPost, PostStatus } from '../types/BlogPost';
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  scheduled: 'Scheduled',
+  archived: 'Archived'
+};
+
+/**
+ * Check if readers can see a post (published, or scheduled and past its date)
+ */
+export function isPostLive(post: Pick<BlogPost, 'status' | 'publishedAt'>, now = new Date()): boolean {
+  if (post.status !== 'published' && post.status !== 'scheduled') {
+    return false;
+  }
+  if (!post.publishedAt) {
+    return post.status === 'published';
+  }
+  return new Date(post.publishedAt) <= now;
+}
+
+/**
+ * Get the status to display, treating scheduled posts whose date has passed as published
+ */
+export function getEffectiveStatus(post: Pick<BlogPost, 'status' | 'publishedAt'>, now = new Date()): PostStatus {
+  if (post.status === 'scheduled' && isPostLive(post, now)) {
+    return 'published';
+  }
+  return post.status;
+}
+
+/**
+ * Convert an ISO timestamp to a value for a datetime-local input
+ */
+export function toDateTimeLocalValue(isoString?: string): string {
+  if (!isoString) return '';
+  const date = new Date(isoString);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Convert a datetime-local input value to an ISO timestamp
+ */
+export function fromDateTimeLocalValue(value: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Dates are formatted in UTC so prerendered pages match what the browser renders
+const POST_DATE_FORMAT = new Intl.DateTimeFormat('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  timeZone: 'UTC'
+});
+
+const POST_DATE_TIME_FORMAT = new Intl.DateTimeFormat('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+  timeZone: 'UTC',
+  timeZoneName: 'short'
+});
+
+/**
+ * Format a post's date (YYYY-MM-DD or ISO timestamp), e.g. "June 2, 2024"
+ */
+export function formatPostDate(date: string): string {
+  return POST_DATE_FORMAT.format(new Date(date));
+}
+
+/**
+ * Format a publish time, e.g. "June 2, 2024 at 6:00 PM UTC"
+ */
+export function formatPostDateTime(isoString: string): string {
+  return POST_DATE_TIME_FORMAT.format(new Date(isoString));
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Turn a post title or tag name into a URL-safe slug. The `slugify` SQL
+ * function makes the same slugs; change both together.
+ */
+export function slugify(value: string): string {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents so "Jökulsárlón" becomes "jokulsarlon"
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 80)
+    .replace(/^-+|-+$/g, '');
+
+  return slug || 'post';
+}
+
+/**
+ * Check if a slug only uses lowercase letters, numbers and single hyphens
+ */
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug);
+}
+
+/**
+ * Check if a post URL parameter is a post id (old /post/:id links) rather than a slug
+ */
+export function isPostId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Get the public path for a post
+ */
+export function getPostPath(post: Pick<BlogPost, 'slug'>): string {
+  return `/post/${post.slug}`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Utility functions for handing data from prerendered pages to the app
+ *
+ * A prerendered post page embeds the data it was rendered from, so the app
+ * can hydrate the markup without fetching anything first:
+ *
+ *   <script type="application/json" id="preloaded-state">{"post": ...}</script>
+ */
+
+import type { ImageMetadata } from '../services/imageService';
+import { BlogPost } from '../types/BlogPost';
+import { Category } from '../types/Category';
+
+export interface PreloadedState {
+  post: BlogPost;
+  categories: Category[];
+  images: ImageMetadata[]; // The library images the post shows
+}
+
+export const PRELOADED_STATE_ID = 'preloaded-state';
+
+/**
+ * Serialize state for an inline JSON script. "<" is escaped so post content
+ * can't close the script element.
+ */
+export function serializePreloadedState(state: PreloadedState): string {
+  return JSON.stringify(state).replace(/</g, '\\u003c');
+}
+
+/**
+ * Read the state a prerendered page was built from, if this is one
+ */
+export function readPreloadedState(): PreloadedState | null {
+  const element = document.getElementById(PRELOADED_STATE_ID);
+  if (!element?.textContent) return null;
+
+  try {
+    return JSON.parse(element.textContent) as PreloadedState;
+  } catch (error) {
+    console.error('Failed to read preloaded state:', error);
+    return null;
+  }
+}
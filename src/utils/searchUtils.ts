@@ -0,0 +1,46 @@
+/**
+ * Utility functions for displaying search results
+ */
+
+// Characters the search function wraps around matched words in snippets
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts for rendering
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of snippet) {
+    if (char === SEARCH_HIGHLIGHT_START || char === SEARCH_HIGHLIGHT_END) {
+      if (text) {
+        parts.push({ text, highlighted });
+      }
+      text = '';
+      highlighted = char === SEARCH_HIGHLIGHT_START;
+    } else {
+      text += char;
+    }
+  }
+
+  if (text) {
+    parts.push({ text, highlighted });
+  }
+
+  return parts;
+}
+
+/**
+ * Build the search page URL for a query
+ */
+export function getSearchPath(query: string): string {
+  return `/search?q=${encodeURIComponent(query.trim())}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * Utility functions for post tags
+ */
+
+import { Tag } from '../types/Tag';
+import { slugify } from './postUtils';
+
+/**
+ * Get the URL of a tag's listing page
+ */
+export function getTagPath(tag: Pick<Tag, 'slug'>): string {
+  return `/tag/${tag.slug}`;
+}
+
+/**
+ * Normalize a tag name typed by an editor (collapse whitespace, drop a leading #)
+ */
+export function normalizeTagName(name: string): string {
+  return name.replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Add a tag name to a list unless a tag with the same slug is already there
+ */
+export function addTagName(names: string[], name: string): string[] {
+  const normalized = normalizeTagName(name);
+  if (!normalized || names.some(existing => slugify(existing) === slugify(normalized))) {
+    return names;
+  }
+  return [...names, normalized];
+}
+
+/**
+ * Sort tags alphabetically by name
+ */
+export function sortTags<T extends Pick<Tag, 'name'>>(tags: T[]): T[] {
+  return [...tags].sort((a, b) => a.name.localeCompare(b.name));
+}
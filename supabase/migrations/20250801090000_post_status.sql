@@ -0,0 +1,87 @@
+/*
+  # Add Publishing Lifecycle to Blog Posts
+
+  1. Schema Changes
+    - Add `status` column to `blog_posts` (draft, published, scheduled, archived)
+    - Add `published_at` column recording when a post went (or goes) live
+    - Existing posts are marked published, using `created_at` as `published_at`
+    - New posts default to draft
+
+  2. Security
+    - Replace the "Public can read blog posts" policy so anonymous readers only see
+      published posts, and scheduled posts once their `published_at` has passed
+    - Authenticated users keep full access through the existing manage policy
+
+  3. Functions
+    - Trigger fills in `published_at` when a post is published without one, or
+      is published ahead of its scheduled date
+*/
+
+-- Add status and published_at columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'blog_posts' AND column_name = 'status'
+  ) THEN
+    -- Existing posts were already public, so backfill them as published
+    ALTER TABLE blog_posts ADD COLUMN status text NOT NULL DEFAULT 'published';
+    ALTER TABLE blog_posts ALTER COLUMN status SET DEFAULT 'draft';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'blog_posts' AND column_name = 'published_at'
+  ) THEN
+    ALTER TABLE blog_posts ADD COLUMN published_at timestamptz;
+    UPDATE blog_posts SET published_at = created_at WHERE status = 'published';
+  END IF;
+END $$;
+
+-- Only allow known statuses, and require a date for scheduled posts
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_status_check;
+ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_status_check
+  CHECK (status IN ('draft', 'published', 'scheduled', 'archived'));
+
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_scheduled_date_check;
+ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_scheduled_date_check
+  CHECK (status <> 'scheduled' OR published_at IS NOT NULL);
+
+-- Index for listing live posts by publish date
+CREATE INDEX IF NOT EXISTS blog_posts_status_published_at_idx
+  ON blog_posts (status, published_at DESC);
+
+-- Replace public read policy so only live posts are visible
+DROP POLICY IF EXISTS "Public can read blog posts" ON blog_posts;
+DROP POLICY IF EXISTS "Public can read published blog posts" ON blog_posts;
+
+CREATE POLICY "Public can read published blog posts"
+ON blog_posts
+FOR SELECT
+TO public
+USING (
+  status IN ('published', 'scheduled')
+  AND published_at IS NOT NULL
+  AND published_at <= now()
+);
+
+-- Function to stamp published_at when a post is published
+CREATE OR REPLACE FUNCTION set_blog_post_published_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'published' AND (NEW.published_at IS NULL OR NEW.published_at > now()) THEN
+    NEW.published_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_blog_post_published_at_trigger ON blog_posts;
+
+CREATE TRIGGER set_blog_post_published_at_trigger
+  BEFORE INSERT OR UPDATE ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION set_blog_post_published_at();
+
+COMMENT ON COLUMN blog_posts.status IS 'Publishing state: draft, published, scheduled or archived';
+COMMENT ON COLUMN blog_posts.published_at IS 'When the post went live, or is scheduled to go live';
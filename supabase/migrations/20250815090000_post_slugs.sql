@@ -0,0 +1,141 @@
+/*
+  # Add Human-Readable Slugs to Blog Posts
+
+  1. Schema Changes
+    - Add unique `slug` column to `blog_posts`, backfilled from each post's title
+    - New `blog_post_slug_history` table remembering slugs a post used before,
+      so old shared links can redirect to the current URL
+
+  2. Security
+    - Public can read slug history only for posts they can read
+    - Authenticated users can manage slug history
+
+  3. Functions
+    - `slugify` turns a title into a URL-safe slug
+    - Trigger generates a unique slug when a post is saved without one, and
+      records the previous slug whenever it changes
+*/
+
+-- Function to turn text into a URL-safe slug
+CREATE OR REPLACE FUNCTION slugify(value text)
+RETURNS text AS $$
+  SELECT COALESCE(
+    NULLIF(trim(both '-' from left(regexp_replace(lower(value), '[^a-z0-9]+', '-', 'g'), 80)), ''),
+    'post'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to find a slug not used by any other post
+CREATE OR REPLACE FUNCTION unique_blog_post_slug(base_slug text, post_id uuid)
+RETURNS text AS $$
+DECLARE
+  candidate text := base_slug;
+  suffix integer := 1;
+BEGIN
+  WHILE EXISTS (SELECT 1 FROM blog_posts WHERE slug = candidate AND id <> post_id) LOOP
+    suffix := suffix + 1;
+    candidate := base_slug || '-' || suffix;
+  END LOOP;
+  RETURN candidate;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add slug column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'blog_posts' AND column_name = 'slug'
+  ) THEN
+    ALTER TABLE blog_posts ADD COLUMN slug text;
+  END IF;
+END $$;
+
+-- Backfill slugs for existing posts, oldest first so they keep the plain slug.
+-- The metadata trigger is paused so updated_at isn't bumped by the backfill.
+ALTER TABLE blog_posts DISABLE TRIGGER update_blog_post_metadata_trigger;
+
+DO $$
+DECLARE
+  post_record RECORD;
+BEGIN
+  FOR post_record IN
+    SELECT id, title FROM blog_posts WHERE slug IS NULL ORDER BY created_at
+  LOOP
+    UPDATE blog_posts
+    SET slug = unique_blog_post_slug(slugify(post_record.title), post_record.id)
+    WHERE id = post_record.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE blog_posts ENABLE TRIGGER update_blog_post_metadata_trigger;
+
+ALTER TABLE blog_posts ALTER COLUMN slug SET NOT NULL;
+
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_slug_format_check;
+ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_slug_format_check
+  CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS blog_posts_slug_key ON blog_posts (slug);
+
+-- Create table of previous slugs
+CREATE TABLE IF NOT EXISTS blog_post_slug_history (
+  slug text PRIMARY KEY,
+  post_id uuid NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS blog_post_slug_history_post_id_idx
+  ON blog_post_slug_history (post_id);
+
+-- Enable RLS on blog_post_slug_history table
+ALTER TABLE blog_post_slug_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read slug history" ON blog_post_slug_history;
+DROP POLICY IF EXISTS "Authenticated users can manage slug history" ON blog_post_slug_history;
+
+-- Policy: Public can read history for posts visible to them
+CREATE POLICY "Public can read slug history"
+ON blog_post_slug_history
+FOR SELECT
+TO public
+USING (EXISTS (SELECT 1 FROM blog_posts WHERE blog_posts.id = blog_post_slug_history.post_id));
+
+-- Policy: Authenticated users can manage slug history
+CREATE POLICY "Authenticated users can manage slug history"
+ON blog_post_slug_history
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Function to generate missing slugs and remember previous ones
+CREATE OR REPLACE FUNCTION set_blog_post_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.slug IS NULL OR trim(NEW.slug) = '' THEN
+    NEW.slug = unique_blog_post_slug(slugify(NEW.title), NEW.id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slug <> OLD.slug THEN
+    INSERT INTO blog_post_slug_history (slug, post_id)
+    VALUES (OLD.slug, OLD.id)
+    ON CONFLICT (slug) DO UPDATE SET post_id = EXCLUDED.post_id, created_at = now();
+  END IF;
+
+  -- A slug in use by a post always wins over history
+  DELETE FROM blog_post_slug_history WHERE slug = NEW.slug;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_blog_post_slug_trigger ON blog_posts;
+
+CREATE TRIGGER set_blog_post_slug_trigger
+  BEFORE INSERT OR UPDATE ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION set_blog_post_slug();
+
+COMMENT ON COLUMN blog_posts.slug IS 'Unique URL slug used in /post/:slug links';
+COMMENT ON TABLE blog_post_slug_history IS 'Slugs a post used previously, for redirecting old links';
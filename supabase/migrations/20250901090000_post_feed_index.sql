@@ -0,0 +1,10 @@
+/*
+  # Index for Paginated Gallery Feed
+
+  1. Indexes
+    - Add index on `blog_posts (published_at DESC, id DESC)` matching the
+      gallery's keyset pagination order, so loading later pages stays fast
+*/
+
+CREATE INDEX IF NOT EXISTS blog_posts_feed_idx
+  ON blog_posts (published_at DESC, id DESC);
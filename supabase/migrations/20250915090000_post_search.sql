@@ -0,0 +1,79 @@
+/*
+  # Full-Text Search for Blog Posts
+
+  1. Functions
+    - `blog_post_search_document` builds the weighted search document for a post
+      (title ranks above excerpt, which ranks above content)
+    - `search_blog_posts` returns live posts matching a query, ranked by
+      relevance, with a highlighted snippet for each result
+
+  2. Indexes
+    - GIN expression index on the search document, so searching doesn't need
+      an extra column that every `select('*')` would download
+
+  3. Notes
+    - Queries use `websearch_to_tsquery`, so readers can type plain words,
+      "quoted phrases" and -exclusions without producing syntax errors
+    - Snippets mark matches with the STX/ETX control characters instead of
+      HTML, so the client can highlight them without rendering raw markup
+*/
+
+-- Function to build the weighted search document for a post
+CREATE OR REPLACE FUNCTION blog_post_search_document(title text, excerpt text, content text)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(excerpt, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(content, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS blog_posts_search_idx
+  ON blog_posts USING GIN (blog_post_search_document(title, excerpt, content));
+
+-- Function to search live posts, best matches first
+CREATE OR REPLACE FUNCTION search_blog_posts(search_query text, result_limit integer DEFAULT 30)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  title text,
+  category text,
+  image_url text,
+  excerpt text,
+  read_time text,
+  image_metadata jsonb,
+  published_at timestamptz,
+  created_at timestamptz,
+  rank real,
+  snippet text
+) AS $$
+  SELECT
+    p.id,
+    p.slug,
+    p.title,
+    p.category,
+    p.image_url,
+    p.excerpt,
+    p.read_time,
+    p.image_metadata,
+    p.published_at,
+    p.created_at,
+    ts_rank(blog_post_search_document(p.title, p.excerpt, p.content), q) AS rank,
+    ts_headline(
+      'english'::regconfig,
+      -- Drop image shortcodes and Markdown punctuation so snippets read as prose
+      regexp_replace(
+        regexp_replace(p.excerpt || ' ' || p.content, '\{\{[^}]*\}\}', ' ', 'g'),
+        '[#*_>`~|]+', ' ', 'g'
+      ),
+      q,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM blog_posts p, websearch_to_tsquery('english'::regconfig, search_query) q
+  WHERE p.status IN ('published', 'scheduled')
+    AND p.published_at <= now()
+    AND blog_post_search_document(p.title, p.excerpt, p.content) @@ q
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT least(greatest(result_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_blog_posts(text, integer) IS 'Ranked full-text search over live blog posts with highlighted snippets';
@@ -0,0 +1,107 @@
+/*
+  # Database-Driven Post Categories
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique) - value stored in `blog_posts.category`
+      - `label` (text) - name shown to readers
+      - `color` (text) - hex color used for category badges
+      - `sort_order` (integer) - position in filters and selectors
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Schema Changes
+    - Seed categories from the previously hard-coded lists plus every category
+      already used by a post (e.g. "photography" from the sample data)
+    - `blog_posts.category` now references `categories.slug`, so a post can't
+      be saved into a category the gallery doesn't know about. Renaming a slug
+      cascades to posts; deleting a category that's still in use is refused.
+    - Drop the old 'lifestyle' default; the editor always picks a category
+
+  3. Security
+    - Public can read categories
+    - Authenticated users can manage categories
+*/
+
+-- Create categories table
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  color text NOT NULL DEFAULT '#2563eb' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS categories_sort_order_idx ON categories (sort_order, label);
+
+-- Enable RLS on categories table
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read categories" ON categories;
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON categories;
+
+-- Policy: Public can read categories
+CREATE POLICY "Public can read categories"
+ON categories
+FOR SELECT
+TO public
+USING (true);
+
+-- Policy: Authenticated users can manage categories
+CREATE POLICY "Authenticated users can manage categories"
+ON categories
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON categories;
+
+-- Trigger to automatically update updated_at
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the categories the app used to hard-code
+INSERT INTO categories (slug, label, color, sort_order) VALUES
+  ('hiking', 'Hiking', '#16a34a', 10),
+  ('travel', 'Travel', '#2563eb', 20),
+  ('food', 'Food', '#ea580c', 30),
+  ('mountaineering', 'Mountaineering', '#7c3aed', 40),
+  ('lifestyle', 'Lifestyle', '#db2777', 50),
+  ('photography', 'Photography', '#0891b2', 60)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Normalize existing post categories to slugs and add any that aren't seeded.
+-- The metadata trigger is paused so updated_at isn't bumped.
+ALTER TABLE blog_posts DISABLE TRIGGER update_blog_post_metadata_trigger;
+
+UPDATE blog_posts
+SET category = slugify(category)
+WHERE category <> slugify(category);
+
+ALTER TABLE blog_posts ENABLE TRIGGER update_blog_post_metadata_trigger;
+
+INSERT INTO categories (slug, label, sort_order)
+SELECT
+  used.category,
+  initcap(replace(used.category, '-', ' ')),
+  100 + row_number() OVER (ORDER BY used.category)
+FROM (SELECT DISTINCT category FROM blog_posts) used
+ON CONFLICT (slug) DO NOTHING;
+
+-- Posts must belong to a known category
+ALTER TABLE blog_posts ALTER COLUMN category DROP DEFAULT;
+
+ALTER TABLE blog_posts DROP CONSTRAINT IF EXISTS blog_posts_category_fkey;
+ALTER TABLE blog_posts ADD CONSTRAINT blog_posts_category_fkey
+  FOREIGN KEY (category) REFERENCES categories(slug)
+  ON UPDATE CASCADE
+  ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS blog_posts_category_idx ON blog_posts (category);
+
+COMMENT ON TABLE categories IS 'Post categories shown in gallery filters and the post editor';
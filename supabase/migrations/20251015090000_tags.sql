@@ -0,0 +1,185 @@
+/*
+  # Post Tags
+
+  1. New Tables
+    - `tags`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique) - used in /tag/:tag URLs
+      - `name` (text) - name shown on tag chips
+      - `created_at` (timestamptz)
+    - `blog_post_tags` - links posts to any number of tags
+      - `post_id` (uuid, references blog_posts, cascades on delete)
+      - `tag_id` (uuid, references tags, cascades on delete)
+
+  2. Security
+    - Public can read tags, and links for posts they can read
+    - Authenticated users can manage tags and links
+
+  3. Functions
+    - `set_blog_post_tags` replaces a post's tags by name, creating new tags as needed
+    - `blog_post_ids_with_tags` finds posts that have every one of the given tags
+    - `search_blog_posts` now also returns each result's tags
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create post/tag link table
+CREATE TABLE IF NOT EXISTS blog_post_tags (
+  post_id uuid NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (post_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS blog_post_tags_tag_id_idx ON blog_post_tags (tag_id);
+
+-- Enable RLS on tag tables
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blog_post_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read tags" ON tags;
+DROP POLICY IF EXISTS "Authenticated users can manage tags" ON tags;
+DROP POLICY IF EXISTS "Public can read post tags" ON blog_post_tags;
+DROP POLICY IF EXISTS "Authenticated users can manage post tags" ON blog_post_tags;
+
+-- Policy: Public can read tags
+CREATE POLICY "Public can read tags"
+ON tags
+FOR SELECT
+TO public
+USING (true);
+
+-- Policy: Authenticated users can manage tags
+CREATE POLICY "Authenticated users can manage tags"
+ON tags
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Policy: Public can read links for posts visible to them, so tag counts
+-- and tag pages never reveal drafts
+CREATE POLICY "Public can read post tags"
+ON blog_post_tags
+FOR SELECT
+TO public
+USING (EXISTS (SELECT 1 FROM blog_posts WHERE blog_posts.id = blog_post_tags.post_id));
+
+-- Policy: Authenticated users can manage post tags
+CREATE POLICY "Authenticated users can manage post tags"
+ON blog_post_tags
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Function to replace a post's tags, creating tags that don't exist yet.
+-- Names that slugify to an existing tag reuse it rather than duplicating it.
+CREATE OR REPLACE FUNCTION set_blog_post_tags(target_post_id uuid, tag_names text[])
+RETURNS SETOF tags AS $$
+DECLARE
+  tag_slugs text[];
+BEGIN
+  SELECT coalesce(array_agg(DISTINCT slugify(trim(tag_name))), '{}')
+  INTO tag_slugs
+  FROM unnest(tag_names) AS tag_name
+  WHERE trim(tag_name) <> '';
+
+  INSERT INTO tags (slug, name)
+  SELECT DISTINCT ON (slugify(trim(tag_name))) slugify(trim(tag_name)), trim(tag_name)
+  FROM unnest(tag_names) AS tag_name
+  WHERE trim(tag_name) <> ''
+  ON CONFLICT (slug) DO NOTHING;
+
+  DELETE FROM blog_post_tags
+  WHERE post_id = target_post_id
+    AND tag_id NOT IN (SELECT id FROM tags WHERE slug = ANY(tag_slugs));
+
+  INSERT INTO blog_post_tags (post_id, tag_id)
+  SELECT target_post_id, id FROM tags WHERE slug = ANY(tag_slugs)
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY
+    SELECT t.*
+    FROM tags t
+    JOIN blog_post_tags pt ON pt.tag_id = t.id
+    WHERE pt.post_id = target_post_id
+    ORDER BY t.name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to find posts tagged with all of the given tag slugs
+CREATE OR REPLACE FUNCTION blog_post_ids_with_tags(tag_slugs text[])
+RETURNS SETOF uuid AS $$
+  SELECT pt.post_id
+  FROM blog_post_tags pt
+  JOIN tags t ON t.id = pt.tag_id
+  WHERE t.slug = ANY(tag_slugs)
+  GROUP BY pt.post_id
+  HAVING count(DISTINCT t.slug) = (SELECT count(DISTINCT slug) FROM unnest(tag_slugs) AS slug);
+$$ LANGUAGE sql STABLE;
+
+-- Search results gain a tags column, which changes the return type
+DROP FUNCTION IF EXISTS search_blog_posts(text, integer);
+
+CREATE FUNCTION search_blog_posts(search_query text, result_limit integer DEFAULT 30)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  title text,
+  category text,
+  image_url text,
+  excerpt text,
+  read_time text,
+  image_metadata jsonb,
+  published_at timestamptz,
+  created_at timestamptz,
+  tags jsonb,
+  rank real,
+  snippet text
+) AS $$
+  SELECT
+    p.id,
+    p.slug,
+    p.title,
+    p.category,
+    p.image_url,
+    p.excerpt,
+    p.read_time,
+    p.image_metadata,
+    p.published_at,
+    p.created_at,
+    (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'slug', t.slug, 'name', t.name) ORDER BY t.name), '[]'::jsonb)
+      FROM blog_post_tags pt
+      JOIN tags t ON t.id = pt.tag_id
+      WHERE pt.post_id = p.id
+    ) AS tags,
+    ts_rank(blog_post_search_document(p.title, p.excerpt, p.content), q) AS rank,
+    ts_headline(
+      'english'::regconfig,
+      -- Drop image shortcodes and Markdown punctuation so snippets read as prose
+      regexp_replace(
+        regexp_replace(p.excerpt || ' ' || p.content, '\{\{[^}]*\}\}', ' ', 'g'),
+        '[#*_>`~|]+', ' ', 'g'
+      ),
+      q,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM blog_posts p, websearch_to_tsquery('english'::regconfig, search_query) q
+  WHERE p.status IN ('published', 'scheduled')
+    AND p.published_at <= now()
+    AND blog_post_search_document(p.title, p.excerpt, p.content) @@ q
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT least(greatest(result_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_blog_posts(text, integer) IS 'Ranked full-text search over live blog posts with highlighted snippets';
+COMMENT ON TABLE tags IS 'Free-form post tags, shown as chips and listed at /tag/:tag';
+COMMENT ON TABLE blog_post_tags IS 'Links posts to their tags';
@@ -0,0 +1,107 @@
+/*
+  # Post Revision History
+
+  1. New Tables
+    - `blog_post_revisions` - a snapshot of a post's content each time it's saved
+      - `id` (uuid, primary key)
+      - `post_id` (uuid, references blog_posts, cascades on delete)
+      - `title`, `slug`, `category`, `image_url`, `images`, `excerpt`,
+        `content`, `image_metadata` - the post's content as saved
+      - `author_id` (uuid) and `author_email` (text) - who saved it
+      - `created_at` (timestamptz) - when it was saved
+
+  2. Triggers
+    - Every insert, and every update that changes a post's content, records
+      a revision. Status changes (publishing, archiving) don't, since the
+      text is unchanged. Tags live in their own table and aren't recorded.
+
+  3. Existing Data
+    - Each existing post gets a revision holding its current content
+
+  4. Security
+    - Only authenticated users can read revisions; they're written by the trigger
+*/
+
+-- Create revisions table
+CREATE TABLE IF NOT EXISTS blog_post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES blog_posts(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  slug text NOT NULL,
+  category text NOT NULL,
+  image_url text NOT NULL,
+  images text[] DEFAULT '{}',
+  excerpt text NOT NULL,
+  content text NOT NULL,
+  image_metadata jsonb,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_email text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS blog_post_revisions_post_id_idx
+  ON blog_post_revisions (post_id, created_at DESC);
+
+-- Enable RLS on revisions table
+ALTER TABLE blog_post_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read post revisions" ON blog_post_revisions;
+
+-- Policy: Authenticated users can read post revisions
+CREATE POLICY "Authenticated users can read post revisions"
+ON blog_post_revisions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Function to record a post's content after it's saved. Runs as the owner so
+-- the trigger can write revisions that editors can't insert directly.
+CREATE OR REPLACE FUNCTION record_blog_post_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.slug IS NOT DISTINCT FROM OLD.slug
+    AND NEW.category IS NOT DISTINCT FROM OLD.category
+    AND NEW.image_url IS NOT DISTINCT FROM OLD.image_url
+    AND NEW.images IS NOT DISTINCT FROM OLD.images
+    AND NEW.excerpt IS NOT DISTINCT FROM OLD.excerpt
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.image_metadata IS NOT DISTINCT FROM OLD.image_metadata
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO blog_post_revisions (
+    post_id, title, slug, category, image_url, images, excerpt, content,
+    image_metadata, author_id, author_email
+  ) VALUES (
+    NEW.id, NEW.title, NEW.slug, NEW.category, NEW.image_url, NEW.images,
+    NEW.excerpt, NEW.content, NEW.image_metadata,
+    auth.uid(), auth.jwt() ->> 'email'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_blog_post_revision_trigger ON blog_posts;
+
+-- Trigger to record a revision whenever a post is saved
+CREATE TRIGGER record_blog_post_revision_trigger
+  AFTER INSERT OR UPDATE ON blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_blog_post_revision();
+
+-- Give existing posts a starting revision
+INSERT INTO blog_post_revisions (
+  post_id, title, slug, category, image_url, images, excerpt, content,
+  image_metadata, author_id, created_at
+)
+SELECT
+  p.id, p.title, p.slug, p.category, p.image_url, p.images, p.excerpt,
+  p.content, p.image_metadata, p.created_by, coalesce(p.updated_at, p.created_at, now())
+FROM blog_posts p
+WHERE NOT EXISTS (SELECT 1 FROM blog_post_revisions r WHERE r.post_id = p.id);
+
+COMMENT ON TABLE blog_post_revisions IS 'Snapshots of post content, recorded each time a post is saved';
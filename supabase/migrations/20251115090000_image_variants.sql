@@ -0,0 +1,30 @@
+/*
+  # Responsive Image Variants
+
+  1. Schema Changes
+    - Add `variants` column to `blog_images`
+    - JSONB array of the downscaled copies made in the browser at upload time,
+      so pages can offer a `srcset` instead of the full-size original
+
+  2. Data Structure
+    Each variant records where it's stored and its size and format:
+    ```json
+    [
+      {
+        "width": 800,
+        "height": 533,
+        "mime_type": "image/webp",
+        "storage_path": "posts/1730000000000-abc123-800w.webp",
+        "public_url": "https://.../blog-images/posts/1730000000000-abc123-800w.webp"
+      }
+    ]
+    ```
+
+  3. Backward Compatibility
+    - Existing images get an empty list and keep being served at full size
+*/
+
+-- Add variants column to blog_images table
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS variants jsonb NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN blog_images.variants IS 'Downscaled JPEG/WebP copies of the image, used for responsive srcset attributes';
@@ -0,0 +1,33 @@
+/*
+  # Camera Data for Uploaded Images
+
+  1. Schema Changes
+    - Add EXIF columns to `blog_images`, read in the browser at upload time:
+      - `taken_at` (text) - capture time as the camera recorded it,
+        "YYYY-MM-DDTHH:mm:ss" plus an offset when the camera stored one
+      - `camera_make`, `camera_model`, `lens_model` (text)
+      - `focal_length` (real, mm), `aperture` (real, f-number),
+        `exposure_time` (double precision, seconds), `iso` (integer)
+      - `gps_latitude`, `gps_longitude` (double precision, decimal degrees)
+
+  2. Privacy
+    - Image metadata is publicly readable. Uploads strip GPS from the file by
+      default, and then leave the GPS columns empty as well.
+
+  3. Backward Compatibility
+    - Existing images have no camera data; all columns are nullable
+*/
+
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS taken_at text;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS camera_make text;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS camera_model text;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS lens_model text;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS focal_length real;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS aperture real;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS exposure_time double precision;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS iso integer;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS gps_latitude double precision;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS gps_longitude double precision;
+
+COMMENT ON COLUMN blog_images.taken_at IS 'Capture time from EXIF, in the camera''s own clock (an offset is included when recorded)';
+COMMENT ON COLUMN blog_images.gps_latitude IS 'Capture location from EXIF; empty when GPS was stripped on upload';
@@ -0,0 +1,44 @@
+/*
+  # Image Usage Index
+
+  1. Views
+    - `blog_image_usage` has a row for each post that uses an uploaded image,
+      through any of:
+      - `image_url` (the post's main image)
+      - `images` (the post gallery)
+      - `content`, either by URL or as an `{{image id="..."}}` shortcode
+    - Flags say where the image appears, for badges and delete warnings
+
+  2. Security
+    - `security_invoker` applies the caller's row-level security, so visitors
+      only see usage by published posts while admins see drafts too
+
+  3. Notes
+    - Computed on read rather than stored, so it's never out of date when
+      posts are edited, deleted or restored from a revision
+    - Known limit: the join searches every post's content for every image,
+      so a read costs (images × posts) text searches and no index helps.
+      That's fine at a personal blog's scale of hundreds of posts and a few
+      thousand images. Well beyond that, replace the view with a table that
+      a trigger on `blog_posts` keeps up to date.
+*/
+
+CREATE OR REPLACE VIEW blog_image_usage
+WITH (security_invoker = true) AS
+  SELECT
+    i.id AS image_id,
+    p.id AS post_id,
+    p.title AS post_title,
+    p.slug AS post_slug,
+    p.status AS post_status,
+    p.image_url = i.public_url AS in_main_image,
+    i.public_url = ANY(p.images) AS in_gallery,
+    (strpos(p.content, i.public_url) > 0 OR strpos(p.content, i.id::text) > 0) AS in_content
+  FROM blog_images i
+  JOIN blog_posts p ON
+    p.image_url = i.public_url
+    OR i.public_url = ANY(p.images)
+    OR strpos(p.content, i.public_url) > 0
+    OR strpos(p.content, i.id::text) > 0;
+
+COMMENT ON VIEW blog_image_usage IS 'Which posts use each uploaded image, as main image, in the gallery or inline';
@@ -0,0 +1,47 @@
+/*
+  # Duplicate Detection for Uploaded Images
+
+  1. Schema Changes
+    - Add fingerprint columns to `blog_images`, computed in the browser before
+      upload:
+      - `content_hash` (text) - SHA-256 of the file as chosen, in hex
+      - `perceptual_hash` (text) - 64-bit difference hash of the picture, as
+        16 hex digits, which survives resizing and re-exporting
+
+  2. Indexes
+    - B-tree index on `content_hash` for exact matches
+
+  3. Functions
+    - `find_similar_images` returns the images whose perceptual hash is within
+      `max_distance` bits of the given one, closest first
+
+  4. Backward Compatibility
+    - Existing images have no fingerprints, so only new uploads are matched
+*/
+
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS perceptual_hash text;
+
+CREATE INDEX IF NOT EXISTS blog_images_content_hash_idx ON blog_images (content_hash);
+
+-- Function to find images that look like the given perceptual hash
+CREATE OR REPLACE FUNCTION find_similar_images(search_hash text, max_distance integer DEFAULT 6, result_limit integer DEFAULT 5)
+RETURNS TABLE (
+  id uuid,
+  distance integer
+) AS $$
+  SELECT matches.id, matches.distance
+  FROM (
+    SELECT
+      i.id,
+      bit_count(('x' || i.perceptual_hash)::bit(64) # ('x' || search_hash)::bit(64))::integer AS distance
+    FROM blog_images i
+    WHERE i.perceptual_hash IS NOT NULL
+  ) matches
+  WHERE matches.distance <= max_distance
+  ORDER BY matches.distance
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON COLUMN blog_images.content_hash IS 'SHA-256 of the uploaded file before conversion, for spotting re-uploads';
+COMMENT ON COLUMN blog_images.perceptual_hash IS 'Difference hash of the picture, for spotting resized or re-exported copies';
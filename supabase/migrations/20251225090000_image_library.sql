@@ -0,0 +1,37 @@
+/*
+  # Image Library View
+
+  1. Views
+    - `blog_image_library` is `blog_images` with two computed columns, so the
+      admin library can filter and sort on them like any other column:
+      - `orientation` (text) - 'landscape', 'portrait' or 'square'; empty when
+        the dimensions are unknown
+      - `usage_count` (integer) - how many posts use the image, from
+        `blog_image_usage`
+
+  2. Indexes
+    - B-tree index on `created_at`, the default sort and the date range filter
+
+  3. Notes
+    - The view lists the `blog_images` columns that exist now; migrations that
+      add columns must recreate it
+    - `usage_count` inherits the cost of `blog_image_usage` (see its known
+      limit): sorting or filtering on it checks every image against every post
+*/
+
+CREATE INDEX IF NOT EXISTS blog_images_created_at_idx ON blog_images (created_at DESC);
+
+CREATE OR REPLACE VIEW blog_image_library
+WITH (security_invoker = true) AS
+  SELECT
+    i.*,
+    CASE
+      WHEN i.width IS NULL OR i.height IS NULL THEN NULL
+      WHEN i.width > i.height THEN 'landscape'
+      WHEN i.width < i.height THEN 'portrait'
+      ELSE 'square'
+    END AS orientation,
+    (SELECT count(*) FROM blog_image_usage u WHERE u.image_id = i.id)::integer AS usage_count
+  FROM blog_images i;
+
+COMMENT ON VIEW blog_image_library IS 'Uploaded images with orientation and usage count, for searching the admin library';
@@ -0,0 +1,80 @@
+/*
+  # Albums for the Image Library
+
+  1. New Tables
+    - `blog_image_albums`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. the trip the photos are from
+      - `description` (text, optional)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Schema Changes
+    - Add `album_id` to `blog_images`. An image is in at most one album;
+      deleting an album leaves its images in the library, unsorted.
+    - Recreate `blog_image_library` so it includes the new column
+
+  3. Security
+    - Public can read albums
+    - Authenticated users can manage albums
+*/
+
+-- Create albums table
+CREATE TABLE IF NOT EXISTS blog_image_albums (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS on albums table
+ALTER TABLE blog_image_albums ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can read image albums" ON blog_image_albums;
+DROP POLICY IF EXISTS "Authenticated users can manage image albums" ON blog_image_albums;
+
+-- Policy: Public can read albums
+CREATE POLICY "Public can read image albums"
+ON blog_image_albums
+FOR SELECT
+TO public
+USING (true);
+
+-- Policy: Authenticated users can manage albums
+CREATE POLICY "Authenticated users can manage image albums"
+ON blog_image_albums
+FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_blog_image_albums_updated_at ON blog_image_albums;
+
+-- Trigger to automatically update updated_at
+CREATE TRIGGER update_blog_image_albums_updated_at
+  BEFORE UPDATE ON blog_image_albums
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add album to blog_images table
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS album_id uuid REFERENCES blog_image_albums(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS blog_images_album_id_idx ON blog_images (album_id);
+
+-- The view's column list was fixed when it was created, so rebuild it
+DROP VIEW IF EXISTS blog_image_library;
+
+CREATE VIEW blog_image_library
+WITH (security_invoker = true) AS
+  SELECT
+    i.*,
+    CASE
+      WHEN i.width IS NULL OR i.height IS NULL THEN NULL
+      WHEN i.width > i.height THEN 'landscape'
+      WHEN i.width < i.height THEN 'portrait'
+      ELSE 'square'
+    END AS orientation,
+    (SELECT count(*) FROM blog_image_usage u WHERE u.image_id = i.id)::integer AS usage_count
+  FROM blog_images i;
+
+COMMENT ON VIEW blog_image_library IS 'Uploaded images with orientation and usage count, for searching the admin library';
@@ -0,0 +1,53 @@
+/*
+  # Image Rotation, Crop and Focal Point
+
+  1. Schema Changes
+    - Add to `blog_images`:
+      - `rotation` (smallint) - clockwise quarter turns in degrees: 0, 90, 180 or 270
+      - `crop` (jsonb, optional) - `{ x, y, width, height }` as fractions of the
+        rotated original
+      - `focal_x`, `focal_y` (real, optional) - the subject of the photo, as
+        fractions of the edited image from the top left; empty means centred
+    - Recreate `blog_image_library` so it includes the new columns
+
+  2. Notes
+    - The uploaded original is never changed. Rotating or cropping replaces
+      the image's variants with ones made from the edited picture, and
+      `width`/`height` become the edited size.
+    - The focal point is used as the CSS `object-position` wherever the image
+      is cropped to fit a box
+*/
+
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS rotation smallint NOT NULL DEFAULT 0;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS crop jsonb;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS focal_x real;
+ALTER TABLE blog_images ADD COLUMN IF NOT EXISTS focal_y real;
+
+ALTER TABLE blog_images DROP CONSTRAINT IF EXISTS blog_images_rotation_check;
+ALTER TABLE blog_images ADD CONSTRAINT blog_images_rotation_check
+  CHECK (rotation IN (0, 90, 180, 270));
+
+ALTER TABLE blog_images DROP CONSTRAINT IF EXISTS blog_images_focal_point_check;
+ALTER TABLE blog_images ADD CONSTRAINT blog_images_focal_point_check
+  CHECK (
+    (focal_x IS NULL AND focal_y IS NULL)
+    OR (focal_x BETWEEN 0 AND 1 AND focal_y BETWEEN 0 AND 1)
+  );
+
+-- The view's column list was fixed when it was created, so rebuild it
+DROP VIEW IF EXISTS blog_image_library;
+
+CREATE VIEW blog_image_library
+WITH (security_invoker = true) AS
+  SELECT
+    i.*,
+    CASE
+      WHEN i.width IS NULL OR i.height IS NULL THEN NULL
+      WHEN i.width > i.height THEN 'landscape'
+      WHEN i.width < i.height THEN 'portrait'
+      ELSE 'square'
+    END AS orientation,
+    (SELECT count(*) FROM blog_image_usage u WHERE u.image_id = i.id)::integer AS usage_count
+  FROM blog_images i;
+
+COMMENT ON VIEW blog_image_library IS 'Uploaded images with orientation and usage count, for searching the admin library';
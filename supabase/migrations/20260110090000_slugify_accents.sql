@@ -0,0 +1,50 @@
+/*
+  # Strip Accents in Slugs
+
+  1. Functions
+    - `slugify` now decomposes text (NFKD) and drops the combining accents
+      before replacing other characters, exactly as `slugify` in
+      src/utils/postUtils.ts does, so "Jökulsárlón" becomes "jokulsarlon"
+      rather than "j-kuls-rl-n"
+
+  2. Data Changes
+    - Tags whose slug came out differently under the old function get the
+      new slug, unless another tag already has it. Without this, tagging a
+      post with an accented name would create a second tag instead of
+      reusing the existing one.
+
+  3. Notes
+    - Post slugs are left alone: they're in shared links, and a post only
+      gets a new one when it's saved without a slug
+*/
+
+-- Function to turn text into a URL-safe slug
+CREATE OR REPLACE FUNCTION slugify(value text)
+RETURNS text AS $$
+  SELECT COALESCE(
+    NULLIF(
+      trim(both '-' from left(
+        regexp_replace(
+          lower(regexp_replace(normalize(value, NFKD), '[\u0300-\u036f]', '', 'g')),
+          '[^a-z0-9]+', '-', 'g'
+        ),
+        80
+      )),
+      ''
+    ),
+    'post'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Re-slug tags created under the old function. When several would share a
+-- new slug, the oldest gets it.
+UPDATE tags
+SET slug = renamed.new_slug
+FROM (
+  SELECT DISTINCT ON (slugify(trim(name))) id, slugify(trim(name)) AS new_slug
+  FROM tags
+  WHERE slug <> slugify(trim(name))
+  ORDER BY slugify(trim(name)), created_at
+) renamed
+WHERE tags.id = renamed.id
+  AND NOT EXISTS (SELECT 1 FROM tags other WHERE other.slug = renamed.new_slug);
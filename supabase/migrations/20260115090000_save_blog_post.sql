@@ -0,0 +1,63 @@
+/*
+  # Save Posts and Their Tags Together
+
+  1. Functions
+    - `save_blog_post` creates or updates a post and replaces its tags in one
+      transaction, so a post is never left saved without the tags it was
+      saved with. Pass `target_post_id` to update; leave it out to create.
+      With `expected_updated_at`, an update only happens if the post hasn't
+      changed since it was loaded.
+
+  2. Notes
+    - Returns the saved post, or no row when the post has changed or been
+      deleted since it was loaded
+    - Runs with the caller's permissions, so the usual policies apply
+*/
+
+CREATE OR REPLACE FUNCTION save_blog_post(
+  post jsonb,
+  tag_names text[],
+  target_post_id uuid DEFAULT NULL,
+  expected_updated_at timestamptz DEFAULT NULL
+)
+RETURNS SETOF blog_posts AS $$
+DECLARE
+  fields blog_posts := jsonb_populate_record(NULL::blog_posts, post);
+  saved_id uuid;
+BEGIN
+  IF target_post_id IS NULL THEN
+    INSERT INTO blog_posts (
+      title, slug, category, image_url, images, excerpt, content, status, published_at, image_metadata
+    )
+    VALUES (
+      fields.title, fields.slug, fields.category, fields.image_url, fields.images, fields.excerpt,
+      fields.content, fields.status, fields.published_at, fields.image_metadata
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE blog_posts
+    SET
+      title = fields.title,
+      slug = fields.slug,
+      category = fields.category,
+      image_url = fields.image_url,
+      images = fields.images,
+      excerpt = fields.excerpt,
+      content = fields.content,
+      status = fields.status,
+      published_at = fields.published_at,
+      image_metadata = fields.image_metadata
+    WHERE id = target_post_id
+      AND (expected_updated_at IS NULL OR updated_at = expected_updated_at)
+    RETURNING id INTO saved_id;
+
+    IF saved_id IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  PERFORM set_blog_post_tags(saved_id, tag_names);
+
+  RETURN QUERY SELECT * FROM blog_posts WHERE id = saved_id;
+END;
+$$ LANGUAGE plpgsql;
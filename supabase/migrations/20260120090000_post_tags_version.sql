@@ -0,0 +1,53 @@
+/*
+  # Count Tag Changes as Post Changes
+
+  1. Functions
+    - `set_blog_post_tags` now bumps the post's `updated_at` whenever it adds
+      or removes one of the post's tags. Editors check `updated_at` before
+      saving so they don't overwrite each other's changes, and a change that
+      only touched tags would otherwise go unnoticed.
+*/
+
+-- Function to replace a post's tags, creating tags that don't exist yet.
+-- Names that slugify to an existing tag reuse it rather than duplicating it.
+CREATE OR REPLACE FUNCTION set_blog_post_tags(target_post_id uuid, tag_names text[])
+RETURNS SETOF tags AS $$
+DECLARE
+  tag_slugs text[];
+  removed_count integer;
+  added_count integer;
+BEGIN
+  SELECT coalesce(array_agg(DISTINCT slugify(trim(tag_name))), '{}')
+  INTO tag_slugs
+  FROM unnest(tag_names) AS tag_name
+  WHERE trim(tag_name) <> '';
+
+  INSERT INTO tags (slug, name)
+  SELECT DISTINCT ON (slugify(trim(tag_name))) slugify(trim(tag_name)), trim(tag_name)
+  FROM unnest(tag_names) AS tag_name
+  WHERE trim(tag_name) <> ''
+  ON CONFLICT (slug) DO NOTHING;
+
+  DELETE FROM blog_post_tags
+  WHERE post_id = target_post_id
+    AND tag_id NOT IN (SELECT id FROM tags WHERE slug = ANY(tag_slugs));
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  INSERT INTO blog_post_tags (post_id, tag_id)
+  SELECT target_post_id, id FROM tags WHERE slug = ANY(tag_slugs)
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS added_count = ROW_COUNT;
+
+  -- The metadata trigger sets updated_at
+  IF removed_count > 0 OR added_count > 0 THEN
+    UPDATE blog_posts SET updated_at = now() WHERE id = target_post_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT t.*
+    FROM tags t
+    JOIN blog_post_tags pt ON pt.tag_id = t.id
+    WHERE pt.post_id = target_post_id
+    ORDER BY t.name;
+END;
+$$ LANGUAGE plpgsql;
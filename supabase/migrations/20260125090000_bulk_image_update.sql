@@ -0,0 +1,36 @@
+/*
+  # Bulk Image Updates
+
+  1. Functions
+    - `update_blog_images` applies the same changes to many images in one
+      statement, so either every image is updated or none is
+      - `changes` may set `alt_text`, `photographer`, `copyright` and
+        `album_id`; keys that are left out keep each image's current value
+      - `caption_prefix` is added to the start of each caption, except
+        captions that already start with it
+
+  2. Notes
+    - Runs with the caller's permissions, so the usual policies apply
+*/
+
+CREATE OR REPLACE FUNCTION update_blog_images(
+  image_ids uuid[],
+  changes jsonb,
+  caption_prefix text DEFAULT NULL
+)
+RETURNS SETOF blog_images AS $$
+  UPDATE blog_images
+  SET
+    alt_text = CASE WHEN changes ? 'alt_text' THEN changes->>'alt_text' ELSE alt_text END,
+    photographer = CASE WHEN changes ? 'photographer' THEN changes->>'photographer' ELSE photographer END,
+    copyright = CASE WHEN changes ? 'copyright' THEN changes->>'copyright' ELSE copyright END,
+    album_id = CASE WHEN changes ? 'album_id' THEN (changes->>'album_id')::uuid ELSE album_id END,
+    caption = CASE
+      WHEN coalesce(trim(caption_prefix), '') = '' THEN caption
+      WHEN coalesce(trim(caption), '') = '' THEN trim(caption_prefix)
+      WHEN starts_with(trim(caption), trim(caption_prefix)) THEN caption
+      ELSE trim(caption_prefix) || ' ' || trim(caption)
+    END
+  WHERE id = ANY(image_ids)
+  RETURNING *;
+$$ LANGUAGE sql;